@@ -9,6 +9,7 @@ import { BPMDetector } from './components/tools/BPMDetector';
 import { AudioRecorder } from './components/tools/AudioRecorder';
 import { AudioConverter } from './components/tools/AudioConverter';
 import { AudioCompressor } from './components/tools/AudioCompressor';
+import { FFmpegStatus } from './components/FFmpegStatus';
 import { ToolType } from './types';
 import { useAudioContext } from './hooks/useAudioContext';
 
@@ -89,6 +90,8 @@ function App() {
         
         {renderTool()}
       </main>
+
+      <FFmpegStatus />
     </div>
   );
 }
@@ -0,0 +1,58 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { ProbedStream } from '@/utils/ffmpegProbe';
+
+interface AudioStreamPickerProps {
+  streams: ProbedStream[] | null; // closed when null
+  onSelect: (stream: ProbedStream | null) => void; // null cancels the import
+}
+
+/**
+ * Asks which audio stream of a video (or multi-track file) to import
+ */
+export const AudioStreamPicker = ({ streams, onSelect }: AudioStreamPickerProps) => {
+  if (!streams) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={() => onSelect(null)}>
+      <div className="bg-neutral-900 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-md w-full shadow-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-semibold text-neutral-100 mb-2">Choisir la piste audio</h2>
+        <p className="text-sm text-neutral-400 mb-4">Ce fichier contient plusieurs pistes audio.</p>
+
+        <div className="space-y-2">
+          {streams.map((stream) => (
+            <button
+              key={stream.index}
+              onClick={() => onSelect(stream)}
+              className="w-full text-left px-4 py-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 active:bg-neutral-600 transition-colors min-h-[48px]"
+            >
+              <div className="flex items-center gap-2 text-neutral-100 font-medium">
+                <span>Piste {stream.index}</span>
+                {stream.language && (
+                  <span className="px-1.5 py-0.5 rounded bg-neutral-700 text-xs uppercase">{stream.language}</span>
+                )}
+                {stream.isDefault && <span className="text-xs text-primary-500">par défaut</span>}
+              </div>
+              {stream.title && <div className="text-sm text-neutral-300 truncate">{stream.title}</div>}
+              <div className="text-xs text-neutral-500">
+                {[
+                  stream.codec,
+                  stream.channelLayout,
+                  stream.sampleRate && `${stream.sampleRate / 1000} kHz`
+                ].filter(Boolean).join(' • ')}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={() => onSelect(null)}
+          className="mt-4 w-full px-4 py-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-colors min-h-[48px]"
+        >
+          Annuler
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { ChannelImportMode } from '@/types';
+import { channelLabels, channelLayoutName } from '@/utils/channelMixer';
+
+interface ChannelModePickerProps {
+  channelCount: number | null; // closed when null
+  onSelect: (mode: ChannelImportMode | null) => void; // null cancels the import
+}
+
+/**
+ * Asks whether a surround file keeps its channels or is folded down at import
+ */
+export const ChannelModePicker = ({ channelCount, onSelect }: ChannelModePickerProps) => {
+  if (!channelCount) return null;
+
+  const options: Array<{ mode: ChannelImportMode; label: string; description: string }> = [
+    {
+      mode: 'keep',
+      label: `Conserver les ${channelCount} canaux`,
+      description: channelLabels(channelCount).join(' '),
+    },
+    {
+      mode: 'stereo',
+      label: 'Réduire en stéréo',
+      description: 'Mixage ITU-R BS.775 (L R), sans le LFE',
+    },
+    {
+      mode: 'mono',
+      label: 'Réduire en mono',
+      description: 'Moyenne du mixage stéréo',
+    },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={() => onSelect(null)}>
+      <div className="bg-neutral-900 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-md w-full shadow-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-semibold text-neutral-100 mb-2">Fichier multicanal</h2>
+        <p className="text-sm text-neutral-400 mb-4">
+          Ce fichier est en {channelLayoutName(channelCount)}. Comment l'importer ?
+        </p>
+
+        <div className="space-y-2">
+          {options.map((option) => (
+            <button
+              key={option.mode}
+              onClick={() => onSelect(option.mode)}
+              className="w-full text-left px-4 py-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 active:bg-neutral-600 transition-colors min-h-[48px]"
+            >
+              <div className="text-neutral-100 font-medium">{option.label}</div>
+              <div className="text-xs text-neutral-500">{option.description}</div>
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={() => onSelect(null)}
+          className="mt-4 w-full px-4 py-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-colors min-h-[48px]"
+        >
+          Annuler
+        </button>
+      </div>
+    </div>
+  );
+};
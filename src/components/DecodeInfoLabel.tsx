@@ -0,0 +1,29 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { DecodeInfo } from '@/types';
+import { AudioUtils } from '@/utils/audioUtils';
+
+const PATH_LABELS: Record<DecodeInfo['path'], string> = {
+  'native': 'décodé par le navigateur',
+  'ffmpeg': 'décodé avec FFmpeg',
+  'ffmpeg-fallback': 'décodé avec FFmpeg après échec du navigateur',
+  'raw': 'lu sans en-tête',
+  'chunked': 'décodé par blocs',
+};
+
+interface DecodeInfoLabelProps {
+  decode: DecodeInfo;
+  className?: string;
+}
+
+/**
+ * Detected format of an imported file and the decoder that read it
+ */
+export const DecodeInfoLabel = ({ decode, className = '' }: DecodeInfoLabelProps) => (
+  <span className={`${decode.path === 'ffmpeg-fallback' ? 'text-yellow-400' : 'text-neutral-500'} ${className}`}>
+    {decode.format} • {PATH_LABELS[decode.path]}
+    {decode.stream && ` • piste ${decode.stream}`}
+    {decode.range && ` • extrait ${AudioUtils.formatTime(decode.range.start)} – ${AudioUtils.formatTime(decode.range.end)}`}
+  </span>
+);
@@ -0,0 +1,93 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { DecodeMemoryEstimate, DecodeMode } from '@/types';
+import { AudioUtils } from '@/utils/audioUtils';
+import { channelLayoutName } from '@/utils/channelMixer';
+import { formatFileSize } from '@/utils/exportSize';
+
+interface DecodeModePickerProps {
+  estimate: DecodeMemoryEstimate | null; // closed when null
+  onSelect: (mode: DecodeMode | null) => void; // null cancels the import
+  keepsAllPages?: boolean; // the chunked decode is used as is, never cut down to an excerpt
+}
+
+/**
+ * Shows what decoding a long file would cost in memory and asks whether to
+ * decode it in one go or block by block
+ */
+export const DecodeModePicker = ({ estimate, onSelect, keepsAllPages = false }: DecodeModePickerProps) => {
+  if (!estimate) return null;
+
+  const exceedsBudget = estimate.fullDecodeBytes > estimate.budget;
+  const rows = [
+    { label: 'Taille du fichier', value: formatFileSize(estimate.fileBytes) },
+    { label: 'Audio décodé', value: formatFileSize(estimate.decodedBytes) },
+    { label: 'Pic du décodage complet', value: `~${formatFileSize(estimate.fullDecodeBytes)}` },
+    { label: 'Mémoire disponible', value: `~${formatFileSize(estimate.budget)}` },
+  ];
+
+  const options: Array<{ mode: DecodeMode; label: string; description: string; disabled?: boolean }> = [
+    {
+      mode: 'chunked',
+      label: 'Décoder par blocs',
+      description: !estimate.chunkedSupported
+        ? 'Ce navigateur ne sait pas décoder ce codec par blocs'
+        : keepsAllPages
+          ? "Le fichier est lu morceau par morceau et reste éditable en entier, sans être chargé d'un bloc"
+          : "Le fichier est lu morceau par morceau ; s'il ne tient pas en mémoire, vous choisirez l'extrait à charger",
+      disabled: !estimate.chunkedSupported,
+    },
+    {
+      mode: 'full',
+      label: 'Décoder en entier',
+      description: 'Le fichier complet est chargé en une fois',
+    },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={() => onSelect(null)}>
+      <div className="bg-neutral-900 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-md w-full shadow-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-semibold text-neutral-100 mb-2">Fichier long</h2>
+        <p className="text-sm text-neutral-400 mb-4">
+          {AudioUtils.formatTime(estimate.duration)} • {estimate.sampleRate} Hz • {channelLayoutName(estimate.numberOfChannels)}
+        </p>
+
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm mb-2">
+          {rows.map((row) => (
+            <div key={row.label} className="contents">
+              <dt className="text-neutral-400">{row.label}</dt>
+              <dd className="text-neutral-100 text-right">{row.value}</dd>
+            </div>
+          ))}
+        </dl>
+        {exceedsBudget && (
+          <div className="text-xs text-yellow-400 mb-2">
+            Le décodage complet risque d'épuiser la mémoire de l'onglet
+          </div>
+        )}
+
+        <div className="space-y-2 mt-4">
+          {options.map((option) => (
+            <button
+              key={option.mode}
+              onClick={() => onSelect(option.mode)}
+              disabled={option.disabled}
+              className="w-full text-left px-4 py-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 active:bg-neutral-600 transition-colors min-h-[48px] disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <div className="text-neutral-100 font-medium">{option.label}</div>
+              <div className="text-xs text-neutral-500">{option.description}</div>
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={() => onSelect(null)}
+          className="mt-4 w-full px-4 py-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-colors min-h-[48px]"
+        >
+          Annuler
+        </button>
+      </div>
+    </div>
+  );
+};
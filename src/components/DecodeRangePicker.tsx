@@ -0,0 +1,153 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { SampleRange } from '@/types';
+import { AudioUtils } from '@/utils/audioUtils';
+import type { PagedSampleStore } from '@/utils/pagedSampleStore';
+
+export interface DecodeRangeRequest {
+  store: PagedSampleStore;
+  maxFrames: number;
+}
+
+interface DecodeRangePickerProps {
+  request: DecodeRangeRequest | null; // closed when null
+  onSelect: (range: SampleRange | null) => void; // null cancels the import
+}
+
+const OVERVIEW_POINTS = 1000;
+const OVERVIEW_HEIGHT = 96;
+
+// Cleared number inputs give NaN, which inputs cannot display
+const numberValue = (value: number) => (Number.isNaN(value) ? '' : value);
+
+/**
+ * Asks which part of a recording too long to hold in memory to load, over
+ * an overview of the whole recording
+ */
+export const DecodeRangePicker = ({ request, onSelect }: DecodeRangePickerProps) => {
+  if (!request) return null;
+  // Keyed so each recording starts from its own beginning
+  return <DecodeRangeForm key={request.store.length} request={request} onSelect={onSelect} />;
+};
+
+const DecodeRangeForm = ({ request, onSelect }: { request: DecodeRangeRequest; onSelect: DecodeRangePickerProps['onSelect'] }) => {
+  const { store, maxFrames } = request;
+  const maxMinutes = maxFrames / store.sampleRate / 60;
+  const totalMinutes = store.duration / 60;
+  const [startMinutes, setStartMinutes] = useState(0);
+  const [lengthMinutes, setLengthMinutes] = useState(Math.floor(maxMinutes));
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const peaks = useMemo(() => store.getPeaks(OVERVIEW_POINTS), [store]);
+  const start = Math.round(startMinutes * 60 * store.sampleRate);
+  const end = Math.min(store.length, start + Math.round(lengthMinutes * 60 * store.sampleRate));
+  const isValid = start >= 0 && start < store.length && end > start && end - start <= maxFrames;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d', { alpha: false });
+    if (!canvas || !ctx) return;
+
+    const width = canvas.parentElement?.clientWidth ?? OVERVIEW_POINTS;
+    canvas.width = width;
+    canvas.height = OVERVIEW_HEIGHT;
+    ctx.fillStyle = '#141414';
+    ctx.fillRect(0, 0, width, OVERVIEW_HEIGHT);
+
+    if (isValid) {
+      ctx.fillStyle = '#2a2b4a';
+      ctx.fillRect((start / store.length) * width, 0, Math.max(1, ((end - start) / store.length) * width), OVERVIEW_HEIGHT);
+    }
+
+    const middle = OVERVIEW_HEIGHT / 2;
+    ctx.fillStyle = '#8286ef';
+    for (let x = 0; x < width; x++) {
+      const peak = peaks[Math.floor((x / width) * peaks.length)];
+      const barHeight = Math.max(1, peak * middle);
+      ctx.fillRect(x, middle - barHeight, 1, barHeight * 2);
+    }
+  }, [peaks, start, end, isValid, store.length]);
+
+  // A click on the overview moves the selection there, keeping its length
+  const handleOverviewClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const clicked = ((event.clientX - rect.left) / rect.width) * totalMinutes;
+    const length = Number.isNaN(lengthMinutes) ? 0 : lengthMinutes;
+    setStartMinutes(Math.max(0, Math.min(clicked, totalMinutes - length)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={() => onSelect(null)}>
+      <div className="bg-neutral-900 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-semibold text-neutral-100 mb-1">Choisir un extrait</h2>
+        <p className="text-sm text-neutral-400 mb-4">
+          L'enregistrement dure {AudioUtils.formatTime(store.duration)}, mais seules{' '}
+          {AudioUtils.formatTime(maxFrames / store.sampleRate)} tiennent en mémoire. Cliquez sur l'aperçu pour placer l'extrait.
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <div className="rounded-lg overflow-hidden border border-neutral-700">
+              <canvas
+                ref={canvasRef}
+                onClick={handleOverviewClick}
+                className="block w-full cursor-pointer"
+                style={{ height: OVERVIEW_HEIGHT }}
+              />
+            </div>
+            <div className="mt-1 text-xs text-neutral-500">
+              {isValid
+                ? `${AudioUtils.formatTime(start / store.sampleRate)} – ${AudioUtils.formatTime(end / store.sampleRate)}`
+                : 'Extrait invalide'}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm text-neutral-400 mb-2">Début (min)</label>
+              <input
+                type="number"
+                min={0}
+                max={totalMinutes}
+                step="any"
+                value={numberValue(startMinutes)}
+                onChange={(e) => setStartMinutes(e.target.valueAsNumber)}
+                className="w-full px-3 py-2 bg-neutral-950 rounded-lg text-neutral-100 border border-neutral-700 focus:border-primary-500 focus:outline-none text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-neutral-400 mb-2">Durée (min)</label>
+              <input
+                type="number"
+                min={0}
+                max={maxMinutes}
+                step="any"
+                value={numberValue(lengthMinutes)}
+                onChange={(e) => setLengthMinutes(e.target.valueAsNumber)}
+                className="w-full px-3 py-2 bg-neutral-950 rounded-lg text-neutral-100 border border-neutral-700 focus:border-primary-500 focus:outline-none text-sm"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6 grid grid-cols-2 gap-2">
+          <button
+            onClick={() => onSelect(null)}
+            className="px-4 py-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-colors min-h-[48px]"
+          >
+            Annuler
+          </button>
+          <button
+            onClick={() => onSelect({ start, end })}
+            disabled={!isValid}
+            className="px-4 py-3 rounded-lg bg-primary-500 hover:bg-primary-700 text-white font-medium transition-colors min-h-[48px] disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Charger l'extrait
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,40 +1,312 @@
 // Copyright (c) 2025 Jema Technology.
 // Distributed under the license specified in the root directory of this project.
 
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  AudioChapter,
+  AudioMetadata,
+  AudioProperties,
+  DitherType,
+  EncodeControl,
+  ExportOptions,
+  ExportPreset,
+  MetadataTextField,
+  Mp3ChannelMode,
+  SplitExportOptions
+} from '@/types';
+import { MP3_CBR_BITRATES } from '@/utils/mp3Encoder';
+import { DEFAULT_FLAC_COMPRESSION_LEVEL } from '@/utils/flacEncoder';
+import { estimateExportSize, findLargestFitting, formatFileSize } from '@/utils/exportSize';
+import { DEFAULT_SPLIT_PATTERN } from '@/utils/fileNamePattern';
+import { channelLayoutName } from '@/utils/channelMixer';
+import { MetadataFields } from './MetadataFields';
+import { ExportPresetPicker } from './ExportPresetPicker';
 
 interface ExportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onExport: (format: string, bitrate: number, customFileName?: string) => void;
+  // The modal stays open with a progress bar until the returned promise settles.
+  // split is set when the user asked for one file per segment.
+  onExport: (
+    options: ExportOptions,
+    customFileName: string | undefined,
+    control: EncodeControl,
+    split?: SplitExportOptions
+  ) => void | Promise<void>;
   fileName: string;
+  initialMetadata?: AudioMetadata; // tags read from the source file
+  audioProperties?: AudioProperties; // drives the size estimate
+  segmentCount?: number; // offers the split export when above 1
+  chapters?: AudioChapter[]; // segment boundaries, replace the source file's chapters
 }
 
-export const ExportModal = ({ isOpen, onClose, onExport, fileName }: ExportModalProps) => {
-  const [format, setFormat] = useState<'wav' | 'mp3' | 'flac'>('wav');
+// LAME -V presets with their typical average bitrate
+const VBR_PRESETS = [
+  { quality: 0, label: 'V0', averageBitrate: 245 },
+  { quality: 2, label: 'V2', averageBitrate: 190 },
+  { quality: 4, label: 'V4', averageBitrate: 165 },
+  { quality: 6, label: 'V6', averageBitrate: 130 },
+];
+
+const CHANNEL_MODES: Array<{ id: Mp3ChannelMode; label: string }> = [
+  { id: 'joint-stereo', label: 'Joint stéréo' },
+  { id: 'stereo', label: 'Stéréo' },
+  { id: 'mono', label: 'Mono' },
+];
+
+type ExportFormat = 'wav' | 'mp3' | 'flac' | 'm4a' | 'ogg' | 'opus' | 'webm';
+
+const FORMATS: Array<{ id: ExportFormat; label: string; description: string }> = [
+  { id: 'wav', label: 'WAV', description: 'Sans perte' },
+  { id: 'mp3', label: 'MP3', description: 'Compressé' },
+  { id: 'flac', label: 'FLAC', description: 'Lossless' },
+  { id: 'm4a', label: 'M4A', description: 'AAC' },
+  { id: 'ogg', label: 'OGG', description: 'Vorbis' },
+  { id: 'opus', label: 'OPUS', description: 'Opus (Ogg)' },
+  { id: 'webm', label: 'WEBM', description: 'Opus (WebM)' },
+];
+
+// Bitrates offered for each lossy format, with the default selection
+const LOSSY_BITRATES: Record<'mp3' | 'm4a' | 'ogg' | 'opus' | 'webm', { rates: readonly number[]; default: number }> = {
+  mp3: { rates: MP3_CBR_BITRATES, default: 320 },
+  m4a: { rates: [96, 128, 160, 192, 256, 320], default: 192 },
+  ogg: { rates: [96, 128, 160, 192, 256, 320], default: 192 },
+  opus: { rates: [64, 96, 128, 160, 192, 256], default: 128 },
+  webm: { rates: [64, 96, 128, 160, 192, 256], default: 128 },
+};
+
+const BIT_DEPTHS = {
+  wav: [16, 24, 32],
+  flac: [16, 24]
+} as const;
+
+// Output sample rates; undefined keeps the source rate
+const SAMPLE_RATES: Array<{ rate: number | undefined; label: string }> = [
+  { rate: undefined, label: 'Source' },
+  { rate: 16000, label: '16 kHz' },
+  { rate: 22050, label: '22,05 kHz' },
+  { rate: 44100, label: '44,1 kHz' },
+  { rate: 48000, label: '48 kHz' },
+  { rate: 96000, label: '96 kHz' },
+];
+
+// MPEG-1 Layer III stops at 48 kHz
+const MP3_MAX_SAMPLE_RATE = 48000;
+
+const CHANNEL_COUNTS: Array<{ count: 1 | 2 | undefined; label: string }> = [
+  { count: undefined, label: 'Source' },
+  { count: 1, label: 'Mono' },
+  { count: 2, label: 'Stéréo' },
+];
+
+// Integrated loudness targets; undefined leaves the level untouched
+const LOUDNESS_TARGETS: Array<{ lufs: number | undefined; label: string; hint?: string }> = [
+  { lufs: undefined, label: 'Aucune' },
+  { lufs: -23, label: '-23 LUFS', hint: 'EBU R128' },
+  { lufs: -16, label: '-16 LUFS', hint: 'Podcast' },
+  { lufs: -14, label: '-14 LUFS', hint: 'Streaming' },
+];
+
+// Tags a preset remembers; title and track number change with every file
+const TEMPLATE_FIELDS: MetadataTextField[] = ['artist', 'album', 'year', 'genre', 'comment'];
+
+// Common attachment and upload caps, in MB
+const TARGET_SIZE_PRESETS = [10, 25, 50];
+
+const DITHER_TYPES: Array<{ id: DitherType; label: string }> = [
+  { id: 'none', label: 'Aucun' },
+  { id: 'tpdf', label: 'TPDF' },
+  { id: 'noise-shaped', label: 'Mise en forme' },
+];
+
+export const ExportModal = ({
+  isOpen,
+  onClose,
+  onExport,
+  fileName,
+  initialMetadata,
+  audioProperties,
+  segmentCount = 1,
+  chapters
+}: ExportModalProps) => {
+  const [format, setFormat] = useState<ExportFormat>('wav');
   const [bitrate, setBitrate] = useState(320);
-  const [customFileName, setCustomFileName] = useState(fileName.replace(/\.[^/.]+$/, '') + '_exported');
+  const [bitrateMode, setBitrateMode] = useState<'cbr' | 'vbr'>('cbr');
+  const [vbrQuality, setVbrQuality] = useState(2);
+  const [channelMode, setChannelMode] = useState<Mp3ChannelMode>('joint-stereo');
+  const [bitDepth, setBitDepth] = useState<16 | 24 | 32>(16);
+  const [dither, setDither] = useState<DitherType>('tpdf');
+  const [compressionLevel, setCompressionLevel] = useState(DEFAULT_FLAC_COMPRESSION_LEVEL);
+  const baseName = fileName.replace(/\.[^/.]+$/, '');
+  const [customFileName, setCustomFileName] = useState(baseName + '_exported');
+  const [metadata, setMetadata] = useState<AudioMetadata>(initialMetadata ?? {});
+  const [showMetadata, setShowMetadata] = useState(false);
+  const [sampleRate, setSampleRate] = useState<number | undefined>(undefined);
+  const [channelCount, setChannelCount] = useState<1 | 2 | undefined>(undefined);
+  const [loudnessTarget, setLoudnessTarget] = useState<number | undefined>(undefined);
+  const [splitExport, setSplitExport] = useState(false);
+  const [splitPattern, setSplitPattern] = useState(DEFAULT_SPLIT_PATTERN);
+  const [fadeIn, setFadeIn] = useState(false);
+  const [fadeOut, setFadeOut] = useState(false);
+  const [fadeDuration, setFadeDuration] = useState(0.5);
+  const [includeChapters, setIncludeChapters] = useState(true);
+  const [cueSheet, setCueSheet] = useState(true);
+  const [targetSizeMode, setTargetSizeMode] = useState(false);
+  const [targetSizeMb, setTargetSizeMb] = useState(25);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Pre-fill the tags whenever a new source file is loaded
+  useEffect(() => {
+    setMetadata(initialMetadata ?? {});
+  }, [initialMetadata]);
+
+  const effectiveSampleRate = format === 'mp3' && sampleRate && sampleRate > MP3_MAX_SAMPLE_RATE
+    ? MP3_MAX_SAMPLE_RATE
+    : sampleRate;
+
+  // Size of what will be written, after resampling and remixing
+  const outputProperties = useMemo<AudioProperties | undefined>(() => audioProperties && {
+    duration: audioProperties.duration,
+    numberOfChannels: channelCount ?? audioProperties.numberOfChannels,
+    sampleRate: effectiveSampleRate ?? audioProperties.sampleRate,
+  }, [audioProperties, channelCount, effectiveSampleRate]);
+
+  // In target size mode, pick the best quality that stays under the limit.
+  // MP3 switches to CBR since VBR sizes cannot be predicted.
+  useEffect(() => {
+    if (!targetSizeMode || !outputProperties || !(targetSizeMb > 0)) return;
+    const maxBytes = targetSizeMb * 1024 * 1024;
+
+    if (format === 'wav' || format === 'flac') {
+      const depth = findLargestFitting(BIT_DEPTHS[format], maxBytes, bitDepth =>
+        estimateExportSize({ format, bitrate: 0, bitDepth, compressionLevel, metadata }, outputProperties));
+      if (depth !== null) setBitDepth(depth);
+      return;
+    }
+
+    if (format === 'mp3') setBitrateMode('cbr');
+    const rate = findLargestFitting(LOSSY_BITRATES[format].rates, maxBytes, bitrate =>
+      estimateExportSize({ format, bitrate, metadata }, outputProperties));
+    if (rate !== null) setBitrate(rate);
+  }, [targetSizeMode, targetSizeMb, format, compressionLevel, metadata, outputProperties]);
 
   if (!isOpen) return null;
 
-  const handleExport = () => {
-    onExport(format, bitrate, customFileName);
-    onClose();
+  const isLossless = format === 'wav' || format === 'flac';
+
+  const selectFormat = (nextFormat: ExportFormat) => {
+    setFormat(nextFormat);
+    if (nextFormat !== 'wav' && nextFormat !== 'flac' && !LOSSY_BITRATES[nextFormat].rates.includes(bitrate)) {
+      setBitrate(LOSSY_BITRATES[nextFormat].default);
+    }
   };
 
-  const bitrateOptions = {
-    mp3: [128, 192, 256, 320],
-    wav: [1411], // CD quality
-    flac: [1411]
+  const averageBitrate = format === 'mp3' && bitrateMode === 'vbr'
+    ? VBR_PRESETS.find(preset => preset.quality === vbrQuality)?.averageBitrate ?? bitrate
+    : bitrate;
+
+  // FLAC has no float samples
+  const effectiveBitDepth = format === 'flac' && bitDepth === 32 ? 24 : bitDepth;
+
+  const estimatedSize = outputProperties
+    ? estimateExportSize({ format, bitrate: averageBitrate, bitDepth: effectiveBitDepth, compressionLevel, metadata }, outputProperties)
+    : null;
+  const exceedsTarget = targetSizeMode && estimatedSize !== null && estimatedSize > targetSizeMb * 1024 * 1024;
+
+  const isSplit = splitExport && segmentCount > 1;
+  const exportChapters = chapters ?? metadata.chapters ?? [];
+  const hasChapters = exportChapters.length > 1 && !isSplit;
+  const supportsCueSheet = format === 'wav' || format === 'flac';
+
+  const encodeOptions = (): ExportPreset['options'] => ({
+    format,
+    quality: isLossless || averageBitrate >= 256 ? 'high' : averageBitrate >= 192 ? 'medium' : 'low',
+    bitrate,
+    bitrateMode,
+    vbrQuality,
+    channelMode,
+    bitDepth: effectiveBitDepth,
+    dither,
+    compressionLevel,
+    sampleRate: effectiveSampleRate,
+    channelCount,
+    loudnessTarget
+  });
+
+  const presetSettings = (): Omit<ExportPreset, 'id' | 'name'> => ({
+    options: encodeOptions(),
+    fileNameSuffix: customFileName.startsWith(baseName) ? customFileName.slice(baseName.length) : '',
+    metadataTemplate: Object.fromEntries(TEMPLATE_FIELDS
+      .filter(field => metadata[field]?.trim())
+      .map(field => [field, metadata[field]]))
+  });
+
+  const applyPreset = (preset: ExportPreset) => {
+    const options = preset.options;
+    const nextFormat = FORMATS.some(option => option.id === options.format) ? options.format as ExportFormat : 'wav';
+    setFormat(nextFormat);
+    if (nextFormat !== 'wav' && nextFormat !== 'flac') {
+      setBitrate(options.bitrate ?? LOSSY_BITRATES[nextFormat].default);
+    }
+    setBitrateMode(options.bitrateMode ?? 'cbr');
+    setVbrQuality(options.vbrQuality ?? 2);
+    setChannelMode(options.channelMode ?? 'joint-stereo');
+    setBitDepth(options.bitDepth ?? 16);
+    setDither(options.dither ?? 'tpdf');
+    setCompressionLevel(options.compressionLevel ?? DEFAULT_FLAC_COMPRESSION_LEVEL);
+    setSampleRate(options.sampleRate);
+    setChannelCount(options.channelCount);
+    setLoudnessTarget(options.loudnessTarget);
+    setCustomFileName(baseName + preset.fileNameSuffix);
+    setMetadata(current => ({ ...current, ...preset.metadataTemplate }));
+    // The preset's bitrate wins over the size target
+    setTargetSizeMode(false);
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setExportProgress(0);
+
+    await onExport({
+      ...encodeOptions(),
+      cueSheet: hasChapters && includeChapters && supportsCueSheet && cueSheet,
+      metadata: { ...metadata, chapters: hasChapters && includeChapters ? exportChapters : undefined }
+    }, customFileName, { onProgress: setExportProgress, signal: controller.signal }, isSplit ? {
+      namePattern: splitPattern || DEFAULT_SPLIT_PATTERN,
+      fadeIn,
+      fadeOut,
+      fadeDuration
+    } : undefined);
+
+    if (abortControllerRef.current === controller) {
+      abortControllerRef.current = null;
+      setExportProgress(null);
+      if (!controller.signal.aborted) {
+        onClose();
+      }
+    }
+  };
+
+  const cancelExport = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setExportProgress(null);
+  };
+
+  const handleClose = () => {
+    cancelExport();
+    onClose();
   };
 
   return (
-    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={onClose}>
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={handleClose}>
       <div className="bg-neutral-900 rounded-xl sm:rounded-2xl p-4 sm:p-6 md:p-8 max-w-md w-full shadow-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
         <div className="flex justify-between items-center mb-4 sm:mb-5 md:mb-6">
           <h2 className="text-xl sm:text-2xl font-semibold text-neutral-100">Exporter l'audio</h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="w-10 h-10 sm:w-9 sm:h-9 md:w-8 md:h-8 rounded-full bg-neutral-800 hover:bg-neutral-700 active:bg-neutral-600 flex items-center justify-center transition-colors min-h-[44px] min-w-[44px] sm:min-h-[36px] sm:min-w-[36px]"
           >
             <svg width="18" height="18" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2" className="sm:w-4 sm:h-4">
@@ -44,6 +316,8 @@ export const ExportModal = ({ isOpen, onClose, onExport, fileName }: ExportModal
         </div>
 
         <div className="space-y-4 sm:space-y-5 md:space-y-6">
+          <ExportPresetPicker getSettings={presetSettings} onApply={applyPreset} />
+
           {/* File name input - Touch-friendly */}
           <div>
             <label className="block text-xs sm:text-sm text-neutral-400 mb-2">Nom du fichier</label>
@@ -56,96 +330,434 @@ export const ExportModal = ({ isOpen, onClose, onExport, fileName }: ExportModal
                 placeholder="Nom du fichier"
               />
               <div className="px-3 py-3 bg-neutral-950 rounded-lg text-neutral-400 border border-neutral-700 text-sm sm:text-base min-h-[48px] flex items-center">
-                .{format}
+                .{isSplit ? 'zip' : format}
               </div>
             </div>
           </div>
 
+          {/* One file per segment */}
+          {segmentCount > 1 && (
+            <div className="bg-neutral-950 rounded-lg p-4 border border-neutral-700 space-y-3">
+              <label className="flex items-center gap-2 text-sm text-neutral-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={splitExport}
+                  onChange={(e) => setSplitExport(e.target.checked)}
+                  className="accent-primary-500"
+                />
+                Un fichier par segment ({segmentCount} fichiers dans un ZIP)
+              </label>
+              {splitExport && (
+                <>
+                  <div>
+                    <label className="block text-xs text-neutral-400 mb-1">Nom des fichiers</label>
+                    <input
+                      type="text"
+                      value={splitPattern}
+                      onChange={(e) => setSplitPattern(e.target.value)}
+                      placeholder={DEFAULT_SPLIT_PATTERN}
+                      className="w-full px-3 py-2 bg-neutral-900 rounded-lg text-neutral-100 border border-neutral-700 focus:border-primary-500 focus:outline-none text-sm font-mono"
+                    />
+                    <p className="text-xs text-neutral-500 mt-1">{'{name}'}, {'{index}'}, {'{start}'}, {'{end}'}</p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-neutral-400">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="checkbox" checked={fadeIn} onChange={(e) => setFadeIn(e.target.checked)} className="accent-primary-500" />
+                      Fondu d'entrée
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="checkbox" checked={fadeOut} onChange={(e) => setFadeOut(e.target.checked)} className="accent-primary-500" />
+                      Fondu de sortie
+                    </label>
+                    {(fadeIn || fadeOut) && (
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min="0.01"
+                          step="0.1"
+                          value={fadeDuration}
+                          onChange={(e) => setFadeDuration(Math.max(0.01, Number(e.target.value)))}
+                          className="w-20 px-2 py-1 bg-neutral-900 rounded-lg text-neutral-100 border border-neutral-700 focus:border-primary-500 focus:outline-none text-sm"
+                        />
+                        s
+                      </label>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Format selection - Touch-friendly */}
           <div>
             <label className="block text-xs sm:text-sm text-neutral-400 mb-2 sm:mb-3">Format audio</label>
             <div className="grid grid-cols-3 gap-2 sm:gap-3">
-              <button
-                onClick={() => setFormat('wav')}
-                className={`px-3 sm:px-4 py-3 rounded-lg font-medium transition-all min-h-[56px] active:scale-95 ${
-                  format === 'wav'
-                    ? 'bg-primary-500 text-white shadow-lg'
-                    : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700 active:bg-neutral-600'
-                }`}
-              >
-                <div className="text-base sm:text-lg font-bold">WAV</div>
-                <div className="text-xs opacity-80">Sans perte</div>
-              </button>
-              <button
-                onClick={() => setFormat('mp3')}
-                className={`px-3 sm:px-4 py-3 rounded-lg font-medium transition-all min-h-[56px] active:scale-95 ${
-                  format === 'mp3'
-                    ? 'bg-primary-500 text-white shadow-lg'
-                    : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700 active:bg-neutral-600'
-                }`}
-              >
-                <div className="text-base sm:text-lg font-bold">MP3</div>
-                <div className="text-xs opacity-80">Compressé</div>
-              </button>
-              <button
-                onClick={() => setFormat('flac')}
-                className={`px-3 sm:px-4 py-3 rounded-lg font-medium transition-all min-h-[56px] active:scale-95 ${
-                  format === 'flac'
-                    ? 'bg-primary-500 text-white shadow-lg'
-                    : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700 active:bg-neutral-600'
-                }`}
-              >
-                <div className="text-base sm:text-lg font-bold">FLAC</div>
-                <div className="text-xs opacity-80">Lossless</div>
-              </button>
+              {FORMATS.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => selectFormat(option.id)}
+                  className={`px-3 sm:px-4 py-3 rounded-lg font-medium transition-all min-h-[56px] active:scale-95 ${
+                    format === option.id
+                      ? 'bg-primary-500 text-white shadow-lg'
+                      : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700 active:bg-neutral-600'
+                  }`}
+                >
+                  <div className="text-base sm:text-lg font-bold">{option.label}</div>
+                  <div className="text-xs opacity-80">{option.description}</div>
+                </button>
+              ))}
             </div>
           </div>
 
+          {/* MP3 encoding mode */}
+          {format === 'mp3' && (
+            <div>
+              <label className="block text-sm text-neutral-400 mb-3">Mode d'encodage</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(['cbr', 'vbr'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setBitrateMode(mode)}
+                    className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                      bitrateMode === mode
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
+                    }`}
+                  >
+                    {mode === 'cbr' ? 'Constant (CBR)' : 'Variable (VBR)'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Bitrate selection */}
           <div>
             <label className="block text-sm text-neutral-400 mb-3">
-              Qualité {format === 'mp3' ? '(Bitrate)' : ''}
+              Qualité {isLossless ? '(Résolution)' : format === 'mp3' && bitrateMode === 'vbr' ? '(VBR)' : '(Bitrate)'}
             </label>
+            {isLossless ? (
+              <div className={`grid gap-2 ${format === 'wav' ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                {BIT_DEPTHS[format].map((depth) => (
+                  <button
+                    key={depth}
+                    onClick={() => setBitDepth(depth)}
+                    className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                      effectiveBitDepth === depth
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
+                    }`}
+                  >
+                    {depth === 32 ? '32 float' : `${depth} bits`}
+                    {depth === 16 && <span className="text-xs ml-1">(CD)</span>}
+                  </button>
+                ))}
+              </div>
+            ) : format === 'mp3' && bitrateMode === 'vbr' ? (
+              <div className="grid grid-cols-2 gap-2">
+                {VBR_PRESETS.map((preset) => (
+                  <button
+                    key={preset.quality}
+                    onClick={() => setVbrQuality(preset.quality)}
+                    className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                      vbrQuality === preset.quality
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
+                    }`}
+                  >
+                    {preset.label}
+                    <span className="text-xs ml-1">(~{preset.averageBitrate} kbps)</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {LOSSY_BITRATES[format].rates.map((rate) => (
+                  <button
+                    key={rate}
+                    onClick={() => setBitrate(rate)}
+                    className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                      bitrate === rate
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
+                    }`}
+                  >
+                    {rate} kbps
+                    {rate === Math.max(...LOSSY_BITRATES[format].rates) && <span className="text-xs ml-1">(Max)</span>}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Dither when reducing to 16 bits */}
+          {isLossless && effectiveBitDepth === 16 && (
+            <div>
+              <label className="block text-sm text-neutral-400 mb-3">Dithering</label>
+              <div className="grid grid-cols-3 gap-2">
+                {DITHER_TYPES.map((type) => (
+                  <button
+                    key={type.id}
+                    onClick={() => setDither(type.id)}
+                    className={`px-3 py-2 rounded-lg font-medium transition-all text-sm ${
+                      dither === type.id
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
+                    }`}
+                  >
+                    {type.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* FLAC compression level */}
+          {format === 'flac' && (
+            <div>
+              <div className="flex justify-between items-center mb-3">
+                <label className="text-sm text-neutral-400">Niveau de compression</label>
+                <span className="text-sm text-neutral-100 font-medium">{compressionLevel}</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="8"
+                step="1"
+                value={compressionLevel}
+                onChange={(e) => setCompressionLevel(Number(e.target.value))}
+                className="w-full h-1 bg-neutral-700 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-primary-500"
+              />
+              <div className="flex justify-between text-xs text-neutral-500 mt-1">
+                <span>Rapide</span>
+                <span>Plus petit</span>
+              </div>
+            </div>
+          )}
+
+          {/* Sample rate conversion */}
+          <div>
+            <label className="block text-sm text-neutral-400 mb-3">Fréquence d'échantillonnage</label>
+            <div className="grid grid-cols-3 gap-2">
+              {SAMPLE_RATES.map((option) => {
+                const unsupported = format === 'mp3' && !!option.rate && option.rate > MP3_MAX_SAMPLE_RATE;
+                return (
+                  <button
+                    key={option.label}
+                    onClick={() => setSampleRate(option.rate)}
+                    disabled={unsupported}
+                    className={`px-3 py-2 rounded-lg font-medium transition-all text-sm disabled:opacity-40 disabled:cursor-not-allowed ${
+                      effectiveSampleRate === option.rate
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Channel layout */}
+          <div>
+            <label className="block text-sm text-neutral-400 mb-3">Canaux</label>
+            <div className="grid grid-cols-3 gap-2">
+              {CHANNEL_COUNTS.map((option) => (
+                <button
+                  key={option.label}
+                  onClick={() => setChannelCount(option.count)}
+                  className={`px-3 py-2 rounded-lg font-medium transition-all text-sm ${
+                    channelCount === option.count
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
+                  }`}
+                >
+                  {option.count === undefined && audioProperties
+                    ? `${option.label} (${channelLayoutName(audioProperties.numberOfChannels)})`
+                    : option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Loudness normalization */}
+          <div>
+            <label className="block text-sm text-neutral-400 mb-3">Normalisation du volume</label>
             <div className="grid grid-cols-2 gap-2">
-              {bitrateOptions[format].map((rate) => (
+              {LOUDNESS_TARGETS.map((option) => (
                 <button
-                  key={rate}
-                  onClick={() => setBitrate(rate)}
-                  className={`px-4 py-2 rounded-lg font-medium transition-all ${
-                    bitrate === rate
+                  key={option.label}
+                  onClick={() => setLoudnessTarget(option.lufs)}
+                  className={`px-3 py-2 rounded-lg font-medium transition-all text-sm ${
+                    loudnessTarget === option.lufs
                       ? 'bg-primary-500 text-white'
                       : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
                   }`}
                 >
-                  {rate} kbps
-                  {rate === 320 && format === 'mp3' && <span className="text-xs ml-1">(Max)</span>}
-                  {rate === 1411 && <span className="text-xs ml-1">(CD)</span>}
+                  {option.label}
+                  {option.hint && <span className="text-xs ml-1 opacity-80">({option.hint})</span>}
                 </button>
               ))}
             </div>
           </div>
 
-          {/* File size estimate */}
-          <div className="bg-neutral-950 rounded-lg p-4 border border-neutral-700">
+          {/* MP3 stereo mode */}
+          {format === 'mp3' && channelCount !== 1 && (
+            <div>
+              <label className="block text-sm text-neutral-400 mb-3">Mode stéréo</label>
+              <div className="grid grid-cols-3 gap-2">
+                {CHANNEL_MODES.map((mode) => (
+                  <button
+                    key={mode.id}
+                    onClick={() => setChannelMode(mode.id)}
+                    className={`px-3 py-2 rounded-lg font-medium transition-all text-sm ${
+                      channelMode === mode.id
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
+                    }`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Chapters */}
+          {hasChapters && (
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm text-neutral-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeChapters}
+                  onChange={(e) => setIncludeChapters(e.target.checked)}
+                  className="accent-primary-500"
+                />
+                Inclure les chapitres ({exportChapters.length})
+              </label>
+              {includeChapters && supportsCueSheet && (
+                <label className="flex items-center gap-2 text-sm text-neutral-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={cueSheet}
+                    onChange={(e) => setCueSheet(e.target.checked)}
+                    className="accent-primary-500"
+                  />
+                  Enregistrer aussi une feuille .cue
+                </label>
+              )}
+            </div>
+          )}
+
+          {/* Tags */}
+          <div>
+            <button
+              onClick={() => setShowMetadata(!showMetadata)}
+              className="w-full flex justify-between items-center text-sm text-neutral-400 hover:text-neutral-200 transition-colors"
+            >
+              <span>Métadonnées</span>
+              <svg width="14" height="14" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2" className={`transition-transform ${showMetadata ? 'rotate-180' : ''}`}>
+                <path d="M4 6l4 4 4-4" strokeLinecap="round" strokeLinejoin="round"/>
+              </svg>
+            </button>
+            {showMetadata && (
+              <div className="mt-3">
+                <MetadataFields metadata={metadata} onChange={setMetadata} />
+              </div>
+            )}
+          </div>
+
+          {/* File size estimate and target size */}
+          <div className="bg-neutral-950 rounded-lg p-4 border border-neutral-700 space-y-3">
             <div className="flex justify-between items-center text-sm">
               <span className="text-neutral-400">Taille estimée :</span>
-              <span className="text-neutral-100 font-medium">
-                {format === 'wav' || format === 'flac' ? '~10-50 MB' : `~${Math.round(bitrate / 10)} MB`}
+              <span className={`font-medium ${exceedsTarget ? 'text-red-400' : 'text-neutral-100'}`}>
+                {estimatedSize !== null ? `~${formatFileSize(estimatedSize)}` : '—'}
               </span>
             </div>
+            {audioProperties && (
+              <>
+                <label className="flex items-center gap-2 text-sm text-neutral-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={targetSizeMode}
+                    onChange={(e) => setTargetSizeMode(e.target.checked)}
+                    className="accent-primary-500"
+                  />
+                  Viser une taille maximale
+                </label>
+                {targetSizeMode && (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min="0.1"
+                        step="0.1"
+                        value={targetSizeMb}
+                        onChange={(e) => setTargetSizeMb(Number(e.target.value))}
+                        className="w-24 px-3 py-2 bg-neutral-900 rounded-lg text-neutral-100 border border-neutral-700 focus:border-primary-500 focus:outline-none text-sm"
+                      />
+                      <span className="text-sm text-neutral-400">MB</span>
+                      <div className="flex gap-1 ml-auto">
+                        {TARGET_SIZE_PRESETS.map((size) => (
+                          <button
+                            key={size}
+                            onClick={() => setTargetSizeMb(size)}
+                            className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                              targetSizeMb === size
+                                ? 'bg-primary-500 text-white'
+                                : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
+                            }`}
+                          >
+                            {size} MB
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {exceedsTarget && (
+                      <p className="text-xs text-red-400">
+                        L'estimation dépasse {targetSizeMb} MB : choisissez un débit plus bas ou un format compressé.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
           </div>
 
           {/* Export button - Touch-friendly */}
-          <button
-            onClick={handleExport}
-            className="w-full px-4 sm:px-6 py-3 sm:py-4 bg-[#8286ef] hover:bg-[#6b6fdb] active:bg-[#5a5ec7] text-white rounded-lg sm:rounded-xl font-medium transition-colors flex items-center justify-center gap-2 sm:gap-3 shadow-lg text-sm sm:text-base min-h-[52px]"
-          >
-            <svg width="18" height="18" viewBox="0 0 20 20" fill="none" stroke="currentColor" strokeWidth="2.5" className="sm:w-5 sm:h-5">
-              <path d="M10 3v11M10 14l-4-4M10 14l4-4" strokeLinecap="round" strokeLinejoin="round"/>
-              <path d="M4 17h12" strokeLinecap="round"/>
-            </svg>
-            <span>Exporter en {format.toUpperCase()}</span>
-          </button>
+          {exportProgress !== null ? (
+            <div className="space-y-3">
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-neutral-400">Encodage en cours...</span>
+                <span className="text-neutral-100 font-medium">{Math.round(exportProgress * 100)}%</span>
+              </div>
+              <div className="w-full h-2 bg-neutral-800 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary-500 transition-all duration-200"
+                  style={{ width: `${exportProgress * 100}%` }}
+                />
+              </div>
+              <button
+                onClick={cancelExport}
+                className="w-full px-4 py-3 rounded-lg bg-neutral-800 text-neutral-300 hover:bg-neutral-700 active:bg-neutral-600 font-medium transition-colors min-h-[48px]"
+              >
+                Annuler
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={handleExport}
+              className="w-full px-4 sm:px-6 py-3 sm:py-4 bg-[#8286ef] hover:bg-[#6b6fdb] active:bg-[#5a5ec7] text-white rounded-lg sm:rounded-xl font-medium transition-colors flex items-center justify-center gap-2 sm:gap-3 shadow-lg text-sm sm:text-base min-h-[52px]"
+            >
+              <svg width="18" height="18" viewBox="0 0 20 20" fill="none" stroke="currentColor" strokeWidth="2.5" className="sm:w-5 sm:h-5">
+                <path d="M10 3v11M10 14l-4-4M10 14l4-4" strokeLinecap="round" strokeLinejoin="round"/>
+                <path d="M4 17h12" strokeLinecap="round"/>
+              </svg>
+              <span>{isSplit ? `Exporter ${segmentCount} fichiers ${format.toUpperCase()}` : `Exporter en ${format.toUpperCase()}`}</span>
+            </button>
+          )}
         </div>
       </div>
     </div>
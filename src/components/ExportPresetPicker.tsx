@@ -0,0 +1,130 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { useEffect, useState } from 'react';
+import { ExportPreset } from '@/types';
+import { deleteExportPreset, listExportPresets, saveExportPreset } from '@/utils/presetStore';
+
+type PresetSettings = Omit<ExportPreset, 'id' | 'name'>;
+
+interface ExportPresetPickerProps {
+  // Current dialog settings, captured when a preset is saved
+  getSettings: () => PresetSettings;
+  onApply: (preset: ExportPreset) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-neutral-950 rounded-lg text-neutral-100 border border-neutral-700 focus:border-primary-500 focus:outline-none transition-colors text-sm';
+const buttonClassName = 'px-3 py-2 rounded-lg bg-neutral-800 text-neutral-300 hover:bg-neutral-700 text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+export const ExportPresetPicker = ({ getSettings, onApply }: ExportPresetPickerProps) => {
+  const [presets, setPresets] = useState<ExportPreset[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  // Name being typed, and whether it creates a preset or updates the selected one
+  const [editing, setEditing] = useState<{ mode: 'create' | 'update'; name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setPresets(await listExportPresets());
+      setError(null);
+    } catch (err) {
+      console.error('Error loading presets:', err);
+      setError('Préréglages indisponibles (stockage du navigateur bloqué)');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const selected = presets.find(preset => preset.id === selectedId);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setEditing(null);
+    const preset = presets.find(p => p.id === id);
+    if (preset) onApply(preset);
+  };
+
+  const handleSave = async () => {
+    if (!editing || !editing.name.trim()) return;
+    const preset: ExportPreset = {
+      id: editing.mode === 'update' && selected ? selected.id : crypto.randomUUID(),
+      name: editing.name.trim(),
+      ...getSettings()
+    };
+
+    try {
+      await saveExportPreset(preset);
+      setSelectedId(preset.id);
+      setEditing(null);
+      await refresh();
+    } catch (err) {
+      console.error('Error saving preset:', err);
+      setError("Impossible d'enregistrer le préréglage");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Supprimer le préréglage « ${selected.name} » ?`)) return;
+    try {
+      await deleteExportPreset(selected.id);
+      setSelectedId('');
+      await refresh();
+    } catch (err) {
+      console.error('Error deleting preset:', err);
+      setError('Impossible de supprimer le préréglage');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-xs sm:text-sm text-neutral-400">Préréglage</label>
+      <select
+        value={selectedId}
+        onChange={(e) => handleSelect(e.target.value)}
+        className={inputClassName}
+      >
+        <option value="">Réglages personnalisés</option>
+        {presets.map((preset) => (
+          <option key={preset.id} value={preset.id}>{preset.name}</option>
+        ))}
+      </select>
+
+      {editing ? (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={editing.name}
+            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="Nom du préréglage"
+            autoFocus
+            className={inputClassName}
+          />
+          <button onClick={handleSave} disabled={!editing.name.trim()} className={buttonClassName}>OK</button>
+          <button onClick={() => setEditing(null)} className={buttonClassName}>Annuler</button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button onClick={() => setEditing({ mode: 'create', name: '' })} className={buttonClassName}>
+            Nouveau
+          </button>
+          <button
+            onClick={() => selected && setEditing({ mode: 'update', name: selected.name })}
+            disabled={!selected}
+            className={buttonClassName}
+            title="Enregistrer les réglages actuels dans ce préréglage"
+          >
+            Modifier
+          </button>
+          <button onClick={handleDelete} disabled={!selected} className={buttonClassName}>
+            Supprimer
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
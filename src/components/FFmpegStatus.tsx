@@ -0,0 +1,41 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { useFFmpegLoadState } from '@/hooks/useFFmpegLoadState';
+import { ffmpegService } from '@/utils/ffmpegService';
+
+/**
+ * Floating notice while the FFmpeg core starts, with a retry when it fails.
+ * Hidden until something first needs FFmpeg.
+ */
+export const FFmpegStatus = () => {
+  const { status, error } = useFFmpegLoadState();
+
+  if (status !== 'loading' && status !== 'error') return null;
+
+  const handleRetry = () => {
+    ffmpegService.load().catch((err) => console.error('FFmpeg retry failed:', err));
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm bg-neutral-900 border border-neutral-700 rounded-lg p-3 shadow-lg">
+      {status === 'loading' ? (
+        <div className="flex items-center gap-3">
+          <div className="spinner w-4 h-4 flex-shrink-0"></div>
+          <p className="text-sm text-neutral-100">Chargement du moteur de conversion...</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-red-400">Le moteur de conversion n'a pas pu démarrer.</p>
+          {error && <p className="text-xs text-neutral-500 break-words">{error}</p>}
+          <button
+            onClick={handleRetry}
+            className="w-full px-3 py-2 bg-primary-500 hover:bg-primary-600 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Réessayer
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
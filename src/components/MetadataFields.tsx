@@ -0,0 +1,106 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { useEffect, useMemo } from 'react';
+import { AudioMetadata, MetadataTextField } from '@/types';
+
+interface MetadataFieldsProps {
+  metadata: AudioMetadata;
+  onChange: (metadata: AudioMetadata) => void;
+}
+
+const FIELDS: Array<{ id: MetadataTextField; label: string; placeholder?: string; wide?: boolean }> = [
+  { id: 'title', label: 'Titre', wide: true },
+  { id: 'artist', label: 'Artiste' },
+  { id: 'album', label: 'Album' },
+  { id: 'trackNumber', label: 'N° de piste', placeholder: '1/12' },
+  { id: 'year', label: 'Année', placeholder: '2025' },
+  { id: 'genre', label: 'Genre', wide: true },
+];
+
+const inputClassName = 'w-full px-3 py-2 bg-neutral-950 rounded-lg text-neutral-100 border border-neutral-700 focus:border-primary-500 focus:outline-none transition-colors text-sm';
+
+export const MetadataFields = ({ metadata, onChange }: MetadataFieldsProps) => {
+  const coverUrl = useMemo(() => {
+    if (!metadata.coverArt) return null;
+    return URL.createObjectURL(new Blob([metadata.coverArt.data.slice()], { type: metadata.coverArt.mimeType }));
+  }, [metadata.coverArt]);
+
+  useEffect(() => {
+    return () => {
+      if (coverUrl) URL.revokeObjectURL(coverUrl);
+    };
+  }, [coverUrl]);
+
+  const setField = (field: MetadataTextField, value: string) => {
+    onChange({ ...metadata, [field]: value });
+  };
+
+  const handleCoverChange = async (file: File | undefined) => {
+    if (!file) return;
+    const data = new Uint8Array(await file.arrayBuffer());
+    onChange({ ...metadata, coverArt: { data, mimeType: file.type || 'image/jpeg' } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {FIELDS.map((field) => (
+          <div key={field.id} className={field.wide ? 'col-span-2' : ''}>
+            <label className="block text-xs text-neutral-400 mb-1">{field.label}</label>
+            <input
+              type="text"
+              value={metadata[field.id] ?? ''}
+              placeholder={field.placeholder}
+              onChange={(e) => setField(field.id, e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+        <div className="col-span-2">
+          <label className="block text-xs text-neutral-400 mb-1">Commentaire</label>
+          <textarea
+            value={metadata.comment ?? ''}
+            onChange={(e) => setField('comment', e.target.value)}
+            rows={2}
+            className={`${inputClassName} resize-none`}
+          />
+        </div>
+      </div>
+
+      {/* Cover art */}
+      <div className="flex items-center gap-3">
+        <div className="w-16 h-16 rounded-lg bg-neutral-950 border border-neutral-700 flex items-center justify-center overflow-hidden flex-shrink-0">
+          {coverUrl ? (
+            <img src={coverUrl} alt="Pochette" className="w-full h-full object-cover" />
+          ) : (
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" className="text-neutral-600">
+              <rect x="3" y="3" width="18" height="18" rx="2" />
+              <circle cx="9" cy="9" r="2" />
+              <path d="M21 15l-5-5L5 21" strokeLinecap="round" strokeLinejoin="round" />
+            </svg>
+          )}
+        </div>
+        <div className="flex flex-col gap-2">
+          <label className="px-3 py-2 rounded-lg bg-neutral-800 text-neutral-300 hover:bg-neutral-700 text-sm font-medium cursor-pointer transition-colors">
+            {metadata.coverArt ? 'Changer la pochette' : 'Ajouter une pochette'}
+            <input
+              type="file"
+              accept="image/jpeg,image/png"
+              className="hidden"
+              onChange={(e) => handleCoverChange(e.target.files?.[0])}
+            />
+          </label>
+          {metadata.coverArt && (
+            <button
+              onClick={() => onChange({ ...metadata, coverArt: undefined })}
+              className="text-xs text-neutral-500 hover:text-neutral-300 text-left transition-colors"
+            >
+              Retirer
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { RawPcmSettings } from '@/types';
+import { AudioUtils } from '@/utils/audioUtils';
+import {
+  MAX_CHANNELS,
+  MAX_SAMPLE_RATE,
+  MIN_SAMPLE_RATE,
+  RAW_SAMPLE_FORMATS,
+  bytesPerSample,
+  isValidRawPcmSettings,
+  rawFrameCount,
+  rawPcmPeaks
+} from '@/utils/rawPcmDecoder';
+
+export interface RawPcmImportRequest {
+  fileName: string;
+  data: Uint8Array;
+  initialSettings: RawPcmSettings;
+}
+
+interface RawPcmImportDialogProps {
+  request: RawPcmImportRequest | null; // closed when null
+  onSelect: (settings: RawPcmSettings | null) => void; // null cancels the import
+}
+
+const COMMON_SAMPLE_RATES = [8000, 11025, 16000, 22050, 32000, 44100, 48000, 88200, 96000];
+
+const PREVIEW_POINTS = 500;
+const PREVIEW_HEIGHT = 96;
+
+// Cleared number inputs give NaN, which inputs cannot display
+const numberValue = (value: number) => (Number.isNaN(value) ? '' : value);
+
+/**
+ * Asks how to read a file that has no header, with a waveform preview that
+ * follows the settings
+ */
+export const RawPcmImportDialog = ({ request, onSelect }: RawPcmImportDialogProps) => {
+  if (!request) return null;
+  // Keyed so each file starts from its own initial settings
+  return <RawPcmImportForm key={request.fileName} request={request} onSelect={onSelect} />;
+};
+
+const RawPcmImportForm = ({ request, onSelect }: { request: RawPcmImportRequest; onSelect: RawPcmImportDialogProps['onSelect'] }) => {
+  const [settings, setSettings] = useState<RawPcmSettings>(request.initialSettings);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const isValid = isValidRawPcmSettings(settings);
+  const frames = isValid ? rawFrameCount(request.data.length, settings) : 0;
+  const frameSize = bytesPerSample(settings.format) * settings.channels;
+  const trailingBytes = isValid && frames > 0 ? (request.data.length - settings.byteOffset) % frameSize : 0;
+
+  const peaks = useMemo(
+    () => (isValid ? rawPcmPeaks(request.data, settings, PREVIEW_POINTS) : null),
+    [request.data, settings, isValid]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d', { alpha: false });
+    if (!canvas || !ctx) return;
+
+    const width = canvas.parentElement?.clientWidth ?? PREVIEW_POINTS;
+    canvas.width = width;
+    canvas.height = PREVIEW_HEIGHT;
+    ctx.fillStyle = '#141414';
+    ctx.fillRect(0, 0, width, PREVIEW_HEIGHT);
+    if (!peaks) return;
+
+    const middle = PREVIEW_HEIGHT / 2;
+    ctx.fillStyle = '#8286ef';
+    for (let x = 0; x < width; x++) {
+      const peak = peaks[Math.floor((x / width) * peaks.length)];
+      const barHeight = Math.max(1, peak * middle);
+      ctx.fillRect(x, middle - barHeight, 1, barHeight * 2);
+    }
+  }, [peaks]);
+
+  const update = (changes: Partial<RawPcmSettings>) => setSettings(current => ({ ...current, ...changes }));
+  const isMultiByte = bytesPerSample(settings.format) > 1;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={() => onSelect(null)}>
+      <div className="bg-neutral-900 rounded-xl sm:rounded-2xl p-4 sm:p-6 max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-semibold text-neutral-100 mb-1">Importer des données brutes</h2>
+        <p className="text-sm text-neutral-400 mb-4 truncate">
+          {request.fileName} n'a pas d'en-tête : indiquez comment lire les échantillons.
+        </p>
+
+        <div className="space-y-4">
+          {/* Sample format */}
+          <div>
+            <label className="block text-sm text-neutral-400 mb-2">Format des échantillons</label>
+            <div className="grid grid-cols-4 gap-2">
+              {RAW_SAMPLE_FORMATS.map((format) => (
+                <button
+                  key={format.id}
+                  onClick={() => update({ format: format.id })}
+                  title={format.label}
+                  className={`px-2 py-2 rounded-lg font-medium transition-all text-sm ${
+                    settings.format === format.id
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
+                  }`}
+                >
+                  {format.id === 'mulaw' ? 'µ-law' : format.id === 'alaw' ? 'A-law' : format.id}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Endianness */}
+          <div>
+            <label className="block text-sm text-neutral-400 mb-2">Ordre des octets</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['little', 'big'] as const).map((endianness) => (
+                <button
+                  key={endianness}
+                  onClick={() => update({ endianness })}
+                  disabled={!isMultiByte}
+                  className={`px-3 py-2 rounded-lg font-medium transition-all text-sm disabled:opacity-40 disabled:cursor-not-allowed ${
+                    settings.endianness === endianness
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
+                  }`}
+                >
+                  {endianness === 'little' ? 'Little-endian' : 'Big-endian'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-sm text-neutral-400 mb-2">Canaux</label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_CHANNELS}
+                value={numberValue(settings.channels)}
+                onChange={(e) => update({ channels: e.target.valueAsNumber })}
+                className="w-full px-3 py-2 bg-neutral-950 rounded-lg text-neutral-100 border border-neutral-700 focus:border-primary-500 focus:outline-none text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-neutral-400 mb-2">Fréquence (Hz)</label>
+              <input
+                type="number"
+                min={MIN_SAMPLE_RATE}
+                max={MAX_SAMPLE_RATE}
+                list="raw-pcm-sample-rates"
+                value={numberValue(settings.sampleRate)}
+                onChange={(e) => update({ sampleRate: e.target.valueAsNumber })}
+                className="w-full px-3 py-2 bg-neutral-950 rounded-lg text-neutral-100 border border-neutral-700 focus:border-primary-500 focus:outline-none text-sm"
+              />
+              <datalist id="raw-pcm-sample-rates">
+                {COMMON_SAMPLE_RATES.map(rate => <option key={rate} value={rate} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-sm text-neutral-400 mb-2">Décalage (octets)</label>
+              <input
+                type="number"
+                min={0}
+                value={numberValue(settings.byteOffset)}
+                onChange={(e) => update({ byteOffset: e.target.valueAsNumber })}
+                className="w-full px-3 py-2 bg-neutral-950 rounded-lg text-neutral-100 border border-neutral-700 focus:border-primary-500 focus:outline-none text-sm"
+              />
+            </div>
+          </div>
+
+          {/* Live preview */}
+          <div>
+            <div className="rounded-lg overflow-hidden border border-neutral-700">
+              <canvas ref={canvasRef} className="block w-full" style={{ height: PREVIEW_HEIGHT }} />
+            </div>
+            <div className="mt-1 text-xs text-neutral-500">
+              {isValid
+                ? `${AudioUtils.formatTime(frames / settings.sampleRate)} • ${frames.toLocaleString('fr-FR')} trames`
+                : 'Réglages invalides'}
+            </div>
+            {trailingBytes > 0 && (
+              <div className="text-xs text-yellow-400">
+                {trailingBytes} octet{trailingBytes > 1 ? 's' : ''} en fin de fichier ne forment pas une trame complète et seront ignorés
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6 grid grid-cols-2 gap-2">
+          <button
+            onClick={() => onSelect(null)}
+            className="px-4 py-3 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-neutral-300 transition-colors min-h-[48px]"
+          >
+            Annuler
+          </button>
+          <button
+            onClick={() => onSelect(settings)}
+            disabled={!isValid || frames === 0}
+            className="px-4 py-3 rounded-lg bg-primary-500 hover:bg-primary-700 text-white font-medium transition-colors min-h-[48px] disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Importer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { useRef, useState } from 'react';
+import type { SampleRange, SampleSource, SilenceDetectionOptions } from '@/types';
+import { DEFAULT_SILENCE_OPTIONS, detectSilences } from '@/utils/silenceDetector';
+
+interface SilenceSplitPanelProps {
+  source: SampleSource; // the timeline
+  silences: SampleRange[] | null; // detected silences shown on the waveform
+  onDetect: (silences: SampleRange[] | null) => void;
+  onApply: (deleteSilences: boolean) => void;
+  onClose: () => void;
+}
+
+const FIELDS: Array<{ key: keyof SilenceDetectionOptions; label: string; step: string }> = [
+  { key: 'thresholdDb', label: 'Seuil (dBFS)', step: '1' },
+  { key: 'minSilence', label: 'Silence minimum (s)', step: '0.1' },
+  { key: 'minSegment', label: 'Segment minimum (s)', step: '0.1' },
+];
+
+/**
+ * Finds the pauses of the timeline and splits it there, or cuts them out
+ */
+export const SilenceSplitPanel = ({ source, silences, onDetect, onApply, onClose }: SilenceSplitPanelProps) => {
+  const [options, setOptions] = useState<SilenceDetectionOptions>(DEFAULT_SILENCE_OPTIONS);
+  const [deleteSilences, setDeleteSilences] = useState(false);
+  const [isDetecting, setIsDetecting] = useState(false);
+  // Bumped by every settings change, so a detection still running for old settings is dropped
+  const settingsVersion = useRef(0);
+  const isValid = Object.values(options).every(value => !Number.isNaN(value)) && options.minSilence > 0;
+
+  const silentSeconds = silences
+    ? silences.reduce((total, silence) => total + silence.end - silence.start, 0) / source.sampleRate
+    : 0;
+
+  const handleDetect = async () => {
+    try {
+      setIsDetecting(true);
+      const version = settingsVersion.current;
+      const detected = await detectSilences(source, options);
+      if (version === settingsVersion.current) {
+        onDetect(detected);
+      }
+    } catch (error) {
+      console.error('Error detecting silences:', error);
+      alert('Erreur lors de la détection des silences');
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const handleChange = (key: keyof SilenceDetectionOptions, value: number) => {
+    setOptions({ ...options, [key]: value });
+    settingsVersion.current++;
+    // The preview no longer matches the settings
+    onDetect(null);
+  };
+
+  return (
+    <div className="bg-neutral-950 rounded-lg p-3 mb-3 sm:mb-4" onClick={(e) => e.stopPropagation()}>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {FIELDS.map((field) => (
+          <div key={field.key}>
+            <label className="block text-xs text-neutral-400 mb-1">{field.label}</label>
+            <input
+              type="number"
+              step={field.step}
+              value={Number.isNaN(options[field.key]) ? '' : options[field.key]}
+              onChange={(e) => handleChange(field.key, e.target.valueAsNumber)}
+              className="w-full px-3 py-2 bg-neutral-900 rounded-lg text-neutral-100 border border-neutral-700 focus:border-primary-500 focus:outline-none text-sm"
+            />
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 mt-3 text-sm text-neutral-300">
+        <input
+          type="checkbox"
+          checked={deleteSilences}
+          onChange={(e) => setDeleteSilences(e.target.checked)}
+          className="accent-primary-500"
+        />
+        Supprimer les silences au lieu de découper
+      </label>
+
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        <button
+          onClick={handleDetect}
+          disabled={!isValid || isDetecting}
+          className="px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 text-neutral-100 rounded text-sm transition-colors disabled:opacity-30"
+        >
+          {isDetecting ? 'Détection...' : 'Détecter'}
+        </button>
+        <button
+          onClick={() => onApply(deleteSilences)}
+          disabled={!silences || silences.length === 0 || isDetecting}
+          className="px-3 py-1.5 bg-primary-500 hover:bg-primary-700 text-white rounded text-sm transition-colors disabled:opacity-30"
+        >
+          {deleteSilences ? 'Supprimer les silences' : 'Découper'}
+        </button>
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 text-neutral-300 rounded text-sm transition-colors"
+        >
+          Fermer
+        </button>
+        {silences && (
+          <span className="text-xs text-neutral-400">
+            {silences.length === 0
+              ? 'Aucun silence détecté'
+              : `${silences.length} silence${silences.length > 1 ? 's' : ''} • ${silentSeconds.toFixed(1)} s`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,8 +2,11 @@
 // Distributed under the license specified in the root directory of this project.
 
 import { useState, useRef } from 'react';
-import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import { ffmpegService } from '@/utils/ffmpegService';
+import { isAbortError } from '@/utils/encoderPool';
+import { selectAudioStream } from '@/utils/audioConverter';
+import { useAudioStreamPicker } from '@/hooks/useAudioStreamPicker';
+import { AudioStreamPicker } from '@/components/AudioStreamPicker';
 
 interface AudioCompressorProps {
   audioContext: AudioContext;
@@ -33,35 +36,8 @@ export const AudioCompressor = ({ audioContext: _audioContext }: AudioCompressor
   const [error, setError] = useState<string | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const ffmpegRef = useRef<FFmpeg | null>(null);
-
-  const loadFFmpeg = async () => {
-    if (ffmpegRef.current?.loaded) {
-      return ffmpegRef.current;
-    }
-
-    const ffmpeg = new FFmpeg();
-    
-    ffmpeg.on('progress', ({ progress: p }) => {
-      setProgress(Math.round(p * 100));
-    });
-
-    ffmpeg.on('log', ({ message }) => {
-      console.log('[FFmpeg]', message);
-    });
-
-    setProgressMessage('Chargement de FFmpeg...');
-    
-    const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm';
-    
-    await ffmpeg.load({
-      coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-      wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-    });
-
-    ffmpegRef.current = ffmpeg;
-    return ffmpeg;
-  };
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { chooseStream, pickerProps: streamPickerProps } = useAudioStreamPicker();
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
@@ -76,7 +52,7 @@ export const AudioCompressor = ({ audioContext: _audioContext }: AudioCompressor
   const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     const droppedFile = event.dataTransfer.files[0];
-    if (droppedFile && droppedFile.type.startsWith('audio/')) {
+    if (droppedFile && (droppedFile.type.startsWith('audio/') || droppedFile.type.startsWith('video/'))) {
       setFile(droppedFile);
       setCompressedBlob(null);
       setError(null);
@@ -91,75 +67,64 @@ export const AudioCompressor = ({ audioContext: _audioContext }: AudioCompressor
   const getFileExtension = (filename: string): string => {
     const lastDot = filename.lastIndexOf('.');
     if (lastDot === -1) return '';
-    return filename.substring(lastDot).toLowerCase();
+    return filename.substring(lastDot + 1).toLowerCase();
   };
 
   const handleCompress = async () => {
     if (!file) return;
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
       setIsProcessing(true);
       setError(null);
       setProgress(0);
       setCompressedBlob(null);
-
-      setProgressMessage('Initialisation...');
-      const ffmpeg = await loadFFmpeg();
-
-      const inputFileName = `input_${Date.now()}${getFileExtension(file.name)}`;
-      const outputFileName = `output_${Date.now()}.mp3`;
-
-      setProgressMessage('Chargement du fichier...');
-      setProgress(10);
-      
-      const inputData = await fetchFile(file);
-      await ffmpeg.writeFile(inputFileName, inputData);
-
-      setProgressMessage('Compression en cours...');
-      setProgress(20);
-
-      // Compress to MP3 with specified bitrate
-      await ffmpeg.exec([
-        '-i', inputFileName,
-        '-vn',                      // No video
-        '-acodec', 'libmp3lame',    // MP3 codec
-        '-b:a', `${bitrate}k`,      // Bitrate
-        '-ar', '44100',             // Sample rate
-        '-ac', '2',                 // Stereo
-        outputFileName
-      ]);
-
-      setProgressMessage('Finalisation...');
-      setProgress(90);
-
-      const outputData = await ffmpeg.readFile(outputFileName);
-
-      // Clean up
-      await ffmpeg.deleteFile(inputFileName);
-      await ffmpeg.deleteFile(outputFileName);
-
-      // Create blob
-      let blob: Blob;
-      if (typeof outputData === 'string') {
-        const encoder = new TextEncoder();
-        blob = new Blob([encoder.encode(outputData)], { type: 'audio/mpeg' });
-      } else {
-        const buffer = new ArrayBuffer(outputData.byteLength);
-        new Uint8Array(buffer).set(outputData);
-        blob = new Blob([buffer], { type: 'audio/mpeg' });
-      }
+      setProgressMessage(ffmpegService.isLoaded() ? 'Compression en cours...' : 'Chargement de FFmpeg...');
+      const inputExtension = getFileExtension(file.name);
+      // Videos and multi-language files: compress only the chosen audio stream
+      const { stream } = await selectAudioStream(file, inputExtension, chooseStream, { signal: controller.signal });
+
+      const blob = await ffmpegService.run({
+        input: file,
+        inputExtension,
+        outputExtension: 'mp3',
+        args: [
+          '-map', `0:${stream.index}`, // Selected audio stream
+          '-vn',                      // No video
+          '-acodec', 'libmp3lame',    // MP3 codec
+          '-b:a', `${bitrate}k`,      // Bitrate
+          '-ar', '44100',             // Sample rate
+          '-ac', '2'                  // Stereo
+        ],
+        mimeType: 'audio/mpeg'
+      }, {
+        onProgress: (p) => {
+          setProgressMessage('Compression en cours...');
+          setProgress(Math.round(p * 100));
+        },
+        signal: controller.signal
+      });
 
       setCompressedBlob(blob);
       setProgress(100);
       setProgressMessage('Compression terminée !');
-      setIsProcessing(false);
     } catch (err) {
-      console.error('Compression error:', err);
-      setError(err instanceof Error ? err.message : 'Erreur lors de la compression');
+      if (!isAbortError(err)) {
+        console.error('Compression error:', err);
+        setError(err instanceof Error ? err.message : 'Erreur lors de la compression');
+      }
+    } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleDownload = () => {
     if (!compressedBlob || !file) return;
 
@@ -236,7 +201,7 @@ export const AudioCompressor = ({ audioContext: _audioContext }: AudioCompressor
             <input
               ref={fileInputRef}
               type="file"
-              accept="audio/*"
+              accept="audio/*,video/*"
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -419,9 +384,17 @@ export const AudioCompressor = ({ audioContext: _audioContext }: AudioCompressor
             <div className="spinner mx-auto mb-4"></div>
             <p className="text-neutral-100 mb-2">{progressMessage}</p>
             <p className="text-primary-500 font-mono text-lg">{progress}%</p>
+            <button
+              onClick={handleCancel}
+              className="mt-4 px-4 py-2 bg-neutral-800 hover:bg-neutral-700 text-neutral-100 rounded-lg text-sm font-medium transition-colors"
+            >
+              Annuler
+            </button>
           </div>
         </div>
       )}
+
+      <AudioStreamPicker {...streamPickerProps} />
     </div>
   );
 };
\ No newline at end of file
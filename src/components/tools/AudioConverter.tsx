@@ -2,8 +2,11 @@
 // Distributed under the license specified in the root directory of this project.
 
 import { useState, useRef } from 'react';
-import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import { ffmpegService } from '@/utils/ffmpegService';
+import { isAbortError } from '@/utils/encoderPool';
+import { selectAudioStream } from '@/utils/audioConverter';
+import { useAudioStreamPicker } from '@/hooks/useAudioStreamPicker';
+import { AudioStreamPicker } from '@/components/AudioStreamPicker';
 
 interface AudioConverterProps {
   audioContext: AudioContext;
@@ -37,35 +40,8 @@ export const AudioConverter = ({ audioContext: _audioContext }: AudioConverterPr
   const [error, setError] = useState<string | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const ffmpegRef = useRef<FFmpeg | null>(null);
-
-  const loadFFmpeg = async () => {
-    if (ffmpegRef.current?.loaded) {
-      return ffmpegRef.current;
-    }
-
-    const ffmpeg = new FFmpeg();
-    
-    ffmpeg.on('progress', ({ progress: p }) => {
-      setProgress(Math.round(p * 100));
-    });
-
-    ffmpeg.on('log', ({ message }) => {
-      console.log('[FFmpeg]', message);
-    });
-
-    setProgressMessage('Chargement de FFmpeg...');
-    
-    const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm';
-    
-    await ffmpeg.load({
-      coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-      wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-    });
-
-    ffmpegRef.current = ffmpeg;
-    return ffmpeg;
-  };
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { chooseStream, pickerProps: streamPickerProps } = useAudioStreamPicker();
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
@@ -80,7 +56,7 @@ export const AudioConverter = ({ audioContext: _audioContext }: AudioConverterPr
   const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     const droppedFile = event.dataTransfer.files[0];
-    if (droppedFile && droppedFile.type.startsWith('audio/')) {
+    if (droppedFile && (droppedFile.type.startsWith('audio/') || droppedFile.type.startsWith('video/'))) {
       setFile(droppedFile);
       setConvertedBlob(null);
       setError(null);
@@ -92,86 +68,75 @@ export const AudioConverter = ({ audioContext: _audioContext }: AudioConverterPr
     event.preventDefault();
   };
 
-  const getFFmpegArgs = (inputFile: string, outputFile: string, format: OutputFormat): string[] => {
-    const baseArgs = ['-i', inputFile];
-    
+  // Output options for each format; the service adds the input and output files
+  const getFFmpegArgs = (format: OutputFormat): string[] => {
     switch (format) {
       case 'mp3':
-        return [...baseArgs, '-vn', '-acodec', 'libmp3lame', '-q:a', '2', outputFile];
+        return ['-vn', '-acodec', 'libmp3lame', '-q:a', '2'];
       case 'wav':
-        return [...baseArgs, '-vn', '-acodec', 'pcm_s16le', '-ar', '44100', '-ac', '2', outputFile];
+        return ['-vn', '-acodec', 'pcm_s16le', '-ar', '44100', '-ac', '2'];
       case 'ogg':
-        return [...baseArgs, '-vn', '-acodec', 'libvorbis', '-q:a', '6', outputFile];
+        return ['-vn', '-acodec', 'libvorbis', '-q:a', '6'];
       case 'flac':
-        return [...baseArgs, '-vn', '-acodec', 'flac', '-compression_level', '8', outputFile];
+        return ['-vn', '-acodec', 'flac', '-compression_level', '8'];
       case 'aac':
-        return [...baseArgs, '-vn', '-acodec', 'aac', '-b:a', '192k', outputFile];
+        return ['-vn', '-acodec', 'aac', '-b:a', '192k'];
       case 'm4a':
-        return [...baseArgs, '-vn', '-acodec', 'aac', '-b:a', '192k', outputFile];
+        return ['-vn', '-acodec', 'aac', '-b:a', '192k'];
       default:
-        return [...baseArgs, '-vn', outputFile];
+        return ['-vn'];
     }
   };
 
   const handleConvert = async () => {
     if (!file) return;
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
       setIsProcessing(true);
       setError(null);
       setProgress(0);
       setConvertedBlob(null);
-
-      setProgressMessage('Initialisation...');
-      const ffmpeg = await loadFFmpeg();
-
-      const inputFileName = `input_${Date.now()}${getFileExtension(file.name)}`;
+      setProgressMessage(ffmpegService.isLoaded() ? 'Conversion en cours...' : 'Chargement de FFmpeg...');
       const formatOption = OUTPUT_FORMATS.find(f => f.id === outputFormat)!;
-      const outputFileName = `output_${Date.now()}${formatOption.extension}`;
-
-      setProgressMessage('Chargement du fichier...');
-      setProgress(10);
-      
-      const inputData = await fetchFile(file);
-      await ffmpeg.writeFile(inputFileName, inputData);
-
-      setProgressMessage('Conversion en cours...');
-      setProgress(20);
-
-      const args = getFFmpegArgs(inputFileName, outputFileName, outputFormat);
-      await ffmpeg.exec(args);
-
-      setProgressMessage('Finalisation...');
-      setProgress(90);
-
-      const outputData = await ffmpeg.readFile(outputFileName);
-
-      // Clean up
-      await ffmpeg.deleteFile(inputFileName);
-      await ffmpeg.deleteFile(outputFileName);
-
-      // Create blob
-      let blob: Blob;
-      if (typeof outputData === 'string') {
-        const encoder = new TextEncoder();
-        blob = new Blob([encoder.encode(outputData)], { type: formatOption.mimeType });
-      } else {
-        const buffer = new ArrayBuffer(outputData.byteLength);
-        new Uint8Array(buffer).set(outputData);
-        blob = new Blob([buffer], { type: formatOption.mimeType });
-      }
+      const inputExtension = getFileExtension(file.name);
+      // Videos and multi-language files: convert only the chosen audio stream
+      const { stream } = await selectAudioStream(file, inputExtension, chooseStream, { signal: controller.signal });
+
+      const blob = await ffmpegService.run({
+        input: file,
+        inputExtension,
+        outputExtension: formatOption.extension.slice(1),
+        args: ['-map', `0:${stream.index}`, ...getFFmpegArgs(outputFormat)],
+        mimeType: formatOption.mimeType
+      }, {
+        onProgress: (p) => {
+          setProgressMessage('Conversion en cours...');
+          setProgress(Math.round(p * 100));
+        },
+        signal: controller.signal
+      });
 
       setConvertedBlob(blob);
       setProgress(100);
       setProgressMessage('Conversion terminée !');
-      setIsProcessing(false);
     } catch (err) {
-      console.error('Conversion error:', err);
-      setError(err instanceof Error ? err.message : 'Erreur lors de la conversion');
+      if (!isAbortError(err)) {
+        console.error('Conversion error:', err);
+        setError(err instanceof Error ? err.message : 'Erreur lors de la conversion');
+      }
+    } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleDownload = () => {
     if (!convertedBlob || !file) return;
 
@@ -211,7 +176,7 @@ export const AudioConverter = ({ audioContext: _audioContext }: AudioConverterPr
   const getFileExtension = (filename: string): string => {
     const lastDot = filename.lastIndexOf('.');
     if (lastDot === -1) return '';
-    return filename.substring(lastDot).toLowerCase();
+    return filename.substring(lastDot + 1).toLowerCase();
   };
 
   return (
@@ -249,7 +214,7 @@ export const AudioConverter = ({ audioContext: _audioContext }: AudioConverterPr
             <input
               ref={fileInputRef}
               type="file"
-              accept="audio/*"
+              accept="audio/*,video/*"
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -423,9 +388,17 @@ export const AudioConverter = ({ audioContext: _audioContext }: AudioConverterPr
             <div className="spinner mx-auto mb-4"></div>
             <p className="text-neutral-100 mb-2">{progressMessage}</p>
             <p className="text-primary-500 font-mono text-lg">{progress}%</p>
+            <button
+              onClick={handleCancel}
+              className="mt-4 px-4 py-2 bg-neutral-800 hover:bg-neutral-700 text-neutral-100 rounded-lg text-sm font-medium transition-colors"
+            >
+              Annuler
+            </button>
           </div>
         </div>
       )}
+
+      <AudioStreamPicker {...streamPickerProps} />
     </div>
   );
 };
\ No newline at end of file
@@ -1,89 +1,250 @@
 // Copyright (c) 2025 Jema Technology.
 // Distributed under the license specified in the root directory of this project.
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { AudioUtils } from '@/utils/audioUtils';
 import { AudioEncoders } from '@/utils/audioEncoders';
+import { isAbortError } from '@/utils/encoderPool';
+import { createZip, type ZipEntry } from '@/utils/zipWriter';
+import { applyFileNamePattern } from '@/utils/fileNamePattern';
+import { buildCueSheet, chaptersFromSegments } from '@/utils/chapters';
+import {
+  editListLength,
+  editListSource,
+  initialEditList,
+  insertAt,
+  removeRange,
+  renderSegment,
+  replaceRange,
+  resizeSegment,
+  segmentTimes,
+  setSegmentFade,
+  silentSegment,
+  sliceEditList,
+  splitSegment
+} from '@/utils/editList';
+import { DEFAULT_FADE_CURVE, FADE_CURVES, fadeGain } from '@/utils/fadeCurves';
+import { silenceSplitPoints } from '@/utils/silenceDetector';
+import { nearestZeroCrossing } from '@/utils/zeroCrossing';
 import { useWaveform } from '@/hooks/useWaveform';
-import { useAudioPlayer } from '@/hooks/useAudioPlayer';
+import { useSourcePlayer } from '@/hooks/useSourcePlayer';
 import { useHistory } from '@/hooks/useHistory';
-import { AudioSegment, CutterHistoryState } from '@/types';
+import { useAudioStreamPicker } from '@/hooks/useAudioStreamPicker';
+import { useChannelModePicker } from '@/hooks/useChannelModePicker';
+import { useRawPcmImport } from '@/hooks/useRawPcmImport';
+import { useLongFileImport } from '@/hooks/useLongFileImport';
+import { AudioMetadata, CutterHistoryState, DecodeInfo, EditSegment, EncodeControl, ExportOptions, FadeCurve, SampleRange, SampleSource, SegmentFade, SplitExportOptions } from '@/types';
 import { ExportModal } from '@/components/ExportModal';
+import { DecodeInfoLabel } from '@/components/DecodeInfoLabel';
+import { AudioStreamPicker } from '@/components/AudioStreamPicker';
+import { ChannelModePicker } from '@/components/ChannelModePicker';
+import { RawPcmImportDialog } from '@/components/RawPcmImportDialog';
+import { DecodeModePicker } from '@/components/DecodeModePicker';
+import { SilenceSplitPanel } from '@/components/SilenceSplitPanel';
+import { channelLabels, channelLayoutName } from '@/utils/channelMixer';
+import { readAudioBuffer } from '@/utils/sampleSource';
 // Note: needsConversion is handled internally by AudioUtils.loadAudioFile
 
 interface AudioCutterProps {
   audioContext: AudioContext;
 }
 
+// Shortest segment an edge drag can leave, in seconds
+const MIN_SEGMENT_DURATION = 0.1;
+// Cuts closer than this to a segment edge are ignored, in seconds
+const MIN_CUT_DISTANCE = 0.01;
+
+// Crossfade lengths offered for the joins between segments, in milliseconds
+const CROSSFADE_CHOICES = [0, 5, 10, 20, 50];
+const DEFAULT_CROSSFADE_MS = 10;
+// Points of the curves drawn over the fades
+const FADE_SHAPE_POINTS = 24;
+// A press on the waveform that moves less than this is a click, in pixels
+const SELECTION_DRAG_THRESHOLD = 3;
+const DEFAULT_SILENCE_SECONDS = 1;
+// How far a cut or an edge may move to reach a zero crossing, in seconds
+const ZERO_CROSSING_RADIUS = 0.005;
+// How long the mark of a snapped point stays on the waveform, in milliseconds
+const SNAP_MARK_DURATION = 1500;
+
+interface SegmentDrag {
+  id: string;
+  // Segment edges, or the handles of its fades
+  edge: 'start' | 'end' | 'fade-in' | 'fade-out';
+  // The drag is applied to the edit list as it was when it started
+  origin: CutterHistoryState['segments'];
+  anchor: number; // timeline position of the handle when the drag started, in seconds
+}
+
+interface TimeRange {
+  start: number; // seconds
+  end: number;
+}
+
+interface SelectionDrag {
+  anchor: number; // timeline position where the press started, in seconds
+  clientX: number;
+}
+
+const segmentChanged = (a: EditSegment, b: EditSegment) =>
+  a.offset !== b.offset ||
+  a.length !== b.length ||
+  a.fadeIn?.length !== b.fadeIn?.length ||
+  a.fadeOut?.length !== b.fadeOut?.length;
+
+/**
+ * Polygon over the part of a segment a fade attenuates, in the 0..100
+ * coordinates of the segment box
+ */
+const fadeShape = (fade: SegmentFade, segmentLength: number, edge: 'in' | 'out') => {
+  const width = (Math.min(fade.length, segmentLength) / segmentLength) * 100;
+  const points = Array.from({ length: FADE_SHAPE_POINTS + 1 }, (_, i) => {
+    const position = i / FADE_SHAPE_POINTS;
+    const x = edge === 'in' ? position * width : 100 - width + position * width;
+    const gain = fadeGain(fade.curve, edge === 'in' ? position : 1 - position);
+    return `${x},${100 - gain * 100}`;
+  });
+  const top = edge === 'in' ? [`${width},0`, '0,0'] : ['100,0', `${100 - width},0`];
+  return [...points, ...top].join(' ');
+};
+
 export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
-  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+  // The decoded file, in pages when it was decoded in chunks; segments only reference ranges of it
+  const [source, setSource] = useState<SampleSource | null>(null);
   const [fileName, setFileName] = useState<string>('');
+  const [sourceMetadata, setSourceMetadata] = useState<AudioMetadata>({});
+  const [decodeInfo, setDecodeInfo] = useState<DecodeInfo | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(null);
   const [zoom, setZoom] = useState(1);
   const [isDraggingPlayhead, setIsDraggingPlayhead] = useState(false);
-  const [resizingSegment, setResizingSegment] = useState<{ id: string; edge: 'start' | 'end' } | null>(null);
+  const [resizingSegment, setResizingSegment] = useState<SegmentDrag | null>(null);
+  // The edit list while a handle is dragged; history gets it on release
+  const [dragSegments, setDragSegments] = useState<EditSegment[] | null>(null);
+  const [crossfadeMs, setCrossfadeMs] = useState(DEFAULT_CROSSFADE_MS);
+  const [selection, setSelection] = useState<TimeRange | null>(null);
+  const [selectionDrag, setSelectionDrag] = useState<SelectionDrag | null>(null);
+  // Segments reference the source buffer, so copying a range copies no audio
+  const [clipboard, setClipboard] = useState<EditSegment[] | null>(null);
+  const [silenceSeconds, setSilenceSeconds] = useState(DEFAULT_SILENCE_SECONDS);
+  const [showSilencePanel, setShowSilencePanel] = useState(false);
+  const [snapToZero, setSnapToZero] = useState(false);
+  // Timeline position of the last snapped cut or edge, in seconds
+  const [snapMark, setSnapMark] = useState<number | null>(null);
+  // Silences found on the timeline, previewed until applied
+  const [silencePreview, setSilencePreview] = useState<SampleRange[] | null>(null);
   const [showExportModal, setShowExportModal] = useState(false);
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { chooseStream, pickerProps: streamPickerProps } = useAudioStreamPicker();
+  const { chooseChannelMode, pickerProps: channelPickerProps } = useChannelModePicker();
+  const { chooseRawPcmSettings, dialogProps: rawPcmDialogProps } = useRawPcmImport();
+  // The source is edited in place, so long files are never cut down to a range
+  const { chooseDecodeMode, modePickerProps } = useLongFileImport();
   const waveformContainerRef = useRef<HTMLDivElement>(null);
+  // Set when a drag selected a range, so the click that ends it does not seek
+  const didSelectRef = useRef(false);
   
   // History management
   const { current: historyState, push, undo, redo, canUndo, canRedo, reset } = useHistory<CutterHistoryState>({
     initialState: { segments: [], zoom: 1 }
   });
 
-  const segments = historyState.segments;
+  const segments = dragSegments ?? historyState.segments;
+  const selectedSegment = segments.find(s => s.id === selectedSegmentId);
 
   useEffect(() => {
     setZoom(historyState.zoom);
   }, [historyState]);
 
-  // Update audioBuffer when segments change (for undo/redo)
+  // A paged source holds memory and a spill file until disposed of
   useEffect(() => {
-    const updateAudioBuffer = async () => {
-      if (segments.length > 0) {
-        try {
-          const buffers = segments.map(seg => seg.buffer);
-          const merged = await AudioUtils.mergeAudioBuffers(buffers);
-          setAudioBuffer(merged);
-        } catch (error) {
-          console.error('Error updating audio buffer:', error);
-        }
-      }
+    return () => {
+      source?.dispose?.().catch(error => console.warn('Failed to release the audio source:', error));
     };
+  }, [source]);
+
+  const crossfadeFrames = source ? Math.round((crossfadeMs / 1000) * source.sampleRate) : 0;
+  // The timeline reads through the edit list: playback renders only the
+  // window being heard, the waveform comes from the source peaks, and the
+  // whole timeline is rendered only at export
+  const timeline = useMemo(
+    () => (source && segments.length > 0 ? editListSource(source, segments, { crossfade: crossfadeFrames }) : source),
+    [source, segments, crossfadeFrames]
+  );
+  const segmentTimeline = useMemo(
+    () => (source ? segmentTimes(segments, source.sampleRate) : []),
+    [source, segments]
+  );
 
-    updateAudioBuffer();
-  }, [segments]);
+  // The selection in frames, kept within the timeline after an undo shortens it
+  const selectedFrames = useMemo(() => {
+    if (!selection || !source) return null;
+    const total = editListLength(segments);
+    const start = Math.max(0, Math.min(Math.round(selection.start * source.sampleRate), total));
+    const end = Math.max(0, Math.min(Math.round(selection.end * source.sampleRate), total));
+    return end > start ? { start, end } : null;
+  }, [selection, source, segments]);
   
-  useWaveform({ audioBuffer, canvasRef, color: '#8286ef', zoom });
+  useWaveform({ source: timeline, canvasRef, color: '#8286ef', zoom });
+
+  useEffect(() => {
+    if (snapMark === null) return;
+    const timer = setTimeout(() => setSnapMark(null), SNAP_MARK_DURATION);
+    return () => clearTimeout(timer);
+  }, [snapMark]);
+
+  // A preview only holds for the timeline it was detected on
+  useEffect(() => {
+    setSilencePreview(null);
+  }, [timeline]);
   
   const { isPlaying, currentTime, duration, volume, play, pause, seek, changeVolume } =
-    useAudioPlayer({
-      audioBuffer,
-      audioContext,
-      onTimeUpdate: () => {
-        // Update playhead position during playback
-      }
-    });
+    useSourcePlayer({ source: timeline, audioContext });
 
-  // Handle Delete key
+  // Handle Delete key and the clipboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Delete' && selectedSegmentId) {
-        handleDeleteSegment(selectedSegmentId);
+      // Leave editing keys to the fields of the toolbar and the export dialog
+      const target = e.target;
+      if (
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLSelectElement ||
+        target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLElement && target.isContentEditable)
+      ) return;
+
+      if (e.key === 'Delete') {
+        if (selectedFrames) {
+          handleDeleteSelection();
+        } else if (selectedSegmentId) {
+          handleDeleteSegment(selectedSegmentId);
+        }
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'c' && selectedFrames) {
+        e.preventDefault();
+        handleCopy();
+      } else if (key === 'x' && selectedFrames) {
+        e.preventDefault();
+        handleCut();
+      } else if (key === 'v' && clipboard) {
+        e.preventDefault();
+        handlePaste();
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedSegmentId]);
+  }, [selectedSegmentId, selectedFrames, clipboard, segments, zoom, currentTime]);
 
   // Handle playhead dragging - Mouse and Touch support
   useEffect(() => {
     const handleMove = (e: MouseEvent | TouchEvent) => {
-      if (!isDraggingPlayhead || !waveformContainerRef.current || !audioBuffer) return;
+      if (!isDraggingPlayhead || !waveformContainerRef.current || !timeline) return;
 
       const container = waveformContainerRef.current;
       const scrollLeft = container.scrollLeft;
@@ -113,73 +274,79 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
       document.removeEventListener('touchmove', handleMove as EventListener);
       document.removeEventListener('touchend', handleEnd);
     };
-  }, [isDraggingPlayhead, duration, zoom, audioBuffer, seek]);
+  }, [isDraggingPlayhead, duration, zoom, timeline, seek]);
 
-  // Handle segment resizing
+  // Handle segment resizing and fade handle drags
   useEffect(() => {
     if (!resizingSegment) return;
 
-    const handleMouseMove = async (e: MouseEvent) => {
-      if (!waveformContainerRef.current || !audioBuffer) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!waveformContainerRef.current || !source) return;
 
       const zoomedDiv = waveformContainerRef.current.firstElementChild as HTMLElement;
       if (!zoomedDiv) return;
 
       const rect = zoomedDiv.getBoundingClientRect();
       const x = e.clientX - rect.left;
-      const newTime = (x / rect.width) * duration;
-
-      const segmentIndex = segments.findIndex(s => s.id === resizingSegment.id);
-      if (segmentIndex === -1) return;
-
-      const segment = segments[segmentIndex];
-      const newSegments = [...segments];
-
-      try {
-        if (resizingSegment.edge === 'start') {
-          // Resize from start - Audacity style: segment shrinks from left, stays at same END
-          const maxStart = segment.endTime - 0.1;
-          const clampedTime = Math.max(0, Math.min(newTime, maxStart));
-
-          if (Math.abs(clampedTime - segment.startTime) > 0.01) {
-            const trimAmount = clampedTime - segment.startTime;
-            const newBuffer = await AudioUtils.trimAudioBuffer(segment.buffer, trimAmount, segment.buffer.duration);
-            
-            // KEEP END POSITION FIXED, move start
-            newSegments[segmentIndex] = {
-              ...segment,
-              buffer: newBuffer,
-              startTime: segment.endTime - newBuffer.duration, // End stays same
-              endTime: segment.endTime // FIXED
-            };
-          }
-        } else {
-          // Resize from end - Audacity style: segment shrinks from right, stays at same START
-          const minEnd = segment.startTime + 0.1;
-          const clampedTime = Math.max(minEnd, Math.min(newTime, duration));
-
-          if (Math.abs(clampedTime - segment.endTime) > 0.01) {
-            const newDuration = clampedTime - segment.startTime;
-            const newBuffer = await AudioUtils.trimAudioBuffer(segment.buffer, 0, newDuration);
-            
-            // KEEP START POSITION FIXED, move end
-            newSegments[segmentIndex] = {
-              ...segment,
-              buffer: newBuffer,
-              startTime: segment.startTime, // FIXED
-              endTime: segment.startTime + newBuffer.duration
-            };
-          }
-        }
+      const newTime = Math.max(0, (x / rect.width) * duration);
+
+      // Segments are laid end to end: dragging the start edge trims or
+      // restores source audio at the segment start and moves what follows,
+      // dragging the end edge does the same at its end
+      const { sampleRate } = source;
+      const { id, edge, origin, anchor } = resizingSegment;
+      const delta = Math.round((newTime - anchor) * sampleRate);
+      const originSegment = origin.find(s => s.id === id);
+      if (!originSegment) return;
 
-        push({ segments: newSegments, zoom });
-      } catch (error) {
-        console.error('Error resizing segment:', error);
+      let newSegments: EditSegment[];
+      if (edge === 'fade-in') {
+        newSegments = setSegmentFade(origin, id, 'in', { length: (originSegment.fadeIn?.length ?? 0) + delta });
+      } else if (edge === 'fade-out') {
+        newSegments = setSegmentFade(origin, id, 'out', { length: (originSegment.fadeOut?.length ?? 0) - delta });
+      } else {
+        newSegments = resizeSegment(origin, id, edge, delta, source.length, Math.round(MIN_SEGMENT_DURATION * sampleRate));
+      }
+
+      const current = segments.find(s => s.id === id);
+      const resized = newSegments.find(s => s.id === id);
+      if (current && resized && segmentChanged(current, resized)) {
+        setDragSegments(newSegments);
       }
     };
 
     const handleMouseUp = () => {
       setResizingSegment(null);
+      finishSegmentDrag(resizingSegment, dragSegments).catch(error => {
+        console.error('Error snapping the segment edge:', error);
+        setDragSegments(null);
+      });
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [resizingSegment, segments, dragSegments, duration, source, zoom, push, snapToZero]);
+
+  // Handle range selection on the waveform
+  useEffect(() => {
+    if (!selectionDrag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (Math.abs(e.clientX - selectionDrag.clientX) < SELECTION_DRAG_THRESHOLD) return;
+      const time = timeAtClientX(e.clientX);
+      if (time === null) return;
+
+      didSelectRef.current = true;
+      setSelection({ start: Math.min(selectionDrag.anchor, time), end: Math.max(selectionDrag.anchor, time) });
+    };
+
+    const handleMouseUp = () => {
+      setSelectionDrag(null);
     };
 
     document.addEventListener('mousemove', handleMouseMove);
@@ -189,7 +356,7 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [resizingSegment, segments, duration, audioBuffer, zoom, push]);
+  }, [selectionDrag, duration]);
 
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -198,91 +365,76 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
     try {
       setIsProcessing(true);
       
-      // AudioUtils.loadAudioFile handles conversion internally if needed
+      // AudioUtils.loadAudioSource handles conversion internally if needed
       // No need to check needsConversion() separately - this matches AudioJoiner behavior
-      const buffer = await AudioUtils.loadAudioFile(file);
+      const { source: loaded, metadata, decode } = await AudioUtils.loadAudioSource(file, undefined, { chooseStream, chooseChannelMode, chooseRawPcmSettings, chooseDecodeMode });
       
-      setAudioBuffer(buffer);
+      setSource(loaded);
       setFileName(file.name);
+      setSourceMetadata(metadata);
+      setDecodeInfo(decode);
       
-      // Create initial segment
-      const initialSegment: AudioSegment = {
-        id: '1',
-        buffer,
-        startTime: 0,
-        endTime: buffer.duration,
-        selected: false
-      };
-      
-      reset({ segments: [initialSegment], zoom: 1 });
+      reset({ segments: initialEditList(loaded), zoom: 1 });
+      setSelection(null);
+      setClipboard(null);
       setIsProcessing(false);
     } catch (error) {
-      console.error('Error loading file:', error);
       setIsProcessing(false);
-      
+      // The user closed one of the import dialogs
+      if (isAbortError(error)) return;
+      console.error('Error loading file:', error);
+
       // Show user-friendly error message
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       alert(`Erreur lors du chargement du fichier: ${errorMessage}`);
     }
   };
 
+  // Snapping reads the source, so an edge snaps once, where its handle was
+  // released, and the drag lands in history as a single entry
+  const finishSegmentDrag = async (drag: SegmentDrag, dragged: EditSegment[] | null) => {
+    let final = dragged;
+    const originSegment = drag.origin.find(s => s.id === drag.id);
+    const draggedSegment = dragged?.find(s => s.id === drag.id);
+    const { edge } = drag;
+    if (source && snapToZero && originSegment && draggedSegment && !draggedSegment.silent && (edge === 'start' || edge === 'end')) {
+      // Edges snap in the source, where the audio they cut into is
+      const edgeFrame = (segment: EditSegment) => (edge === 'start' ? segment.offset : segment.offset + segment.length);
+      const snapped = await nearestZeroCrossing(source, edgeFrame(draggedSegment), Math.round(ZERO_CROSSING_RADIUS * source.sampleRate));
+      final = resizeSegment(
+        drag.origin, drag.id, edge, snapped - edgeFrame(originSegment),
+        source.length, Math.round(MIN_SEGMENT_DURATION * source.sampleRate)
+      );
+      // The start edge stays put on the timeline, the end edge moves with the length
+      const times = segmentTimes(final, source.sampleRate)[final.findIndex(s => s.id === drag.id)];
+      setSnapMark(edge === 'start' ? times.startTime : times.endTime);
+    }
+
+    if (final?.some((segment, i) => segmentChanged(segment, drag.origin[i]))) {
+      push({ segments: final, zoom });
+    }
+    setDragSegments(null);
+  };
+
   const handleCutAtPosition = async () => {
-    if (!audioBuffer || segments.length === 0) return;
+    if (!source || !timeline || segments.length === 0) return;
 
     const cutTime = currentTime;
-    if (cutTime <= 0.01 || cutTime >= duration - 0.01) {
+    if (cutTime <= MIN_CUT_DISTANCE || cutTime >= duration - MIN_CUT_DISTANCE) {
       alert('Position de découpe invalide');
       return;
     }
 
-    try {
-      setIsProcessing(true);
-
-      // Find which segment contains the cut point
-      let newSegments: AudioSegment[] = [];
-      let cutMade = false;
-
-      for (const segment of segments) {
-        if (!cutMade && cutTime > segment.startTime + 0.01 && cutTime < segment.endTime - 0.01) {
-          // Calculate precise cut position within this segment
-          const relativeTime = cutTime - segment.startTime;
-          
-          // Split the buffer precisely
-          const beforeBuffer = await AudioUtils.trimAudioBuffer(segment.buffer, 0, relativeTime);
-          const afterBuffer = await AudioUtils.trimAudioBuffer(segment.buffer, relativeTime, segment.buffer.duration);
-          
-          // Create two new segments
-          newSegments.push(
-            {
-              id: Date.now().toString(),
-              buffer: beforeBuffer,
-              startTime: segment.startTime,
-              endTime: cutTime,
-              selected: false
-            },
-            {
-              id: (Date.now() + 1).toString(),
-              buffer: afterBuffer,
-              startTime: cutTime,
-              endTime: segment.endTime,
-              selected: false
-            }
-          );
-          cutMade = true;
-        } else {
-          newSegments.push(segment);
-        }
-      }
-
-      if (cutMade) {
-        push({ segments: newSegments, zoom });
-      }
-      
-      setIsProcessing(false);
-    } catch (error) {
-      console.error('Error cutting:', error);
-      alert('Erreur lors de la découpe');
-      setIsProcessing(false);
+    const { sampleRate } = source;
+    let frame = Math.round(cutTime * sampleRate);
+    // Cuts snap on the timeline, crossfades included, which is what plays at the join
+    if (snapToZero) {
+      frame = await nearestZeroCrossing(timeline, frame, Math.round(ZERO_CROSSING_RADIUS * sampleRate));
+      setSnapMark(frame / sampleRate);
+    }
+    const newSegments = splitSegment(segments, frame, Math.round(MIN_CUT_DISTANCE * sampleRate));
+    if (newSegments) {
+      push({ segments: newSegments, zoom });
     }
   };
 
@@ -290,7 +442,7 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
     setSelectedSegmentId(selectedSegmentId === segmentId ? null : segmentId);
   };
 
-  const handleDeleteSegment = async (segmentId: string) => {
+  const handleDeleteSegment = (segmentId: string) => {
     const newSegments = segments.filter(seg => seg.id !== segmentId);
     
     if (newSegments.length === 0) {
@@ -298,34 +450,101 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
       return;
     }
 
-    try {
-      setIsProcessing(true);
-      
-      // Merge remaining segments and update audio buffer
-      const buffers = newSegments.map(seg => seg.buffer);
-      const merged = await AudioUtils.mergeAudioBuffers(buffers);
-      setAudioBuffer(merged);
-      
-      // Recalculate segment times
-      let currentTime = 0;
-      const updatedSegments = newSegments.map(seg => {
-        const newSeg = {
-          ...seg,
-          startTime: currentTime,
-          endTime: currentTime + seg.buffer.duration
-        };
-        currentTime += seg.buffer.duration;
-        return newSeg;
-      });
-      
-      push({ segments: updatedSegments, zoom });
-      setSelectedSegmentId(null);
-      setIsProcessing(false);
-    } catch (error) {
-      console.error('Error deleting segment:', error);
-      alert('Erreur lors de la suppression');
-      setIsProcessing(false);
+    // The segments that follow close the gap on their own
+    push({ segments: newSegments, zoom });
+    setSelectedSegmentId(null);
+  };
+
+  // Range edits rebuild the segments around the range, so the segment
+  // selection no longer points anywhere
+  const pushRangeEdit = (newSegments: EditSegment[], newSelection: TimeRange | null) => {
+    push({ segments: newSegments, zoom });
+    setSelectedSegmentId(null);
+    setSelection(newSelection);
+  };
+
+  const currentFrame = () => Math.round(Math.min(currentTime, duration) * source!.sampleRate);
+
+  const handleCopy = () => {
+    if (!selectedFrames) return;
+    setClipboard(sliceEditList(segments, selectedFrames.start, selectedFrames.end));
+  };
+
+  const handleDeleteSelection = () => {
+    if (!selectedFrames || !source) return;
+    const newSegments = removeRange(segments, selectedFrames.start, selectedFrames.end);
+    if (newSegments.length === 0) {
+      alert('Vous devez garder au moins un segment');
+      return;
     }
+    pushRangeEdit(newSegments, null);
+    seek(selectedFrames.start / source.sampleRate);
+  };
+
+  const handleCut = () => {
+    if (!selectedFrames) return;
+    handleCopy();
+    handleDeleteSelection();
+  };
+
+  // Pastes over the selection, or at the playhead without one; the pasted
+  // audio is selected afterwards
+  const handlePaste = () => {
+    if (!clipboard || !source) return;
+    const { sampleRate } = source;
+    const at = selectedFrames ? selectedFrames.start : currentFrame();
+    const newSegments = selectedFrames
+      ? replaceRange(segments, selectedFrames.start, selectedFrames.end, clipboard)
+      : insertAt(segments, at, clipboard);
+    pushRangeEdit(newSegments, { start: at / sampleRate, end: (at + editListLength(clipboard)) / sampleRate });
+  };
+
+  const handleSilenceSelection = () => {
+    if (!selectedFrames) return;
+    pushRangeEdit(replaceRange(segments, selectedFrames.start, selectedFrames.end), selection);
+  };
+
+  const handleInsertSilence = () => {
+    if (!source) return;
+    const { sampleRate } = source;
+    const length = Math.round(silenceSeconds * sampleRate);
+    if (!(length > 0)) {
+      alert('Durée de silence invalide');
+      return;
+    }
+    const at = selectedFrames ? selectedFrames.start : currentFrame();
+    pushRangeEdit(insertAt(segments, at, [silentSegment(length)]), { start: at / sampleRate, end: (at + length) / sampleRate });
+  };
+
+  const handleCropToSelection = () => {
+    if (!selectedFrames) return;
+    pushRangeEdit(sliceEditList(segments, selectedFrames.start, selectedFrames.end), null);
+    seek(0);
+  };
+
+  const handleApplySilences = (deleteSilences: boolean) => {
+    if (!silencePreview || silencePreview.length === 0) return;
+
+    let newSegments: EditSegment[];
+    if (deleteSilences) {
+      // From the end, so the earlier silences stay where they were detected
+      newSegments = silencePreview.reduceRight(
+        (current, silence) => removeRange(current, silence.start, silence.end),
+        segments
+      );
+      if (newSegments.length === 0) {
+        alert('Vous devez garder au moins un segment');
+        return;
+      }
+    } else {
+      newSegments = silenceSplitPoints(silencePreview, editListLength(segments)).reduce(
+        (current, frame) => splitSegment(current, frame) ?? current,
+        segments
+      );
+    }
+
+    pushRangeEdit(newSegments, null);
+    setShowSilencePanel(false);
   };
 
   const handleZoomIn = () => {
@@ -338,45 +557,121 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
     push({ segments, zoom: newZoom });
   };
 
-  const handleDownload = async (format: string, bitrate: number, customFileName?: string) => {
-    if (segments.length === 0) return;
+  const handleDownload = async (
+    options: ExportOptions,
+    customFileName: string | undefined,
+    control: EncodeControl,
+    split?: SplitExportOptions
+  ) => {
+    if (!source || !timeline || segments.length === 0) return;
 
     try {
-      setIsProcessing(true);
-      const buffers = segments.map(seg => seg.buffer);
-      const final = await AudioUtils.mergeAudioBuffers(buffers);
-      
-      let blob: Blob;
-      
-      switch (format) {
-        case 'wav':
-          blob = AudioEncoders.audioBufferToWav(final);
-          break;
-        case 'mp3':
-          blob = await AudioEncoders.audioBufferToMp3(final, bitrate);
-          break;
-        case 'flac':
-          blob = await AudioEncoders.audioBufferToFlac(final);
-          break;
-        default:
-          blob = AudioEncoders.audioBufferToWav(final);
+      if (split) {
+        await downloadSegmentsAsZip(options, customFileName || fileName.replace(/\.[^/.]+$/, ''), control, split);
+        return;
       }
+
+      // The only time the whole timeline is rendered at once
+      const blob = await AudioEncoders.encode(await readAudioBuffer(timeline), options, control);
       
-      const filename = (customFileName || fileName.replace(/\.[^/.]+$/, '') + '_edited') + `.${format}`;
+      const filename = (customFileName || fileName.replace(/\.[^/.]+$/, '') + '_edited') + `.${options.format}`;
       AudioUtils.downloadBlob(blob, filename);
-      setIsProcessing(false);
+      if (options.cueSheet && options.metadata?.chapters) {
+        const cueSheet = buildCueSheet(filename, options.metadata, options.metadata.chapters);
+        AudioUtils.downloadBlob(new Blob([cueSheet], { type: 'application/x-cue' }), filename.replace(/\.[^.]+$/, '.cue'));
+      }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error downloading:', error);
       alert('Erreur lors du téléchargement');
-      setIsProcessing(false);
     }
   };
 
+  // Segment boundaries become chapter marks in the merged export
+  const segmentChapters = segments.length > 1
+    ? chaptersFromSegments(segmentTimeline, i => `Chapitre ${i + 1}`)
+    : undefined;
+
+  // Encode every segment on its own (in parallel, through the encoder pool)
+  // and pack the files into one ZIP
+  const downloadSegmentsAsZip = async (
+    options: ExportOptions,
+    baseName: string,
+    control: EncodeControl,
+    split: SplitExportOptions
+  ) => {
+    if (!source) return;
+    const count = segments.length;
+    const usedNames = new Set<string>();
+
+    const names = segmentTimeline.map((segment, i) => {
+      const name = applyFileNamePattern(split.namePattern, {
+        name: baseName,
+        index: i + 1,
+        count,
+        start: segment.startTime,
+        end: segment.endTime
+      });
+      // Patterns without {index} can produce duplicates
+      let unique = name;
+      for (let n = 2; usedNames.has(unique); n++) {
+        unique = `${name}_${n}`;
+      }
+      usedNames.add(unique);
+      return `${unique}.${options.format}`;
+    });
+
+    // One segment at a time: only its rendering is held while it encodes,
+    // however long the recording
+    const files: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const segmentBuffer = await renderSegment(source, segments[i]);
+      const buffer = split.fadeIn || split.fadeOut
+        ? await AudioUtils.applyFade(segmentBuffer, split.fadeIn, split.fadeOut, split.fadeDuration)
+        : segmentBuffer;
+
+      const data = await AudioEncoders.encode(buffer, {
+        ...options,
+        metadata: { ...options.metadata, trackNumber: `${i + 1}/${count}` }
+      }, {
+        signal: control.signal,
+        onProgress: (value) => control.onProgress?.((i + value) / count)
+      });
+
+      files.push({ name: names[i], data });
+    }
+
+    AudioUtils.downloadBlob(await createZip(files), `${baseName}.zip`);
+  };
+
+  // Timeline position under a pointer, in seconds
+  const timeAtClientX = (clientX: number) => {
+    const zoomedDiv = waveformContainerRef.current?.firstElementChild as HTMLElement | null | undefined;
+    if (!zoomedDiv) return null;
+    const rect = zoomedDiv.getBoundingClientRect();
+    return Math.max(0, Math.min(((clientX - rect.left) / rect.width) * duration, duration));
+  };
+
+  const handleSelectionMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (event.button !== 0 || !timeline) return;
+    const anchor = timeAtClientX(event.clientX);
+    if (anchor === null) return;
+    // Keeps the browser from selecting text while dragging
+    event.preventDefault();
+    didSelectRef.current = false;
+    setSelectionDrag({ anchor, clientX: event.clientX });
+  };
+
   const handleCanvasClick = (event: React.MouseEvent<HTMLDivElement>) => {
-    if (!waveformContainerRef.current || !audioBuffer || isDraggingPlayhead) return;
+    if (!waveformContainerRef.current || !timeline || isDraggingPlayhead) return;
+    if (didSelectRef.current) {
+      didSelectRef.current = false;
+      return;
+    }
 
-    // Deselect any selected segment when clicking on timeline
+    // Deselect any selected segment or range when clicking on timeline
     setSelectedSegmentId(null);
+    setSelection(null);
 
     // Get the inner div (zoomed content)
     const zoomedDiv = waveformContainerRef.current.firstElementChild as HTMLElement;
@@ -409,7 +704,7 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
           <p className="text-xs sm:text-sm text-neutral-400">Éditez avec précision • Ctrl+Z pour annuler</p>
         </div>
         
-        {audioBuffer && (
+        {timeline && (
           <div className="flex gap-2 w-full sm:w-auto justify-center sm:justify-end">
             <button
               onClick={undo}
@@ -437,7 +732,7 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
         )}
       </div>
 
-      {!audioBuffer ? (
+      {!timeline ? (
         <div className="flex-1 flex items-center justify-center">
           <div
             className="w-full max-w-2xl min-h-[400px] border-2 border-dashed border-neutral-700 rounded-xl flex items-center justify-center bg-neutral-950 hover:border-primary-500 hover:bg-neutral-900 transition-all cursor-pointer"
@@ -460,7 +755,7 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
             <input
               ref={fileInputRef}
               type="file"
-              accept="audio/*,.mp3,.wav,.ogg,.flac,.aac,.m4a,.wma,.aiff,.aif,.opus,.webm,.amr,.3gp,.caf,.mid,.midi,.ra,.rm,.au,.snd,.mka,.oga,.spx,.wv,.ape,.ac3,.dts,.alac,audio/mpeg,audio/wav,audio/wave,audio/x-wav,audio/ogg,audio/flac,audio/aac,audio/mp4,audio/x-m4a,audio/x-ms-wma,audio/aiff,audio/x-aiff,audio/opus,audio/webm,audio/amr,audio/3gpp,audio/x-caf,audio/midi,audio/x-midi,audio/x-realaudio,audio/basic,audio/x-matroska,audio/x-speex,audio/x-wavpack,audio/x-ape,audio/ac3,audio/x-dts,audio/x-alac"
+              accept="audio/*,.mp3,.wav,.ogg,.flac,.aac,.m4a,.wma,.aiff,.aif,.opus,.webm,.amr,.3gp,.caf,.mid,.midi,.ra,.rm,.au,.snd,.mka,.oga,.spx,.wv,.ape,.ac3,.dts,.alac,audio/mpeg,audio/wav,audio/wave,audio/x-wav,audio/ogg,audio/flac,audio/aac,audio/mp4,audio/x-m4a,audio/x-ms-wma,audio/aiff,audio/x-aiff,audio/opus,audio/webm,audio/amr,audio/3gpp,audio/x-caf,audio/midi,audio/x-midi,audio/x-realaudio,audio/basic,audio/x-matroska,audio/x-speex,audio/x-wavpack,audio/x-ape,audio/ac3,audio/x-dts,audio/x-alac,video/*,.mp4,.m4v,.mov,.mkv,.avi,.mpg,.mpeg,.pcm,.raw"
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -474,6 +769,12 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-3 sm:mb-4 gap-2">
               <div className="text-xs sm:text-sm text-neutral-400">
                 {segments.length} segment{segments.length > 1 ? 's' : ''} • Touchez pour sélectionner
+                {decodeInfo && <DecodeInfoLabel decode={decodeInfo} className="block text-xs" />}
+                {timeline && (
+                  <span className="block text-xs text-neutral-500">
+                    {channelLayoutName(timeline.numberOfChannels)} • {channelLabels(timeline.numberOfChannels).join(' ')}
+                  </span>
+                )}
               </div>
               <div className="flex gap-1.5 sm:gap-2 flex-wrap">
                 <button
@@ -528,6 +829,54 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
                     <path d="M3 3l10 10M13 3L3 13" strokeLinecap="round"/>
                   </svg>
                 </button>
+
+                {/* Zero-crossing snapping for cuts and edges */}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSnapToZero(!snapToZero);
+                  }}
+                  className={`px-3 py-1.5 rounded text-sm transition-colors ${
+                    snapToZero ? 'bg-primary-500 text-white' : 'bg-neutral-800 hover:bg-neutral-700 text-neutral-100'
+                  }`}
+                  title="Aligner les coupes et les bords des segments sur le passage par zéro le plus proche"
+                >
+                  Zéro
+                </button>
+
+                {/* Split on silence */}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowSilencePanel(!showSilencePanel);
+                    setSilencePreview(null);
+                  }}
+                  disabled={isProcessing}
+                  className={`px-3 py-1.5 rounded text-sm transition-colors disabled:opacity-30 ${
+                    showSilencePanel ? 'bg-primary-500 text-white' : 'bg-neutral-800 hover:bg-neutral-700 text-neutral-100'
+                  }`}
+                  title="Découper automatiquement sur les silences"
+                >
+                  Silences
+                </button>
+
+                {/* Separator */}
+                <div className="w-px h-6 bg-neutral-700 mx-1"></div>
+
+                {/* Crossfade at every join */}
+                <label className="flex items-center gap-1.5 text-xs text-neutral-400" title="Fondu enchaîné automatique à chaque jonction entre segments">
+                  Fondu enchaîné
+                  <select
+                    value={crossfadeMs}
+                    onChange={(e) => setCrossfadeMs(Number(e.target.value))}
+                    onClick={(e) => e.stopPropagation()}
+                    className="px-2 py-1.5 bg-neutral-800 text-neutral-100 rounded text-sm focus:outline-none"
+                  >
+                    {CROSSFADE_CHOICES.map((ms) => (
+                      <option key={ms} value={ms}>{ms === 0 ? 'Aucun' : `${ms} ms`}</option>
+                    ))}
+                  </select>
+                </label>
               </div>
             </div>
 
@@ -535,6 +884,7 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
             <div
               ref={waveformContainerRef}
               className="relative h-32 sm:h-40 md:h-48 bg-neutral-950 rounded-lg overflow-x-auto overflow-y-hidden mb-3 sm:mb-4 cursor-pointer touch-pan-x"
+              onMouseDown={handleSelectionMouseDown}
               onClick={(e) => {
                 e.stopPropagation();
                 handleCanvasClick(e);
@@ -550,16 +900,25 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
 
                 {/* Segments avec poignées de redimensionnement */}
                 {segments.map((segment, index) => {
-                  const left = (segment.startTime / duration) * 100;
-                  const segmentWidth = ((segment.endTime - segment.startTime) / duration) * 100;
+                  const { startTime, endTime } = segmentTimeline[index];
+                  const left = (startTime / duration) * 100;
+                  const segmentWidth = ((endTime - startTime) / duration) * 100;
                   const isSelected = segment.id === selectedSegmentId;
                   const visualGap = 2;
+                  const { sampleRate } = source!;
+                  const fadeInLength = Math.min(segment.fadeIn?.length ?? 0, segment.length);
+                  const fadeOutLength = Math.min(segment.fadeOut?.length ?? 0, segment.length);
 
                   return (
                     <div
                       key={segment.id}
                       onClick={(e) => {
                         e.stopPropagation();
+                        if (didSelectRef.current) {
+                          didSelectRef.current = false;
+                          return;
+                        }
+                        setSelection(null);
                         handleSegmentClick(segment.id);
                       }}
                       className={`absolute top-2 bottom-2 transition-all rounded-lg ${
@@ -573,12 +932,44 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
                         marginRight: `${visualGap}px`
                       }}
                     >
+                      {/* Fade shapes: the shaded area is what the fade takes away */}
+                      <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                        {segment.fadeIn && fadeInLength > 0 && (
+                          <polygon points={fadeShape(segment.fadeIn, segment.length, 'in')} fill="rgba(0, 0, 0, 0.45)" />
+                        )}
+                        {segment.fadeOut && fadeOutLength > 0 && (
+                          <polygon points={fadeShape(segment.fadeOut, segment.length, 'out')} fill="rgba(0, 0, 0, 0.45)" />
+                        )}
+                      </svg>
+
+                      {/* Fade handles, dragged inwards from the top corners */}
+                      <div
+                        className="absolute top-0 w-3 h-3 -translate-x-1/2 rounded-full bg-neutral-100 border border-neutral-900 cursor-ew-resize z-20"
+                        style={{ left: `${(fadeInLength / segment.length) * 100}%` }}
+                        onClick={(e) => e.stopPropagation()}
+                        onMouseDown={(e) => {
+                          e.stopPropagation();
+                          setResizingSegment({ id: segment.id, edge: 'fade-in', origin: segments, anchor: startTime + fadeInLength / sampleRate });
+                        }}
+                        title="Glissez pour régler le fondu d'entrée"
+                      />
+                      <div
+                        className="absolute top-0 w-3 h-3 translate-x-1/2 rounded-full bg-neutral-100 border border-neutral-900 cursor-ew-resize z-20"
+                        style={{ right: `${(fadeOutLength / segment.length) * 100}%` }}
+                        onClick={(e) => e.stopPropagation()}
+                        onMouseDown={(e) => {
+                          e.stopPropagation();
+                          setResizingSegment({ id: segment.id, edge: 'fade-out', origin: segments, anchor: endTime - fadeOutLength / sampleRate });
+                        }}
+                        title="Glissez pour régler le fondu de sortie"
+                      />
+
                       {/* Left resize handle - Touch-friendly */}
                       <div
                         className="absolute left-0 top-0 bottom-0 w-3 sm:w-2 cursor-ew-resize hover:bg-primary-500 hover:bg-opacity-50 active:bg-primary-500 active:bg-opacity-70 z-10"
                         onMouseDown={(e) => {
                           e.stopPropagation();
-                          setResizingSegment({ id: segment.id, edge: 'start' });
+                          setResizingSegment({ id: segment.id, edge: 'start', origin: segments, anchor: startTime });
                         }}
                         title="Glissez pour ajuster le début"
                       />
@@ -590,7 +981,7 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
                             ? 'bg-primary-500 text-white shadow-lg'
                             : 'bg-neutral-900 text-neutral-300'
                         }`}>
-                          Segment {index + 1}
+                          {segment.silent ? 'Silence' : `Segment ${index + 1}`}
                         </div>
                       </div>
 
@@ -599,7 +990,7 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
                         className="absolute right-0 top-0 bottom-0 w-3 sm:w-2 cursor-ew-resize hover:bg-primary-500 hover:bg-opacity-50 active:bg-primary-500 active:bg-opacity-70 z-10"
                         onMouseDown={(e) => {
                           e.stopPropagation();
-                          setResizingSegment({ id: segment.id, edge: 'end' });
+                          setResizingSegment({ id: segment.id, edge: 'end', origin: segments, anchor: endTime });
                         }}
                         title="Glissez pour ajuster la fin"
                       />
@@ -607,6 +998,41 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
                   );
                 })}
 
+                {/* Detected silences */}
+                {silencePreview?.map((silence) => (
+                  <div
+                    key={silence.start}
+                    className="absolute top-0 bottom-0 bg-red-500 bg-opacity-30 pointer-events-none z-20"
+                    style={{
+                      left: `${(silence.start / timeline.length) * 100}%`,
+                      width: `${((silence.end - silence.start) / timeline.length) * 100}%`
+                    }}
+                  />
+                ))}
+
+                {/* Selected range */}
+                {selection && (
+                  <div
+                    className="absolute top-0 bottom-0 bg-primary-300 bg-opacity-25 border-x-2 border-primary-300 pointer-events-none z-20"
+                    style={{
+                      left: `${(selection.start / duration) * 100}%`,
+                      width: `${((selection.end - selection.start) / duration) * 100}%`
+                    }}
+                  />
+                )}
+
+                {/* Where the last cut or edge snapped */}
+                {snapMark !== null && (
+                  <div
+                    className="absolute top-0 bottom-0 w-px bg-emerald-400 pointer-events-none z-20"
+                    style={{ left: `${(snapMark / duration) * 100}%` }}
+                  >
+                    <div className="absolute bottom-1 left-1 bg-black text-emerald-400 text-xs px-1.5 py-0.5 rounded font-mono whitespace-nowrap">
+                      {snapMark.toFixed(3)} s
+                    </div>
+                  </div>
+                )}
+
                 {/* Playhead - DRAGGABLE - Touch and Mouse support */}
                 <div
                   onMouseDown={handlePlayheadMouseDown}
@@ -632,6 +1058,96 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
               </div>
             </div>
 
+            {showSilencePanel && (
+              <SilenceSplitPanel
+                source={timeline}
+                silences={silencePreview}
+                onDetect={setSilencePreview}
+                onApply={handleApplySilences}
+                onClose={() => {
+                  setShowSilencePanel(false);
+                  setSilencePreview(null);
+                }}
+              />
+            )}
+
+            {/* Range selection and clipboard */}
+            <div className="flex flex-wrap items-center gap-1.5 sm:gap-2 mb-3 sm:mb-4" onClick={(e) => e.stopPropagation()}>
+              <span className="text-xs text-neutral-400 mr-1">
+                {selectedFrames && source
+                  ? `Sélection ${AudioUtils.formatTime(selectedFrames.start / source.sampleRate)} – ${AudioUtils.formatTime(selectedFrames.end / source.sampleRate)}`
+                  : "Glissez sur la forme d'onde pour sélectionner"}
+              </span>
+              {([
+                { label: 'Couper', title: 'Couper la sélection (Ctrl+X)', onClick: handleCut, disabled: !selectedFrames },
+                { label: 'Copier', title: 'Copier la sélection (Ctrl+C)', onClick: handleCopy, disabled: !selectedFrames },
+                { label: 'Coller', title: 'Coller à la place de la sélection ou à la position actuelle (Ctrl+V)', onClick: handlePaste, disabled: !clipboard },
+                { label: 'Silence', title: 'Remplacer la sélection par du silence', onClick: handleSilenceSelection, disabled: !selectedFrames },
+                { label: 'Rogner', title: 'Ne garder que la sélection', onClick: handleCropToSelection, disabled: !selectedFrames }
+              ]).map((action) => (
+                <button
+                  key={action.label}
+                  onClick={action.onClick}
+                  disabled={action.disabled || isProcessing}
+                  className="px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 text-neutral-100 rounded text-sm transition-colors disabled:opacity-30"
+                  title={action.title}
+                >
+                  {action.label}
+                </button>
+              ))}
+
+              {/* Separator */}
+              <div className="w-px h-6 bg-neutral-700 mx-1"></div>
+
+              <label className="flex items-center gap-1.5 text-xs text-neutral-400">
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={Number.isNaN(silenceSeconds) ? '' : silenceSeconds}
+                  onChange={(e) => setSilenceSeconds(e.target.valueAsNumber)}
+                  className="w-16 px-2 py-1.5 bg-neutral-800 text-neutral-100 rounded text-sm focus:outline-none"
+                />
+                s
+              </label>
+              <button
+                onClick={handleInsertSilence}
+                disabled={isProcessing}
+                className="px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 text-neutral-100 rounded text-sm transition-colors disabled:opacity-30"
+                title="Insérer du silence au début de la sélection ou à la position actuelle"
+              >
+                Insérer un silence
+              </button>
+            </div>
+
+            {/* Fade curves of the selected segment */}
+            {selectedSegment && source && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-3 sm:mb-4" onClick={(e) => e.stopPropagation()}>
+                {(['in', 'out'] as const).map((edge) => {
+                  const fade = edge === 'in' ? selectedSegment.fadeIn : selectedSegment.fadeOut;
+                  return (
+                    <div key={edge} className="flex items-center gap-2 bg-neutral-950 rounded-lg px-3 py-2">
+                      <span className="text-xs text-neutral-400 whitespace-nowrap">
+                        {edge === 'in' ? "Fondu d'entrée" : 'Fondu de sortie'} • {((fade?.length ?? 0) / source.sampleRate).toFixed(2)} s
+                      </span>
+                      <select
+                        value={fade?.curve ?? DEFAULT_FADE_CURVE}
+                        onChange={(e) => push({
+                          segments: setSegmentFade(segments, selectedSegment.id, edge, { curve: e.target.value as FadeCurve }),
+                          zoom
+                        })}
+                        className="flex-1 min-w-0 px-2 py-1 bg-neutral-900 rounded text-neutral-100 border border-neutral-700 focus:border-primary-500 focus:outline-none text-sm"
+                      >
+                        {FADE_CURVES.map((curve) => (
+                          <option key={curve.id} value={curve.id}>{curve.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Player Controls */}
             <div className="flex items-center justify-between bg-neutral-950 rounded-lg p-4">
               <div className="flex items-center gap-4">
@@ -714,6 +1230,10 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
         onClose={() => setShowExportModal(false)}
         onExport={handleDownload}
         fileName={fileName}
+        initialMetadata={sourceMetadata}
+        audioProperties={timeline ? { duration, numberOfChannels: timeline.numberOfChannels, sampleRate: timeline.sampleRate } : undefined}
+        segmentCount={segments.length}
+        chapters={segmentChapters}
       />
 
       {isProcessing && (
@@ -724,6 +1244,11 @@ export const AudioCutter = ({ audioContext }: AudioCutterProps) => {
           </div>
         </div>
       )}
+
+      <AudioStreamPicker {...streamPickerProps} />
+      <ChannelModePicker {...channelPickerProps} />
+      <RawPcmImportDialog {...rawPcmDialogProps} />
+      <DecodeModePicker {...modePickerProps} keepsAllPages />
     </div>
   );
 };
\ No newline at end of file
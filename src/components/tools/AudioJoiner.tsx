@@ -4,11 +4,24 @@
 import { useState, useRef, useEffect, useCallback, useMemo, memo } from 'react';
 import { AudioUtils } from '@/utils/audioUtils';
 import { AudioEncoders } from '@/utils/audioEncoders';
-import { AudioTrack, AudioSegment } from '@/types';
+import { isAbortError } from '@/utils/encoderPool';
+import { buildCueSheet, normalizeChapters } from '@/utils/chapters';
+import { AudioTrack, AudioSegment, EncodeControl, ExportOptions } from '@/types';
 import { useHistory } from '@/hooks/useHistory';
 import { useAudioPlayer } from '@/hooks/useAudioPlayer';
 import { useWaveform } from '@/hooks/useWaveform';
+import { useAudioStreamPicker } from '@/hooks/useAudioStreamPicker';
+import { useChannelModePicker } from '@/hooks/useChannelModePicker';
+import { useRawPcmImport } from '@/hooks/useRawPcmImport';
+import { useLongFileImport } from '@/hooks/useLongFileImport';
 import { ExportModal } from '@/components/ExportModal';
+import { DecodeInfoLabel } from '@/components/DecodeInfoLabel';
+import { AudioStreamPicker } from '@/components/AudioStreamPicker';
+import { ChannelModePicker } from '@/components/ChannelModePicker';
+import { RawPcmImportDialog } from '@/components/RawPcmImportDialog';
+import { DecodeModePicker } from '@/components/DecodeModePicker';
+import { DecodeRangePicker } from '@/components/DecodeRangePicker';
+import { channelLabels, channelLayoutName } from '@/utils/channelMixer';
 
 interface AudioJoinerProps {
   audioContext: AudioContext;
@@ -74,6 +87,10 @@ export const AudioJoiner = ({ audioContext }: AudioJoinerProps) => {
   const [isMultiTrackPlaying, setIsMultiTrackPlaying] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { chooseStream, pickerProps: streamPickerProps } = useAudioStreamPicker();
+  const { chooseChannelMode, pickerProps: channelPickerProps } = useChannelModePicker();
+  const { chooseRawPcmSettings, dialogProps: rawPcmDialogProps } = useRawPcmImport();
+  const { chooseDecodeMode, chooseRange, modePickerProps, rangePickerProps } = useLongFileImport();
   const mixTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
   const trackSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const trackAnimationFrameRef = useRef<number | null>(null);
@@ -471,7 +488,7 @@ export const AudioJoiner = ({ audioContext }: AudioJoinerProps) => {
 
     for (const file of files) {
       try {
-        const buffer = await AudioUtils.loadAudioFile(file);
+        const { buffer, metadata, decode } = await AudioUtils.loadAudioFile(file, undefined, { chooseStream, chooseChannelMode, chooseRawPcmSettings, chooseDecodeMode, chooseRange });
         const initialSegment: AudioSegment = {
           id: Date.now().toString() + Math.random(),
           buffer,
@@ -486,17 +503,22 @@ export const AudioJoiner = ({ audioContext }: AudioJoinerProps) => {
           buffer,
           duration: buffer.duration,
           name: file.name,
+          metadata,
+          decode,
           segments: [initialSegment],
           selectedSegmentId: null
         });
       } catch (error) {
-        console.error('Error loading file:', error);
+        // A closed import dialog skips that file only
+        if (!isAbortError(error)) {
+          console.error('Error loading file:', error);
+        }
       }
     }
 
     push([...tracks, ...newTracks]);
     setIsProcessing(false);
-  }, [tracks, push]);
+  }, [tracks, push, chooseStream, chooseChannelMode, chooseRawPcmSettings, chooseDecodeMode, chooseRange]);
 
   const handleCutTrack = useCallback(async (trackId: string, cutTime: number) => {
     const trackIndex = tracks.findIndex(t => t.id === trackId);
@@ -694,38 +716,36 @@ export const AudioJoiner = ({ audioContext }: AudioJoinerProps) => {
     });
   }, [tracks, push]);
 
-  const handleDownload = useCallback(async (format: string, bitrate: number, customFileName?: string) => {
+  const handleDownload = useCallback(async (options: ExportOptions, customFileName: string | undefined, control: EncodeControl) => {
     if (!mergedBuffer) return;
 
     try {
-      setIsProcessing(true);
-      
-      let blob: Blob;
-      
-      switch (format) {
-        case 'wav':
-          blob = AudioEncoders.audioBufferToWav(mergedBuffer);
-          break;
-        case 'mp3':
-          blob = await AudioEncoders.audioBufferToMp3(mergedBuffer, bitrate);
-          break;
-        case 'flac':
-          blob = await AudioEncoders.audioBufferToFlac(mergedBuffer);
-          break;
-        default:
-          blob = AudioEncoders.audioBufferToWav(mergedBuffer);
-      }
+      const blob = await AudioEncoders.encode(mergedBuffer, options, control);
       
-      const filename = (customFileName || 'merged_audio') + `.${format}`;
+      const filename = (customFileName || 'merged_audio') + `.${options.format}`;
       AudioUtils.downloadBlob(blob, filename);
-      setIsProcessing(false);
+      if (options.cueSheet && options.metadata?.chapters) {
+        const cueSheet = buildCueSheet(filename, options.metadata, options.metadata.chapters);
+        AudioUtils.downloadBlob(new Blob([cueSheet], { type: 'application/x-cue' }), filename.replace(/\.[^.]+$/, '.cue'));
+      }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error downloading:', error);
       alert('Erreur lors du téléchargement');
-      setIsProcessing(false);
     }
   }, [mergedBuffer]);
 
+  // Chapter marks at every segment boundary of every track, titled after the track
+  const chapters = useMemo(() => {
+    if (!mergedBuffer) return undefined;
+    const marks = tracks.flatMap(track => track.segments.map((segment, i) => ({
+      title: track.segments.length > 1 ? `${track.metadata?.title || track.name} (${i + 1})` : track.metadata?.title || track.name,
+      startTime: segment.startTime
+    })));
+    const normalized = normalizeChapters(marks, mergedBuffer.duration);
+    return normalized.length > 1 ? normalized : undefined;
+  }, [tracks, mergedBuffer]);
+
   // Clear all selections without affecting history
   const clearSelections = useCallback(() => {
     setTrackSelections({});
@@ -866,7 +886,7 @@ export const AudioJoiner = ({ audioContext }: AudioJoinerProps) => {
             <input
               ref={fileInputRef}
               type="file"
-              accept="audio/*,.mp3,.wav,.ogg,.flac,.aac,.m4a,.wma,.aiff,.aif,.opus,.webm,.amr,.3gp,.caf,.mid,.midi,.ra,.rm,.au,.snd,.mka,.oga,.spx,.wv,.ape,.ac3,.dts,.alac,audio/mpeg,audio/wav,audio/wave,audio/x-wav,audio/ogg,audio/flac,audio/aac,audio/mp4,audio/x-m4a,audio/x-ms-wma,audio/aiff,audio/x-aiff,audio/opus,audio/webm,audio/amr,audio/3gpp,audio/x-caf,audio/midi,audio/x-midi,audio/x-realaudio,audio/basic,audio/x-matroska,audio/x-speex,audio/x-wavpack,audio/x-ape,audio/ac3,audio/x-dts,audio/x-alac"
+              accept="audio/*,.mp3,.wav,.ogg,.flac,.aac,.m4a,.wma,.aiff,.aif,.opus,.webm,.amr,.3gp,.caf,.mid,.midi,.ra,.rm,.au,.snd,.mka,.oga,.spx,.wv,.ape,.ac3,.dts,.alac,audio/mpeg,audio/wav,audio/wave,audio/x-wav,audio/ogg,audio/flac,audio/aac,audio/mp4,audio/x-m4a,audio/x-ms-wma,audio/aiff,audio/x-aiff,audio/opus,audio/webm,audio/amr,audio/3gpp,audio/x-caf,audio/midi,audio/x-midi,audio/x-realaudio,audio/basic,audio/x-matroska,audio/x-speex,audio/x-wavpack,audio/x-ape,audio/ac3,audio/x-dts,audio/x-alac,video/*,.mp4,.m4v,.mov,.mkv,.avi,.mpg,.mpeg,.pcm,.raw"
               multiple
               onChange={handleFilesSelect}
               className="hidden"
@@ -960,7 +980,7 @@ export const AudioJoiner = ({ audioContext }: AudioJoinerProps) => {
             <input
               ref={fileInputRef}
               type="file"
-              accept="audio/*,.mp3,.wav,.ogg,.flac,.aac,.m4a,.wma,.aiff,.aif,.opus,.webm,.amr,.3gp,.caf,.mid,.midi,.ra,.rm,.au,.snd,.mka,.oga,.spx,.wv,.ape,.ac3,.dts,.alac,audio/mpeg,audio/wav,audio/wave,audio/x-wav,audio/ogg,audio/flac,audio/aac,audio/mp4,audio/x-m4a,audio/x-ms-wma,audio/aiff,audio/x-aiff,audio/opus,audio/webm,audio/amr,audio/3gpp,audio/x-caf,audio/midi,audio/x-midi,audio/x-realaudio,audio/basic,audio/x-matroska,audio/x-speex,audio/x-wavpack,audio/x-ape,audio/ac3,audio/x-dts,audio/x-alac"
+              accept="audio/*,.mp3,.wav,.ogg,.flac,.aac,.m4a,.wma,.aiff,.aif,.opus,.webm,.amr,.3gp,.caf,.mid,.midi,.ra,.rm,.au,.snd,.mka,.oga,.spx,.wv,.ape,.ac3,.dts,.alac,audio/mpeg,audio/wav,audio/wave,audio/x-wav,audio/ogg,audio/flac,audio/aac,audio/mp4,audio/x-m4a,audio/x-ms-wma,audio/aiff,audio/x-aiff,audio/opus,audio/webm,audio/amr,audio/3gpp,audio/x-caf,audio/midi,audio/x-midi,audio/x-realaudio,audio/basic,audio/x-matroska,audio/x-speex,audio/x-wavpack,audio/x-ape,audio/ac3,audio/x-dts,audio/x-alac,video/*,.mp4,.m4v,.mov,.mkv,.avi,.mpg,.mpeg,.pcm,.raw"
               multiple
               onChange={handleFilesSelect}
               className="hidden"
@@ -1000,6 +1020,9 @@ export const AudioJoiner = ({ audioContext }: AudioJoinerProps) => {
         onClose={closeExportModal}
         onExport={handleDownload}
         fileName="merged_audio"
+        initialMetadata={tracks[0]?.metadata}
+        audioProperties={mergedBuffer ?? undefined}
+        chapters={chapters}
       />
 
       {isProcessing && (
@@ -1010,6 +1033,12 @@ export const AudioJoiner = ({ audioContext }: AudioJoinerProps) => {
           </div>
         </div>
       )}
+
+      <AudioStreamPicker {...streamPickerProps} />
+      <ChannelModePicker {...channelPickerProps} />
+      <RawPcmImportDialog {...rawPcmDialogProps} />
+      <DecodeModePicker {...modePickerProps} />
+      <DecodeRangePicker {...rangePickerProps} />
     </div>
   );
 };
@@ -1302,6 +1331,10 @@ const TrackTimeline = ({
             <div className="text-xs text-neutral-400">
               {segmentInfo.count} segment{segmentInfo.count > 1 ? 's' : ''} • {segmentInfo.durationFormatted}
             </div>
+            {track.decode && <DecodeInfoLabel decode={track.decode} className="text-xs" />}
+            <div className="text-xs text-neutral-500">
+              {channelLayoutName(track.buffer.numberOfChannels)} • {channelLabels(track.buffer.numberOfChannels).join(' ')}
+            </div>
           </div>
         </div>
 
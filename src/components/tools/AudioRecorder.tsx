@@ -3,7 +3,10 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { AudioUtils } from '@/utils/audioUtils';
+import { AudioEncoders } from '@/utils/audioEncoders';
+import { isAbortError } from '@/utils/encoderPool';
 import { ExportModal } from '@/components/ExportModal';
+import { EncodeControl, ExportOptions } from '@/types';
 
 interface AudioRecorderProps {
   audioContext: AudioContext;
@@ -15,7 +18,8 @@ export const AudioRecorder = ({ audioContext }: AudioRecorderProps) => {
   const [recordingTime, setRecordingTime] = useState(0);
   const [recordings, setRecordings] = useState<Array<{ id: string; blob: Blob; duration: number; date: Date }>>([]);
   const [showExportModal, setShowExportModal] = useState(false);
-  const [selectedRecording, setSelectedRecording] = useState<{ blob: Blob; duration: number } | null>(null);
+  // Decoded when the export dialog opens, so its estimates use the real rate and channels
+  const [selectedRecording, setSelectedRecording] = useState<AudioBuffer | null>(null);
   const [playingId, setPlayingId] = useState<string | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -206,18 +210,31 @@ export const AudioRecorder = ({ audioContext }: AudioRecorderProps) => {
     draw();
   };
 
-  const handleDownload = (format: string, _bitrate: number, customFileName?: string) => {
+  // Recordings are decoded and re-encoded so the export settings (and presets) apply
+  const handleDownload = async (options: ExportOptions, customFileName: string | undefined, control: EncodeControl) => {
     if (!selectedRecording) return;
 
-    const filename = (customFileName || `recording_${new Date().toISOString().slice(0, 10)}`) + `.${format}`;
-    AudioUtils.downloadBlob(selectedRecording.blob, filename);
-    setShowExportModal(false);
-    setSelectedRecording(null);
+    try {
+      const blob = await AudioEncoders.encode(selectedRecording, options, control);
+
+      const filename = (customFileName || `recording_${new Date().toISOString().slice(0, 10)}`) + `.${options.format}`;
+      AudioUtils.downloadBlob(blob, filename);
+      setSelectedRecording(null);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Error exporting recording:', error);
+      alert("Erreur lors de l'export de l'enregistrement");
+    }
   };
 
-  const openExportModal = (blob: Blob, duration: number) => {
-    setSelectedRecording({ blob, duration });
-    setShowExportModal(true);
+  const openExportModal = async (blob: Blob) => {
+    try {
+      setSelectedRecording(await audioContext.decodeAudioData(await blob.arrayBuffer()));
+      setShowExportModal(true);
+    } catch (error) {
+      console.error('Error decoding recording:', error);
+      alert("Erreur lors de la lecture de l'enregistrement");
+    }
   };
 
   const playRecording = (id: string, blob: Blob) => {
@@ -355,6 +372,7 @@ export const AudioRecorder = ({ audioContext }: AudioRecorderProps) => {
         }}
         onExport={handleDownload}
         fileName={`recording_${new Date().toISOString().slice(0, 10)}`}
+        audioProperties={selectedRecording ?? undefined}
       />
 
       {/* Recordings List - Responsive */}
@@ -394,7 +412,7 @@ export const AudioRecorder = ({ audioContext }: AudioRecorderProps) => {
 
                 <div className="flex gap-1.5 sm:gap-2">
                   <button
-                    onClick={() => openExportModal(recording.blob, recording.duration)}
+                    onClick={() => openExportModal(recording.blob)}
                     className="w-11 h-11 sm:w-10 sm:h-10 rounded-full bg-neutral-800 hover:bg-[#8286ef] active:bg-[#6b6fdb] flex items-center justify-center transition-colors min-h-[44px] min-w-[44px] sm:min-h-[40px] sm:min-w-[40px]"
                   >
                     <svg width="18" height="18" viewBox="0 0 18 18" fill="none" stroke="currentColor" strokeWidth="2">
@@ -4,7 +4,15 @@
 import { useState, useRef } from 'react';
 import { AudioUtils } from '@/utils/audioUtils';
 import { BPMDetector as BPMDetectorUtil } from '@/utils/bpmDetector';
+import { isAbortError } from '@/utils/encoderPool';
 import { BPMResult } from '@/types';
+import { useAudioStreamPicker } from '@/hooks/useAudioStreamPicker';
+import { useRawPcmImport } from '@/hooks/useRawPcmImport';
+import { useLongFileImport } from '@/hooks/useLongFileImport';
+import { AudioStreamPicker } from '@/components/AudioStreamPicker';
+import { RawPcmImportDialog } from '@/components/RawPcmImportDialog';
+import { DecodeModePicker } from '@/components/DecodeModePicker';
+import { DecodeRangePicker } from '@/components/DecodeRangePicker';
 
 interface BPMDetectorProps {
   audioContext: AudioContext;
@@ -14,6 +22,9 @@ export const BPMDetector = ({ audioContext: _audioContext }: BPMDetectorProps) =
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<BPMResult | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { chooseStream, pickerProps: streamPickerProps } = useAudioStreamPicker();
+  const { chooseRawPcmSettings, dialogProps: rawPcmDialogProps } = useRawPcmImport();
+  const { chooseDecodeMode, chooseRange, modePickerProps, rangePickerProps } = useLongFileImport();
 
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -23,15 +34,17 @@ export const BPMDetector = ({ audioContext: _audioContext }: BPMDetectorProps) =
       setIsAnalyzing(true);
       setResult(null);
 
-      const buffer = await AudioUtils.loadAudioFile(file);
+      const { buffer } = await AudioUtils.loadAudioFile(file, undefined, { chooseStream, chooseRawPcmSettings, chooseDecodeMode, chooseRange });
       const bpmResult = await BPMDetectorUtil.detectBPM(buffer);
       
       setResult(bpmResult);
       setIsAnalyzing(false);
     } catch (error) {
+      setIsAnalyzing(false);
+      // The user closed one of the import dialogs
+      if (isAbortError(error)) return;
       console.error('Error analyzing BPM:', error);
       alert('Erreur lors de l\'analyse');
-      setIsAnalyzing(false);
     }
   };
 
@@ -62,7 +75,7 @@ export const BPMDetector = ({ audioContext: _audioContext }: BPMDetectorProps) =
             <input
               ref={fileInputRef}
               type="file"
-              accept="audio/*,.wma,audio/x-ms-wma"
+              accept="audio/*,video/*,.wma,audio/x-ms-wma,.mp4,.mov,.mkv,.avi,.pcm,.raw"
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -165,6 +178,11 @@ export const BPMDetector = ({ audioContext: _audioContext }: BPMDetectorProps) =
           </div>
         </div>
       )}
+
+      <AudioStreamPicker {...streamPickerProps} />
+      <RawPcmImportDialog {...rawPcmDialogProps} />
+      <DecodeModePicker {...modePickerProps} />
+      <DecodeRangePicker {...rangePickerProps} />
     </div>
   );
 };
\ No newline at end of file
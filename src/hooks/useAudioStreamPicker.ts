@@ -0,0 +1,34 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { useCallback, useState } from 'react';
+import type { AudioStreamChooser } from '@/utils/audioConverter';
+import type { ProbedStream } from '@/utils/ffmpegProbe';
+
+interface PendingChoice {
+  streams: ProbedStream[];
+  resolve: (stream: ProbedStream | null) => void;
+}
+
+/**
+ * Bridges the stream chooser of AudioUtils.loadAudioFile to an
+ * AudioStreamPicker: each call opens the picker until the user answers.
+ */
+export const useAudioStreamPicker = () => {
+  const [pending, setPending] = useState<PendingChoice | null>(null);
+
+  const chooseStream = useCallback<AudioStreamChooser>(
+    (streams) => new Promise(resolve => setPending({ streams, resolve })),
+    []
+  );
+
+  const handleSelect = useCallback((stream: ProbedStream | null) => {
+    pending?.resolve(stream);
+    setPending(null);
+  }, [pending]);
+
+  return {
+    chooseStream,
+    pickerProps: { streams: pending?.streams ?? null, onSelect: handleSelect }
+  };
+};
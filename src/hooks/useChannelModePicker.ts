@@ -0,0 +1,34 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { useCallback, useState } from 'react';
+import type { ChannelImportMode } from '@/types';
+import type { ChannelModeChooser } from '@/utils/audioUtils';
+
+interface PendingChoice {
+  channelCount: number;
+  resolve: (mode: ChannelImportMode | null) => void;
+}
+
+/**
+ * Bridges the channel mode chooser of AudioUtils.loadAudioFile to a
+ * ChannelModePicker, the same way useAudioStreamPicker does for streams
+ */
+export const useChannelModePicker = () => {
+  const [pending, setPending] = useState<PendingChoice | null>(null);
+
+  const chooseChannelMode = useCallback<ChannelModeChooser>(
+    (channelCount) => new Promise(resolve => setPending({ channelCount, resolve })),
+    []
+  );
+
+  const handleSelect = useCallback((mode: ChannelImportMode | null) => {
+    pending?.resolve(mode);
+    setPending(null);
+  }, [pending]);
+
+  return {
+    chooseChannelMode,
+    pickerProps: { channelCount: pending?.channelCount ?? null, onSelect: handleSelect }
+  };
+};
@@ -0,0 +1,17 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { useEffect, useState } from 'react';
+import { FFmpegLoadState, ffmpegService } from '@/utils/ffmpegService';
+
+export const useFFmpegLoadState = (): FFmpegLoadState => {
+  const [state, setState] = useState(() => ffmpegService.getLoadState());
+
+  useEffect(() => {
+    // The state may have changed between the first render and the subscription
+    setState(ffmpegService.getLoadState());
+    return ffmpegService.subscribe(setState);
+  }, []);
+
+  return state;
+};
@@ -0,0 +1,52 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { useCallback, useState } from 'react';
+import type { DecodeMemoryEstimate, DecodeMode, SampleRange } from '@/types';
+import type { DecodeModeChooser, RangeChooser } from '@/utils/audioUtils';
+import type { DecodeRangeRequest } from '@/components/DecodeRangePicker';
+
+interface PendingMode {
+  estimate: DecodeMemoryEstimate;
+  resolve: (mode: DecodeMode | null) => void;
+}
+
+interface PendingRange extends DecodeRangeRequest {
+  resolve: (range: SampleRange | null) => void;
+}
+
+/**
+ * Bridges the decode mode and range choosers of AudioUtils.loadAudioFile
+ * to a DecodeModePicker and a DecodeRangePicker
+ */
+export const useLongFileImport = () => {
+  const [pendingMode, setPendingMode] = useState<PendingMode | null>(null);
+  const [pendingRange, setPendingRange] = useState<PendingRange | null>(null);
+
+  const chooseDecodeMode = useCallback<DecodeModeChooser>(
+    (estimate) => new Promise(resolve => setPendingMode({ estimate, resolve })),
+    []
+  );
+
+  const chooseRange = useCallback<RangeChooser>(
+    (store, maxFrames) => new Promise(resolve => setPendingRange({ store, maxFrames, resolve })),
+    []
+  );
+
+  const handleModeSelect = useCallback((mode: DecodeMode | null) => {
+    pendingMode?.resolve(mode);
+    setPendingMode(null);
+  }, [pendingMode]);
+
+  const handleRangeSelect = useCallback((range: SampleRange | null) => {
+    pendingRange?.resolve(range);
+    setPendingRange(null);
+  }, [pendingRange]);
+
+  return {
+    chooseDecodeMode,
+    chooseRange,
+    modePickerProps: { estimate: pendingMode?.estimate ?? null, onSelect: handleModeSelect },
+    rangePickerProps: { request: pendingRange, onSelect: handleRangeSelect }
+  };
+};
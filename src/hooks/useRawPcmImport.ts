@@ -0,0 +1,55 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { useCallback, useState } from 'react';
+import type { RawPcmSettings } from '@/types';
+import type { RawPcmChooser } from '@/utils/audioUtils';
+import type { RawPcmImportRequest } from '@/components/RawPcmImportDialog';
+import { defaultRawPcmSettings } from '@/utils/rawPcmDecoder';
+import { loadRawPcmSettings, saveRawPcmSettings } from '@/utils/presetStore';
+
+interface PendingImport extends RawPcmImportRequest {
+  extension: string;
+  resolve: (settings: RawPcmSettings | null) => void;
+}
+
+/**
+ * Bridges the raw PCM chooser of AudioUtils.loadAudioFile to a
+ * RawPcmImportDialog. The dialog starts from the settings last confirmed
+ * for the file's extension, and confirmed settings are saved for the next one.
+ */
+export const useRawPcmImport = () => {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+
+  const chooseRawPcmSettings = useCallback<RawPcmChooser>(async (file, data) => {
+    const lastDot = file.name.lastIndexOf('.');
+    const extension = lastDot === -1 ? '' : file.name.substring(lastDot + 1).toLowerCase();
+    const saved = await loadRawPcmSettings(extension).catch(error => {
+      console.warn('Failed to read the saved raw PCM settings:', error);
+      return undefined;
+    });
+
+    return new Promise(resolve => setPending({
+      fileName: file.name,
+      data,
+      initialSettings: saved ?? defaultRawPcmSettings(extension),
+      extension,
+      resolve
+    }));
+  }, []);
+
+  const handleSelect = useCallback((settings: RawPcmSettings | null) => {
+    if (pending && settings) {
+      saveRawPcmSettings(pending.extension, settings).catch(error => {
+        console.warn('Failed to save the raw PCM settings:', error);
+      });
+    }
+    pending?.resolve(settings);
+    setPending(null);
+  }, [pending]);
+
+  return {
+    chooseRawPcmSettings,
+    dialogProps: { request: pending, onSelect: handleSelect }
+  };
+};
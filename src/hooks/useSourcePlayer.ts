@@ -0,0 +1,237 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import type { SampleSource } from '@/types';
+import { readAudioBuffer } from '@/utils/sampleSource';
+
+interface UseSourcePlayerProps {
+  source: SampleSource | null;
+  audioContext: AudioContext | null;
+}
+
+// Length of each buffer read from the source and scheduled, in seconds
+const CHUNK_SECONDS = 2;
+// How far ahead of the playback position chunks are scheduled, in seconds
+const SCHEDULE_AHEAD = 1.5;
+// Time the first chunk gets to be read before it is due, in seconds
+const START_LATENCY = 0.1;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Plays a sample source the way useAudioPlayer plays a buffer, but reads
+ * it a few seconds at a time and schedules the chunks back to back, so
+ * only the part being heard is ever rendered. Chunks are read from the
+ * latest source, so edits made while playing are heard from the next one.
+ */
+export const useSourcePlayer = ({ source, audioContext }: UseSourcePlayerProps) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [volume, setVolume] = useState(1);
+
+  const sourceRef = useRef(source);
+  const nodesRef = useRef<AudioBufferSourceNode[]>([]);
+  const gainNodeRef = useRef<GainNode | null>(null);
+  const startTimeRef = useRef<number>(0);
+  const pauseTimeRef = useRef<number>(0);
+  // Bumped whenever playback stops, which ends the scheduling loop of the previous play
+  const playbackRef = useRef(0);
+  const animationFrameRef = useRef<number>();
+
+  sourceRef.current = source;
+  const duration = source ? source.length / source.sampleRate : 0;
+
+  const stopNodes = useCallback(() => {
+    playbackRef.current++;
+    for (const node of nodesRef.current) {
+      try {
+        node.stop();
+        node.disconnect();
+      } catch (e) {
+        // Ignore if already stopped
+      }
+    }
+    nodesRef.current = [];
+  }, []);
+
+  const updateTime = useCallback(() => {
+    if (!audioContext) return;
+
+    const elapsed = Math.max(0, audioContext.currentTime - startTimeRef.current) + pauseTimeRef.current;
+    const newTime = Math.min(elapsed, duration);
+    setCurrentTime(newTime);
+
+    if (newTime < duration - 0.01) {
+      animationFrameRef.current = requestAnimationFrame(updateTime);
+    } else {
+      stopNodes();
+      setIsPlaying(false);
+      setCurrentTime(0);
+      pauseTimeRef.current = 0;
+    }
+  }, [audioContext, duration, stopNodes]);
+
+  // Start/stop animation loop based on isPlaying state
+  useEffect(() => {
+    if (isPlaying && audioContext) {
+      animationFrameRef.current = requestAnimationFrame(updateTime);
+    } else if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+    }
+
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+    };
+  }, [isPlaying, audioContext, updateTime]);
+
+  // Read and schedule chunks until the source ends or playback stops
+  const schedule = useCallback(async (playback: number, firstFrame: number, firstTime: number) => {
+    if (!audioContext) return;
+    let frame = firstFrame;
+    let time = firstTime;
+
+    while (playback === playbackRef.current) {
+      const current = sourceRef.current;
+      if (!current || frame >= current.length) return;
+
+      const ahead = time - audioContext.currentTime;
+      if (ahead > SCHEDULE_AHEAD) {
+        await wait((ahead - SCHEDULE_AHEAD) * 1000);
+        continue;
+      }
+
+      const count = Math.min(Math.round(CHUNK_SECONDS * current.sampleRate), current.length - frame);
+      const buffer = await readAudioBuffer(current, frame, count);
+      if (playback !== playbackRef.current || !gainNodeRef.current) return;
+
+      const node = audioContext.createBufferSource();
+      node.buffer = buffer;
+      node.connect(gainNodeRef.current);
+      node.onended = () => {
+        nodesRef.current = nodesRef.current.filter(n => n !== node);
+      };
+      // A late chunk starts as soon as it can rather than in the past
+      node.start(Math.max(time, audioContext.currentTime));
+      nodesRef.current.push(node);
+
+      frame += count;
+      time += count / current.sampleRate;
+    }
+  }, [audioContext]);
+
+  const play = useCallback(async (startFrom?: number) => {
+    if (!source || !audioContext) {
+      console.log('Cannot play: missing source or audioContext');
+      return;
+    }
+
+    // Check if context is closed
+    if (audioContext.state === 'closed') {
+      console.error('AudioContext is closed');
+      return;
+    }
+
+    const playFrom = startFrom !== undefined ? startFrom : pauseTimeRef.current;
+
+    // Stop any existing playback
+    stopNodes();
+
+    // Resume audio context if suspended
+    if (audioContext.state === 'suspended') {
+      await audioContext.resume();
+    }
+
+    // Create gain node for volume control
+    const gainNode = audioContext.createGain();
+    gainNode.gain.value = volume;
+    gainNode.connect(audioContext.destination);
+    gainNodeRef.current?.disconnect();
+    gainNodeRef.current = gainNode;
+
+    startTimeRef.current = audioContext.currentTime + START_LATENCY;
+    pauseTimeRef.current = playFrom;
+    setIsPlaying(true);
+
+    schedule(playbackRef.current, Math.floor(playFrom * source.sampleRate), startTimeRef.current).catch(error => {
+      console.error('Error during playback:', error);
+      stopNodes();
+      setIsPlaying(false);
+    });
+  }, [source, audioContext, volume, stopNodes, schedule]);
+
+  const pause = useCallback(() => {
+    if (!audioContext || !isPlaying) return;
+
+    stopNodes();
+    pauseTimeRef.current = Math.min(
+      Math.max(0, audioContext.currentTime - startTimeRef.current) + pauseTimeRef.current,
+      duration
+    );
+    setIsPlaying(false);
+
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+    }
+  }, [audioContext, isPlaying, duration, stopNodes]);
+
+  const stop = useCallback(() => {
+    stopNodes();
+    setIsPlaying(false);
+    setCurrentTime(0);
+    pauseTimeRef.current = 0;
+
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+    }
+  }, [stopNodes]);
+
+  const seek = useCallback((time: number) => {
+    const wasPlaying = isPlaying;
+
+    if (wasPlaying) {
+      pause();
+    }
+
+    pauseTimeRef.current = Math.max(0, Math.min(time, duration));
+    setCurrentTime(pauseTimeRef.current);
+
+    if (wasPlaying) {
+      play(pauseTimeRef.current);
+    }
+  }, [isPlaying, duration, pause, play]);
+
+  const changeVolume = useCallback((newVolume: number) => {
+    const clampedVolume = Math.max(0, Math.min(1, newVolume));
+    setVolume(clampedVolume);
+
+    if (gainNodeRef.current) {
+      gainNodeRef.current.gain.value = clampedVolume;
+    }
+  }, []);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      stopNodes();
+      gainNodeRef.current?.disconnect();
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+    };
+  }, [stopNodes]);
+
+  return {
+    isPlaying,
+    currentTime,
+    duration,
+    volume,
+    play,
+    pause,
+    stop,
+    seek,
+    changeVolume
+  };
+};
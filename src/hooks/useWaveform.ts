@@ -3,9 +3,13 @@
 
 import { useEffect, useRef, useCallback, useMemo } from 'react';
 import { AudioUtils } from '@/utils/audioUtils';
+import { sourcePeaks } from '@/utils/sampleSource';
+import type { SampleSource } from '@/types';
 
 interface UseWaveformProps {
-  audioBuffer: AudioBuffer | null;
+  audioBuffer?: AudioBuffer | null;
+  // Drawn from its peaks instead of a buffer, so nothing is rendered
+  source?: SampleSource | null;
   canvasRef: React.RefObject<HTMLCanvasElement>;
   color?: string;
   zoom?: number;
@@ -30,13 +34,14 @@ const isLowEndDevice = (): boolean => {
 
 const maxSamples = isLowEndDevice() ? MAX_SAMPLES_LOW_END : MAX_SAMPLES_HIGH_END;
 
-export const useWaveform = ({ audioBuffer, canvasRef, color = '#8286ef', zoom = 1 }: UseWaveformProps) => {
+export const useWaveform = ({ audioBuffer = null, source = null, canvasRef, color = '#8286ef', zoom = 1 }: UseWaveformProps) => {
   const animationFrameRef = useRef<number>();
   const lastDrawParamsRef = useRef<{ width: number; height: number; zoom: number } | null>(null);
   const isDrawingRef = useRef(false);
 
   // Memoize the waveform data to avoid recalculating on every render
   const waveformData = useMemo(() => {
+    if (source) return sourcePeaks(source, maxSamples);
     if (!audioBuffer) return null;
     
     // Check cache first
@@ -56,10 +61,10 @@ export const useWaveform = ({ audioBuffer, canvasRef, color = '#8286ef', zoom =
     }
     
     return cachedData;
-  }, [audioBuffer]);
+  }, [audioBuffer, source]);
 
   const drawWaveform = useCallback(() => {
-    if (!canvasRef.current || !audioBuffer || !waveformData || isDrawingRef.current) return;
+    if (!canvasRef.current || !waveformData || isDrawingRef.current) return;
 
     const canvas = canvasRef.current;
     const ctx = canvas.getContext('2d', { alpha: false });
@@ -145,7 +150,7 @@ export const useWaveform = ({ audioBuffer, canvasRef, color = '#8286ef', zoom =
     ctx.stroke();
 
     isDrawingRef.current = false;
-  }, [audioBuffer, canvasRef, color, zoom, waveformData]);
+  }, [canvasRef, color, zoom, waveformData]);
 
   useEffect(() => {
     // Use requestAnimationFrame for initial draw
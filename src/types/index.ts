@@ -9,6 +9,72 @@ export interface AudioTrack {
   buffer: AudioBuffer;
   duration: number;
   name: string;
+  metadata?: AudioMetadata;
+  decode?: DecodeInfo;
+}
+
+// 'ffmpeg-fallback': the browser was tried first and failed
+// 'raw': headerless samples read with the settings the user gave
+// 'chunked': demuxed and decoded block by block into a PagedSampleStore
+export type DecodePath = 'native' | 'ffmpeg' | 'ffmpeg-fallback' | 'raw' | 'chunked';
+
+export interface DecodeInfo {
+  path: DecodePath;
+  format: string; // detected format, e.g. "MP4 (ALAC)"
+  stream?: string; // audio stream taken from a multi-stream input, e.g. "eng · ac3 · 5.1(side)"
+  range?: { start: number; end: number }; // seconds, when only part of a long file was loaded
+}
+
+// Memory a long file needs, shown before it is decoded
+export interface DecodeMemoryEstimate {
+  fileBytes: number;
+  duration: number; // seconds, from the container headers
+  sampleRate: number;
+  numberOfChannels: number;
+  decodedBytes: number; // every sample as a 32-bit float
+  fullDecodeBytes: number; // peak while decoding the whole file in one go
+  budget: number; // what the page can reasonably hold
+  chunkedSupported: boolean; // the browser can decode this codec block by block
+}
+
+// 'chunked' decodes block by block; the Cutter edits the decoded pages as
+// they are, the other tools only keep what fits the budget in an AudioBuffer
+export type DecodeMode = 'full' | 'chunked';
+
+// Frames [start, end) of a decoded recording
+export interface SampleRange {
+  start: number;
+  end: number;
+}
+
+// Audio read a window at a time, so neither a long recording nor an edit
+// list over it needs one contiguous buffer
+export interface SampleSource {
+  readonly sampleRate: number;
+  readonly numberOfChannels: number;
+  readonly length: number; // frames
+  // Frames [start, start + count) of every channel
+  read(start: number, count: number): Promise<Float32Array[]>;
+  // Loudest sample of frames [start, end), at block resolution
+  peak(start: number, end: number): number;
+  // Releases what it holds; sources that hold nothing of their own leave it out
+  dispose?(): Promise<void>;
+}
+
+// What to do with the channels of a surround file at import
+export type ChannelImportMode = 'keep' | 'stereo' | 'mono';
+
+export interface LoadedAudio {
+  buffer: AudioBuffer;
+  metadata: AudioMetadata;
+  decode: DecodeInfo;
+}
+
+// A loaded file read through a sample source instead of one buffer
+export interface LoadedAudioSource {
+  source: SampleSource;
+  metadata: AudioMetadata;
+  decode: DecodeInfo;
 }
 
 export interface WaveformData {
@@ -44,10 +110,94 @@ export interface AudioProcessingOptions {
   fadeDuration?: number;
 }
 
+// One file per segment, packed into a ZIP
+export interface SplitExportOptions {
+  namePattern: string; // {name}, {index}, {start} and {end} are replaced
+  fadeIn: boolean;
+  fadeOut: boolean;
+  fadeDuration: number; // seconds
+}
+
+export type Mp3ChannelMode = 'joint-stereo' | 'stereo' | 'mono';
+
+export type DitherType = 'none' | 'tpdf' | 'noise-shaped';
+
+export interface CoverArt {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface AudioChapter {
+  title: string;
+  startTime: number; // seconds
+  endTime?: number; // seconds
+}
+
+// Tags read from source files and written into exported files
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  trackNumber?: string;
+  year?: string;
+  genre?: string;
+  comment?: string;
+  coverArt?: CoverArt;
+  chapters?: AudioChapter[];
+}
+
+export type MetadataTextField = Exclude<keyof AudioMetadata, 'coverArt' | 'chapters'>;
+
+// What the export dialog needs to know about the audio being exported
+export interface AudioProperties {
+  duration: number; // seconds
+  numberOfChannels: number;
+  sampleRate: number;
+}
+
+// Fraction of the work done, from 0 to 1
+export type EncodeProgressCallback = (progress: number) => void;
+
+export interface EncodeControl {
+  onProgress?: EncodeProgressCallback;
+  signal?: AbortSignal;
+}
+
 export interface ExportOptions {
-  format: 'mp3' | 'wav' | 'flac' | 'aac' | 'ogg';
+  format: 'mp3' | 'wav' | 'flac' | 'aac' | 'm4a' | 'ogg' | 'opus' | 'webm'; // ogg is Vorbis, opus and webm carry Opus, m4a is AAC
   quality: 'low' | 'medium' | 'high';
   bitrate?: number;
+  bitrateMode?: 'cbr' | 'vbr';
+  vbrQuality?: number; // LAME -V scale, 0 (best) to 9
+  channelMode?: Mp3ChannelMode;
+  bitDepth?: 16 | 24 | 32; // 32 is IEEE float, WAV only
+  dither?: DitherType; // applied when reducing to 16-bit
+  compressionLevel?: number; // FLAC, 0 (fastest) to 8 (smallest)
+  sampleRate?: number; // resample to this rate, source rate when unset
+  channelCount?: 1 | 2; // down- or upmix, source layout when unset
+  loudnessTarget?: number; // integrated loudness in LUFS, no normalization when unset
+  cueSheet?: boolean; // also save a .cue sheet of metadata.chapters (WAV and FLAC)
+  metadata?: AudioMetadata;
+}
+
+// Saved export settings, stored in IndexedDB
+export interface ExportPreset {
+  id: string;
+  name: string;
+  options: Omit<ExportOptions, 'metadata' | 'cueSheet'>;
+  fileNameSuffix: string; // appended to the source name, e.g. "_podcast"
+  metadataTemplate: Partial<Record<MetadataTextField, string>>; // tags filled in when the preset is applied
+}
+
+export type RawSampleFormat = 'u8' | 's16' | 's24' | 's32' | 'f32' | 'f64' | 'mulaw' | 'alaw';
+
+// How to read a headerless file; remembered per file extension in IndexedDB
+export interface RawPcmSettings {
+  format: RawSampleFormat;
+  endianness: 'little' | 'big'; // ignored by the single-byte formats
+  channels: number; // interleaved
+  sampleRate: number;
+  byteOffset: number; // bytes skipped at the start, e.g. a device header
 }
 
 export interface CutterState {
@@ -79,7 +229,31 @@ export interface AudioSegment {
   selected: boolean;
 }
 
+export type FadeCurve = 'linear' | 'equal-power' | 'logarithmic' | 's-curve';
+
+export interface SegmentFade {
+  length: number; // frames
+  curve: FadeCurve;
+}
+
+// A range of the Cutter's source buffer placed on its timeline. Segments
+// are laid end to end and only copied out when the timeline is rendered.
+export interface EditSegment {
+  id: string;
+  offset: number; // first source frame
+  length: number; // frames
+  silent?: boolean; // plays silence instead of the source; offset is ignored
+  fadeIn?: SegmentFade;
+  fadeOut?: SegmentFade;
+}
+
 export interface CutterHistoryState {
-  segments: AudioSegment[];
+  segments: EditSegment[];
   zoom: number;
-}
\ No newline at end of file
+}
+
+export interface SilenceDetectionOptions {
+  thresholdDb: number; // dBFS; quieter windows count as silence
+  minSilence: number; // seconds
+  minSegment: number; // seconds of sound to keep between two silences
+}
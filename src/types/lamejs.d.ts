@@ -0,0 +1,110 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+// lamejs ships no typings. We only reach into the internal modules that
+// src/utils/mp3Encoder.ts wires together, so only what it uses is declared.
+
+declare module 'lamejs/src/js/MPEGMode.js' {
+  interface MPEGMode {
+    ordinal(): number;
+  }
+  const MPEGMode: {
+    readonly STEREO: MPEGMode;
+    readonly JOINT_STEREO: MPEGMode;
+    readonly MONO: MPEGMode;
+  };
+  export default MPEGMode;
+}
+
+declare module 'lamejs/src/js/LameGlobalFlags.js' {
+  import type MPEGMode from 'lamejs/src/js/MPEGMode.js';
+
+  export interface LameGlobalFlags {
+    num_channels: number;
+    in_samplerate: number;
+    out_samplerate: number;
+    brate: number;
+    mode: MPEGMode;
+    quality: number;
+    VBR_q: number;
+    lowpassfreq: number;
+    bWriteVbrTag: boolean;
+    disable_reservoir: boolean;
+    write_id3tag_automatic: boolean;
+    encoder_delay: number;
+    encoder_padding: number;
+    frameNum: number;
+  }
+}
+
+declare module 'lamejs/src/js/Lame.js' {
+  import type { LameGlobalFlags } from 'lamejs/src/js/LameGlobalFlags.js';
+
+  export default class Lame {
+    enc: { psy: unknown };
+    setModules(...modules: unknown[]): void;
+    lame_init(): LameGlobalFlags;
+    lame_init_params(gfp: LameGlobalFlags): number;
+    lame_encode_buffer(
+      gfp: LameGlobalFlags,
+      left: Int16Array,
+      right: Int16Array,
+      samples: number,
+      output: Int8Array,
+      offset: number,
+      size: number
+    ): number;
+    lame_encode_flush(gfp: LameGlobalFlags, output: Int8Array, offset: number, size: number): number;
+  }
+}
+
+// The other modules are only built and wired to each other
+declare module 'lamejs/src/js/BitStream.js' {
+  export default class BitStream {
+    setModules(...modules: unknown[]): void;
+  }
+}
+
+declare module 'lamejs/src/js/Presets.js' {
+  export default class Presets {
+    setModules(...modules: unknown[]): void;
+  }
+}
+
+declare module 'lamejs/src/js/GainAnalysis.js' {
+  export default class GainAnalysis {}
+}
+
+declare module 'lamejs/src/js/QuantizePVT.js' {
+  export default class QuantizePVT {
+    setModules(...modules: unknown[]): void;
+  }
+}
+
+declare module 'lamejs/src/js/Quantize.js' {
+  export default class Quantize {
+    setModules(...modules: unknown[]): void;
+  }
+}
+
+declare module 'lamejs/src/js/Takehiro.js' {
+  export default class Takehiro {
+    setModules(...modules: unknown[]): void;
+  }
+}
+
+declare module 'lamejs/src/js/Reservoir.js' {
+  export default class Reservoir {
+    setModules(...modules: unknown[]): void;
+  }
+}
+
+declare module 'lamejs/src/js/Version.js' {
+  export default class Version {}
+}
+
+declare module 'lamejs/src/js/VBRTag.js' {
+  export default class VBRTag {
+    setModules(...modules: unknown[]): void;
+  }
+}
@@ -1,13 +1,10 @@
 // Copyright (c) 2025 Jema Technology.
 // Distributed under the license specified in the root directory of this project.
 
-import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
-
-// Singleton FFmpeg instance
-let ffmpegInstance: FFmpeg | null = null;
-let isLoading = false;
-let loadPromise: Promise<FFmpeg> | null = null;
+import type { EncodeControl } from '@/types';
+import { ffmpegService } from './ffmpegService';
+import type { ProbedStream } from './ffmpegProbe';
+import { createAbortError, isAbortError } from './encoderPool';
 
 // Formats that browsers typically cannot decode natively and need FFmpeg conversion
 // These will be converted to WAV before processing
@@ -99,160 +96,110 @@ export function needsConversion(file: File): boolean {
 }
 
 /**
- * Get the FFmpeg instance, initializing it if necessary (lazy loading)
+ * Asked to pick one of several audio streams (languages, commentary...);
+ * null cancels the import
+ */
+export type AudioStreamChooser = (streams: ProbedStream[]) => Promise<ProbedStream | null>;
+
+export interface WavConversionOptions {
+  sampleRate?: number; // resample to this rate; the source rate is kept by default
+  channels?: number; // remix to this many channels; the source layout is kept by default
+  chooseStream?: AudioStreamChooser; // the default audio stream is used without it
+}
+
+export interface ConvertedWav {
+  wav: Blob;
+  sampleRate: number;
+  numberOfChannels: number;
+  stream: ProbedStream;
+  audioStreamCount: number; // audio streams in the input
+}
+
+export interface AudioStreamSelection {
+  stream: ProbedStream;
+  audioStreamCount: number;
+}
+
+/**
+ * Probe the input and pick the audio stream to extract. The chooser is only
+ * asked when there is more than one.
+ * Rejects with an AbortError when the chooser cancels.
  */
-export async function getFFmpeg(onProgress?: ProgressCallback): Promise<FFmpeg> {
-  // Return existing instance if available
-  if (ffmpegInstance && ffmpegInstance.loaded) {
-    return ffmpegInstance;
+export async function selectAudioStream(
+  input: Blob,
+  inputExtension: string,
+  chooseStream?: AudioStreamChooser,
+  control: EncodeControl = {}
+): Promise<AudioStreamSelection> {
+  const probe = await ffmpegService.probe(input, inputExtension, control);
+  const streams = probe.streams.filter(s => s.type === 'audio');
+  if (streams.length === 0) {
+    throw new Error('No audio stream found');
   }
-  
-  // If already loading, wait for the existing promise
-  if (isLoading && loadPromise) {
-    return loadPromise;
+  if (streams.length === 1 || !chooseStream) {
+    return { stream: streams.find(s => s.isDefault) ?? streams[0], audioStreamCount: streams.length };
   }
-  
-  // Start loading
-  isLoading = true;
-  
-  loadPromise = (async () => {
-    onProgress?.({ progress: 0, message: 'Initializing audio converter...' });
-    
-    const ffmpeg = new FFmpeg();
-    
-    // Set up progress handler for FFmpeg operations
-    ffmpeg.on('progress', ({ progress }) => {
-      onProgress?.({ 
-        progress: Math.round(progress * 100), 
-        message: 'Converting audio...' 
-      });
-    });
-    
-    ffmpeg.on('log', ({ message }) => {
-      console.log('[FFmpeg]', message);
-    });
-    
-    onProgress?.({ progress: 10, message: 'Loading FFmpeg core...' });
-    
-    // Load FFmpeg with WASM files from CDN
-    // Using unpkg CDN for the core files
-    const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm';
-    
-    try {
-      await ffmpeg.load({
-        coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-        wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-      });
-      
-      onProgress?.({ progress: 100, message: 'FFmpeg loaded successfully' });
-      
-      ffmpegInstance = ffmpeg;
-      isLoading = false;
-      
-      return ffmpeg;
-    } catch (error) {
-      isLoading = false;
-      loadPromise = null;
-      throw new Error(`Failed to load FFmpeg: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  })();
-  
-  return loadPromise;
+
+  const chosen = await chooseStream(streams);
+  if (!chosen) {
+    throw createAbortError();
+  }
+  return { stream: chosen, audioStreamCount: streams.length };
 }
 
 /**
- * Convert an unsupported audio file to WAV format
+ * Convert an unsupported audio file, or the soundtrack of a video, to WAV format.
+ * The input is probed first so the selected audio stream keeps its sample
+ * rate and channels unless the caller asks otherwise. Samples are written as
+ * 32-bit float, which holds 24-bit sources and float codecs without loss.
  */
 export async function convertToWav(
   file: File, 
-  onProgress?: ProgressCallback
-): Promise<Blob> {
+  onProgress?: ProgressCallback,
+  options: WavConversionOptions = {}
+): Promise<ConvertedWav> {
   onProgress?.({ progress: 0, message: 'Preparing conversion...' });
-  
-  // Get FFmpeg instance
-  const ffmpeg = await getFFmpeg(onProgress);
-  
-  // Generate unique filenames to avoid conflicts
-  const inputFileName = `input_${Date.now()}${getFileExtension(file.name)}`;
-  const outputFileName = `output_${Date.now()}.wav`;
-  
+  if (!ffmpegService.isLoaded()) {
+    onProgress?.({ progress: 0, message: 'Loading FFmpeg core...' });
+  }
+
   try {
-    onProgress?.({ progress: 20, message: 'Loading audio file...' });
-    
-    // Write input file to FFmpeg's virtual filesystem
-    const inputData = await fetchFile(file);
-    await ffmpeg.writeFile(inputFileName, inputData);
-    
-    onProgress?.({ progress: 30, message: 'Converting to WAV...' });
-    
-    // Convert to WAV format
-    // Using PCM 16-bit, 44.1kHz stereo for maximum compatibility
-    await ffmpeg.exec([
-      '-i', inputFileName,
-      '-vn',                    // No video
-      '-acodec', 'pcm_s16le',   // PCM 16-bit little-endian
-      '-ar', '44100',           // 44.1kHz sample rate
-      '-ac', '2',               // Stereo
-      outputFileName
-    ]);
-    
-    onProgress?.({ progress: 90, message: 'Finalizing...' });
-    
-    // Read the output file
-    const outputData = await ffmpeg.readFile(outputFileName);
-    
-    // Clean up virtual filesystem
-    await ffmpeg.deleteFile(inputFileName);
-    await ffmpeg.deleteFile(outputFileName);
-    
-    onProgress?.({ progress: 100, message: 'Conversion complete!' });
-    
-    // Convert to Blob - handle both Uint8Array and string types from FFmpeg
-    let wavBlob: Blob;
-    if (typeof outputData === 'string') {
-      // If string, convert to blob via text encoder
-      const encoder = new TextEncoder();
-      wavBlob = new Blob([encoder.encode(outputData)], { type: 'audio/wav' });
-    } else {
-      // Uint8Array - copy to a new ArrayBuffer to avoid SharedArrayBuffer issues
-      const buffer = new ArrayBuffer(outputData.byteLength);
-      new Uint8Array(buffer).set(outputData);
-      wavBlob = new Blob([buffer], { type: 'audio/wav' });
+    const inputExtension = getFileExtension(file.name);
+    const { stream, audioStreamCount } = await selectAudioStream(file, inputExtension, options.chooseStream);
+    if (!stream.sampleRate) {
+      throw new Error('Unknown sample rate');
     }
-    return wavBlob;
-    
+
+    const sampleRate = options.sampleRate ?? stream.sampleRate;
+    const numberOfChannels = options.channels ?? stream.channels ?? 2;
+    const args = ['-map', `0:${stream.index}`, '-acodec', 'pcm_f32le'];
+    if (options.sampleRate) args.push('-ar', String(options.sampleRate));
+    // Unknown layouts are made explicit too, so the WAV header matches what we report
+    if (options.channels || !stream.channels) args.push('-ac', String(numberOfChannels));
+
+    onProgress?.({ progress: 0, message: 'Converting audio...' });
+    const wav = await ffmpegService.run({
+      input: file,
+      inputExtension,
+      outputExtension: 'wav',
+      args,
+      mimeType: 'audio/wav'
+    }, {
+      onProgress: progress => onProgress?.({ progress: Math.round(progress * 100), message: 'Converting audio...' })
+    });
+
+    return { wav, sampleRate, numberOfChannels, stream, audioStreamCount };
   } catch (error) {
-    // Clean up on error
-    try {
-      await ffmpeg.deleteFile(inputFileName);
-    } catch { /* ignore */ }
-    try {
-      await ffmpeg.deleteFile(outputFileName);
-    } catch { /* ignore */ }
-    
+    if (isAbortError(error)) throw error;
     throw new Error(`Audio conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Get file extension from filename
+ * Get file extension from filename, without the dot
  */
 function getFileExtension(filename: string): string {
   const lastDot = filename.lastIndexOf('.');
   if (lastDot === -1) return '';
-  return filename.substring(lastDot).toLowerCase();
-}
-
-/**
- * Check if FFmpeg is already loaded
- */
-export function isFFmpegLoaded(): boolean {
-  return ffmpegInstance !== null && ffmpegInstance.loaded;
+  return filename.substring(lastDot + 1).toLowerCase();
 }
-
-/**
- * Preload FFmpeg (can be called early to improve UX)
- */
-export async function preloadFFmpeg(onProgress?: ProgressCallback): Promise<void> {
-  await getFFmpeg(onProgress);
-}
\ No newline at end of file
@@ -1,80 +1,58 @@
 // Copyright (c) 2025 Jema Technology.
 // Distributed under the license specified in the root directory of this project.
 
+import type { EncodeControl, ExportOptions } from '@/types';
+import { encodeWav } from './wavEncoder';
+import { ffmpegService } from './ffmpegService';
+import { encoderPool } from './encoderPool';
+
+function getChannels(audioBuffer: AudioBuffer): Float32Array[] {
+  return Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i));
+}
+
+/**
+ * Copies of the channel data that can be transferred to a worker
+ * without detaching the AudioBuffer's own storage
+ */
+function copyChannels(audioBuffer: AudioBuffer): Float32Array[] {
+  return Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => {
+    const channel = new Float32Array(audioBuffer.length);
+    audioBuffer.copyFromChannel(channel, i);
+    return channel;
+  });
+}
+
 export class AudioEncoders {
   /**
-   * Convert AudioBuffer to MP3 using lamejs
+   * Encode an AudioBuffer with the format and settings chosen in the export dialog.
+   * The encode runs in the worker pool; formats that fall back to FFmpeg are
+   * handed to the FFmpeg job service, which runs on the main thread.
+   * Rejects with an AbortError when control.signal is aborted.
    */
-  static async audioBufferToMp3(audioBuffer: AudioBuffer, _bitrate: number = 320): Promise<Blob> {
-    // For now, return WAV as MP3 encoding requires lamejs library setup
-    // This would need proper implementation with lamejs
-    const wavBlob = this.audioBufferToWav(audioBuffer);
-    return wavBlob;
-  }
+  static async encode(audioBuffer: AudioBuffer, options: ExportOptions, control: EncodeControl = {}): Promise<Blob> {
+    const { onProgress } = control;
+    const result = await encoderPool.encode(copyChannels(audioBuffer), audioBuffer.sampleRate, options, control);
+    if (result.type === 'blob') {
+      onProgress?.(1);
+      return result.blob;
+    }
 
-  /**
-   * Convert AudioBuffer to FLAC
-   */
-  static async audioBufferToFlac(audioBuffer: AudioBuffer): Promise<Blob> {
-    // FLAC encoding would require a FLAC encoder library
-    // For now, return WAV as it's lossless like FLAC
-    const wavBlob = this.audioBufferToWav(audioBuffer);
-    return wavBlob;
+    const { job } = result;
+    const encoded = await ffmpegService.run({ ...job, inputExtension: 'wav' }, {
+      onProgress: progress => onProgress?.(job.progressStart + (1 - job.progressStart) * progress),
+      signal: control.signal
+    });
+
+    return job.prefix ? new Blob([job.prefix.slice(), encoded], { type: job.mimeType }) : encoded;
   }
 
   /**
-   * Convert AudioBuffer to WAV
+   * Convert AudioBuffer to WAV (16/24-bit PCM or 32-bit float) on the calling thread
    */
-  static audioBufferToWav(audioBuffer: AudioBuffer): Blob {
-    const numberOfChannels = audioBuffer.numberOfChannels;
-    const sampleRate = audioBuffer.sampleRate;
-    const format = 1; // PCM
-    const bitDepth = 16;
-
-    const bytesPerSample = bitDepth / 8;
-    const blockAlign = numberOfChannels * bytesPerSample;
-
-    const data = new Float32Array(audioBuffer.length * numberOfChannels);
-    for (let channel = 0; channel < numberOfChannels; channel++) {
-      const channelData = audioBuffer.getChannelData(channel);
-      for (let i = 0; i < audioBuffer.length; i++) {
-        data[i * numberOfChannels + channel] = channelData[i];
-      }
-    }
-
-    const dataLength = data.length * bytesPerSample;
-    const buffer = new ArrayBuffer(44 + dataLength);
-    const view = new DataView(buffer);
-
-    // WAV header
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
-
-    writeString(0, 'RIFF');
-    view.setUint32(4, 36 + dataLength, true);
-    writeString(8, 'WAVE');
-    writeString(12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, format, true);
-    view.setUint16(22, numberOfChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * blockAlign, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, bitDepth, true);
-    writeString(36, 'data');
-    view.setUint32(40, dataLength, true);
-
-    // Write audio data
-    let offset = 44;
-    for (let i = 0; i < data.length; i++) {
-      const sample = Math.max(-1, Math.min(1, data[i]));
-      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
-      offset += 2;
-    }
-
-    return new Blob([buffer], { type: 'audio/wav' });
+  static audioBufferToWav(
+    audioBuffer: AudioBuffer,
+    options: Pick<ExportOptions, 'bitDepth' | 'dither' | 'metadata'> = {}
+  ): Blob {
+    return encodeWav(getChannels(audioBuffer), audioBuffer.sampleRate, options);
   }
-}
\ No newline at end of file
+}
@@ -1,7 +1,79 @@
 // Copyright (c) 2025 Jema Technology.
 // Distributed under the license specified in the root directory of this project.
 
-import { needsConversion, convertToWav, type ProgressCallback } from './audioConverter';
+import type {
+  ChannelImportMode,
+  DecodeMemoryEstimate,
+  DecodeMode,
+  DecodePath,
+  AudioMetadata,
+  FadeCurve,
+  LoadedAudio,
+  LoadedAudioSource,
+  RawPcmSettings,
+  SampleRange
+} from '@/types';
+import { needsConversion, convertToWav, type AudioStreamChooser, type ConvertedWav, type ProgressCallback } from './audioConverter';
+import { decodeInChunks, isChunkedDecodeSupported, openDemuxer } from './chunkedDecoder';
+import { estimateDecodeMemory, isLargeDecode } from './decodeMemory';
+import { fadeGain } from './fadeCurves';
+import { readBlobRange } from './demuxer';
+import { createAbortError, isAbortError } from './encoderPool';
+import { describeStream } from './ffmpegProbe';
+import { mixChannels } from './channelMixer';
+import { readMetadata } from './metadataReader';
+import { sniffAudioFormat } from './formatSniffer';
+import { RAW_PCM_EXTENSIONS, decodeRawPcm, describeRawPcm } from './rawPcmDecoder';
+import type { PagedSampleStore } from './pagedSampleStore';
+import { resample } from './resampler';
+import { bufferSampleSource, remixSampleSource } from './sampleSource';
+
+// Read ahead of a chunked decode to sniff the format and read the tags
+const HEAD_BYTES = 16 * 1024 * 1024;
+
+// A long file decoded in chunks, before any of it is copied out
+interface ChunkedDecode {
+  store: PagedSampleStore;
+  metadata: AudioMetadata;
+  format: string;
+  budget: number; // bytes the page can reasonably hold
+}
+
+/**
+ * Asked what to do with the channels of a file that has more than two;
+ * null cancels the import
+ */
+export type ChannelModeChooser = (channelCount: number) => Promise<ChannelImportMode | null>;
+
+/**
+ * Asked how to read a file without a header; null cancels the import
+ */
+export type RawPcmChooser = (file: File, data: Uint8Array) => Promise<RawPcmSettings | null>;
+
+/**
+ * Asked, with the memory estimate, how to decode a file too long to
+ * comfortably decode in one go; null cancels the import
+ */
+export type DecodeModeChooser = (estimate: DecodeMemoryEstimate) => Promise<DecodeMode | null>;
+
+/**
+ * Asked which part of a chunked decode to load when all of it does not fit,
+ * at most maxFrames long; null cancels the import
+ */
+export type RangeChooser = (store: PagedSampleStore, maxFrames: number) => Promise<SampleRange | null>;
+
+export interface AudioImportOptions {
+  // Asked which audio stream to extract when FFmpeg finds several
+  chooseStream?: AudioStreamChooser;
+  // Surround files keep all their channels without it
+  chooseChannelMode?: ChannelModeChooser;
+  // Without it, headerless files fail to load like any unknown format
+  chooseRawPcmSettings?: RawPcmChooser;
+  // Without it, long files are always decoded in full
+  chooseDecodeMode?: DecodeModeChooser;
+  // Without it, only the start of a recording too long to hold is loaded
+  chooseRange?: RangeChooser;
+}
 
 export class AudioUtils {
   static formatTime(seconds: number): string {
@@ -11,44 +83,261 @@ export class AudioUtils {
   }
 
   /**
-   * Load an audio file and decode it to an AudioBuffer.
-   * Automatically converts unsupported formats (like WMA) using FFmpeg.wasm.
+   * Load an audio file, decode it to an AudioBuffer and read its tags.
+   * The format is detected from the content: formats the browser cannot
+   * decode (like WMA or ALAC) go through FFmpeg.wasm, and files the browser
+   * fails to decode are retried through FFmpeg. Video files have their
+   * soundtrack extracted by FFmpeg. Every channel of surround files is
+   * decoded; the import options can fold them down to stereo or mono.
+   * Headerless .pcm/.raw dumps, and unrecognized files no decoder reads,
+   * are read as raw samples with the settings the user gives. Before a
+   * long WAV, MP3, Ogg or MP4 file is read in full, the user sees a memory
+   * estimate and can have it decoded in chunks instead.
    *
-   * @param file - The audio file to load
+   * @param file - The audio or video file to load
    * @param onConversionProgress - Optional callback for conversion progress updates
-   * @returns Promise resolving to the decoded AudioBuffer
+   * @param options - Callbacks asking the user about streams, channels,
+   *   headerless files and long files; the load rejects with an AbortError when one of them returns null
+   * @returns Promise resolving to the decoded AudioBuffer, the source metadata
+   *   and which decoder was used
    */
   static async loadAudioFile(
     file: File,
-    onConversionProgress?: ProgressCallback
-  ): Promise<AudioBuffer> {
-    let fileToProcess: File | Blob = file;
-    
-    // Check if the file format needs conversion
-    if (needsConversion(file)) {
+    onConversionProgress?: ProgressCallback,
+    options: AudioImportOptions = {}
+  ): Promise<LoadedAudio> {
+    const loaded = await AudioUtils.decodeFile(file, onConversionProgress, options);
+    const channelCount = await AudioUtils.chooseChannelCount(loaded.buffer.numberOfChannels, options.chooseChannelMode);
+    return { ...loaded, buffer: AudioUtils.remixAudioBuffer(loaded.buffer, channelCount) };
+  }
+
+  /**
+   * Load an audio file like loadAudioFile, but as a sample source. A long
+   * file decoded in chunks stays in its pages, spilled to disk past the
+   * memory budget, and is never copied into one AudioBuffer, so all of it
+   * can be edited; range choosers are not asked. Dispose of the source
+   * once done with it.
+   */
+  static async loadAudioSource(
+    file: File,
+    onConversionProgress?: ProgressCallback,
+    options: AudioImportOptions = {}
+  ): Promise<LoadedAudioSource> {
+    const chunked = options.chooseDecodeMode
+      ? await AudioUtils.decodeInPages(file, onConversionProgress, options.chooseDecodeMode)
+      : null;
+    if (!chunked) {
+      // The regular path reads what the chunked decode left alone
+      const { buffer, metadata, decode } = await AudioUtils.loadAudioFile(file, onConversionProgress, { ...options, chooseDecodeMode: undefined });
+      return { source: bufferSampleSource(buffer), metadata, decode };
+    }
+
+    const { store, metadata, format } = chunked;
+    try {
+      const channelCount = await AudioUtils.chooseChannelCount(store.numberOfChannels, options.chooseChannelMode);
+      return { source: remixSampleSource(store, channelCount), metadata, decode: { path: 'chunked', format } };
+    } catch (error) {
+      await store.dispose();
+      throw error;
+    }
+  }
+
+  /**
+   * Channel count to import a file with, as the user chose it for surround files
+   */
+  private static async chooseChannelCount(channelCount: number, chooseChannelMode: ChannelModeChooser | undefined): Promise<number> {
+    if (channelCount <= 2 || !chooseChannelMode) return channelCount;
+
+    const mode = await chooseChannelMode(channelCount);
+    if (!mode) {
+      throw createAbortError();
+    }
+    if (mode === 'keep') return channelCount;
+    return mode === 'stereo' ? 2 : 1;
+  }
+
+  /**
+   * Remix a buffer to another channel count: surround folds down to stereo
+   * with the ITU-R BS.775 coefficients, stereo to mono by averaging
+   */
+  static remixAudioBuffer(buffer: AudioBuffer, channelCount: number): AudioBuffer {
+    if (buffer.numberOfChannels === channelCount) return buffer;
+
+    const sourceChannels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+    const remixed = new AudioBuffer({ numberOfChannels: channelCount, length: buffer.length, sampleRate: buffer.sampleRate });
+    mixChannels(sourceChannels, channelCount).forEach((data, ch) => remixed.getChannelData(ch).set(data));
+    return remixed;
+  }
+
+  private static async decodeFile(
+    file: File,
+    onConversionProgress: ProgressCallback | undefined,
+    { chooseStream, chooseRawPcmSettings, chooseDecodeMode, chooseRange }: AudioImportOptions
+  ): Promise<LoadedAudio> {
+    if (chooseDecodeMode) {
+      const chunked = await AudioUtils.decodeLongFile(file, onConversionProgress, chooseDecodeMode, chooseRange);
+      if (chunked) return chunked;
+    }
+
+    const arrayBuffer = await file.arrayBuffer();
+    const bytes = new Uint8Array(arrayBuffer);
+    // Read tags first: decodeAudioData detaches the buffer
+    const metadata = readMetadata(bytes);
+    const sniffed = sniffAudioFormat(bytes);
+    // Unrecognized content falls back to the MIME type and extension lists
+    const route = sniffed?.hasVideo || file.type.startsWith('video/')
+      ? 'ffmpeg'
+      : sniffed?.route ?? (needsConversion(file) ? 'ffmpeg' : 'native');
+    const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+    const format = sniffed?.label ?? (extension.toUpperCase() || 'Inconnu');
+    // Recognized content has a header, whatever its extension says
+    const chooseRaw = sniffed ? undefined : chooseRawPcmSettings;
+    if (chooseRaw && RAW_PCM_EXTENSIONS.includes(extension)) {
+      return AudioUtils.importRawPcm(file, chooseRaw);
+    }
+
+    let path: DecodePath = 'ffmpeg';
+
+    if (route === 'native') {
       try {
-        onConversionProgress?.({ progress: 0, message: 'Converting audio format...' });
-        const convertedBlob = await convertToWav(file, onConversionProgress);
-        fileToProcess = convertedBlob;
+        const audioContext = new AudioContext();
+        const buffer = await audioContext.decodeAudioData(arrayBuffer);
+        return { buffer, metadata, decode: { path: 'native', format } };
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown conversion error';
-        throw new Error(`Failed to convert audio file: ${errorMessage}. The file format may not be supported.`);
+        console.warn(`Native decoding of ${format} failed, retrying with FFmpeg:`, error);
+        path = 'ffmpeg-fallback';
       }
     }
-    
-    const arrayBuffer = await fileToProcess.arrayBuffer();
-    const audioContext = new AudioContext();
-    
+
+    let converted: ConvertedWav;
+    try {
+      onConversionProgress?.({ progress: 0, message: 'Converting audio format...' });
+      converted = await convertToWav(file, onConversionProgress, { chooseStream });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      if (chooseRaw) {
+        console.warn('No decoder recognized the file, asking how to read it as raw PCM:', error);
+        return AudioUtils.importRawPcm(file, chooseRaw);
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown conversion error';
+      throw new Error(`Failed to convert audio file: ${errorMessage}. The file format may not be supported.`);
+    }
+
     try {
-      return await audioContext.decodeAudioData(arrayBuffer);
+      // Decode at the source rate: an AudioContext would resample to the device rate
+      const decodeContext = new OfflineAudioContext(converted.numberOfChannels, 1, converted.sampleRate);
+      const buffer = await decodeContext.decodeAudioData(await converted.wav.arrayBuffer());
+      // Name the stream only when there was a choice to make
+      const stream = converted.audioStreamCount > 1 ? describeStream(converted.stream) : undefined;
+      return { buffer, metadata, decode: { path, format, stream } };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown decoding error';
       throw new Error(`Failed to decode audio file: ${errorMessage}. The file may be corrupted or in an unsupported format.`);
     }
   }
 
+  /**
+   * Decode a long file in chunks when the user prefers it to a full decode,
+   * then copy what fits the budget into an AudioBuffer.
+   * Null when the file is short enough, has no demuxer, or the user chose
+   * the full decode: the regular path then reads it.
+   */
+  private static async decodeLongFile(
+    file: File,
+    onConversionProgress: ProgressCallback | undefined,
+    chooseDecodeMode: DecodeModeChooser,
+    chooseRange: RangeChooser | undefined
+  ): Promise<LoadedAudio | null> {
+    const chunked = await AudioUtils.decodeInPages(file, onConversionProgress, chooseDecodeMode);
+    if (!chunked) return null;
+    const { store, metadata, format, budget } = chunked;
+
+    try {
+      // Editing copies the buffer, so it gets half of the budget
+      const maxFrames = Math.floor(budget / 2 / (store.numberOfChannels * Float32Array.BYTES_PER_ELEMENT));
+      let range: SampleRange = { start: 0, end: Math.min(store.length, maxFrames) };
+      if (store.length > maxFrames && chooseRange) {
+        const chosen = await chooseRange(store, maxFrames);
+        if (!chosen) {
+          throw createAbortError();
+        }
+        range = chosen;
+      }
+
+      const buffer = await store.toAudioBuffer(range.start, range.end - range.start);
+      const isPartial = range.start > 0 || range.end < store.length;
+      return {
+        buffer,
+        metadata,
+        decode: {
+          path: 'chunked',
+          format,
+          range: isPartial ? { start: range.start / store.sampleRate, end: range.end / store.sampleRate } : undefined
+        }
+      };
+    } finally {
+      await store.dispose();
+    }
+  }
+
+  /**
+   * Decode a long file into a PagedSampleStore when the user prefers it to
+   * a full decode; null in the same cases as decodeLongFile
+   */
+  private static async decodeInPages(
+    file: File,
+    onConversionProgress: ProgressCallback | undefined,
+    chooseDecodeMode: DecodeModeChooser
+  ): Promise<ChunkedDecode | null> {
+    const head = await readBlobRange(file, 0, HEAD_BYTES);
+    const sniffed = sniffAudioFormat(head);
+    const demuxer = await openDemuxer(file, sniffed).catch(error => {
+      console.warn('Failed to read the container headers, decoding in full:', error);
+      return null;
+    });
+    if (!sniffed || !demuxer) return null;
+
+    const chunkedSupported = await isChunkedDecodeSupported(demuxer);
+    const route = sniffed.hasVideo ? 'ffmpeg' : sniffed.route;
+    const estimate = estimateDecodeMemory(file.size, demuxer.info, route, chunkedSupported);
+    if (!isLargeDecode(estimate)) return null;
+
+    const mode = await chooseDecodeMode(estimate);
+    if (!mode) {
+      throw createAbortError();
+    }
+    if (mode === 'full') return null;
+
+    const message = 'Decoding in chunks...';
+    onConversionProgress?.({ progress: 0, message });
+    const store = await decodeInChunks(demuxer, {
+      onProgress: progress => onConversionProgress?.({ progress: Math.round(progress * 100), message })
+    });
+    return { store, metadata: readMetadata(head), format: sniffed.label, budget: estimate.budget };
+  }
+
+  private static async importRawPcm(file: File, chooseSettings: RawPcmChooser): Promise<LoadedAudio> {
+    // Read again: a failed decodeAudioData detached the first copy
+    const data = new Uint8Array(await file.arrayBuffer());
+    const settings = await chooseSettings(file, data);
+    if (!settings) {
+      throw createAbortError();
+    }
+
+    const channels = decodeRawPcm(data, settings);
+    if (channels[0].length === 0) {
+      throw new Error('No audio data after the byte offset');
+    }
+    const buffer = new AudioBuffer({ numberOfChannels: channels.length, length: channels[0].length, sampleRate: settings.sampleRate });
+    channels.forEach((samples, ch) => buffer.getChannelData(ch).set(samples));
+    return { buffer, metadata: {}, decode: { path: 'raw', format: `PCM brut (${describeRawPcm(settings)})` } };
+  }
+
   static generateWaveformData(audioBuffer: AudioBuffer, width: number): Float32Array {
-    const rawData = audioBuffer.getChannelData(0);
+    // Every channel counts, so a surround file whose front channels are
+    // quiet still shows its center or surrounds
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, ch) => audioBuffer.getChannelData(ch));
+    const rawData = channels[0];
     const samples = Math.min(width, 2000); // Cap samples for performance
     const blockSize = Math.floor(rawData.length / samples);
     const filteredData = new Float32Array(samples);
@@ -69,7 +358,11 @@ export class AudioUtils {
       for (let j = 0; j < blockSize && count < samplesPerBlock; j += skipFactor) {
         const idx = blockStart + j;
         if (idx < rawData.length) {
-          sum += Math.abs(rawData[idx]);
+          let peak = 0;
+          for (const channel of channels) {
+            peak = Math.max(peak, Math.abs(channel[idx]));
+          }
+          sum += peak;
           count++;
         }
       }
@@ -131,17 +424,19 @@ export class AudioUtils {
     audioBuffer: AudioBuffer,
     fadeIn: boolean,
     fadeOut: boolean,
-    fadeDuration: number = 1.0
+    fadeDuration: number = 1.0,
+    curve: FadeCurve = 'linear'
   ): Promise<AudioBuffer> {
-    const audioContext = new AudioContext();
     const sampleRate = audioBuffer.sampleRate;
     const fadeSamples = Math.floor(fadeDuration * sampleRate);
-    
-    const newBuffer = audioContext.createBuffer(
-      audioBuffer.numberOfChannels,
-      audioBuffer.length,
+
+    // No AudioContext: split exports fade many segments at once, and
+    // browsers only allow a handful of live contexts
+    const newBuffer = new AudioBuffer({
+      numberOfChannels: audioBuffer.numberOfChannels,
+      length: audioBuffer.length,
       sampleRate
-    );
+    });
 
     for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
       const inputData = audioBuffer.getChannelData(channel);
@@ -152,12 +447,12 @@ export class AudioUtils {
 
         // Apply fade in
         if (fadeIn && i < fadeSamples) {
-          gain = i / fadeSamples;
+          gain = fadeGain(curve, i / fadeSamples);
         }
 
-        // Apply fade out
-        if (fadeOut && i > audioBuffer.length - fadeSamples) {
-          gain = (audioBuffer.length - i) / fadeSamples;
+        // Apply fade out, on top of the fade in when they overlap
+        if (fadeOut && i >= audioBuffer.length - fadeSamples) {
+          gain *= fadeGain(curve, (audioBuffer.length - i) / fadeSamples);
         }
 
         outputData[i] = inputData[i] * gain;
@@ -167,14 +462,43 @@ export class AudioUtils {
     return newBuffer;
   }
 
-  static async mergeAudioBuffers(buffers: AudioBuffer[]): Promise<AudioBuffer> {
-    if (buffers.length === 0) {
+  /**
+   * Bring buffers to a common sample rate (the highest one) so they can be
+   * merged or mixed sample by sample. Files converted by FFmpeg keep their
+   * own rate instead of the AudioContext's.
+   */
+  static toCommonSampleRate(buffers: AudioBuffer[]): AudioBuffer[] {
+    const sampleRate = Math.max(...buffers.map(b => b.sampleRate));
+    return buffers.map(buffer => {
+      if (buffer.sampleRate === sampleRate) return buffer;
+
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) =>
+        resample(buffer.getChannelData(ch), buffer.sampleRate, sampleRate));
+      const resampled = new AudioBuffer({ numberOfChannels: channels.length, length: channels[0].length, sampleRate });
+      channels.forEach((data, ch) => resampled.getChannelData(ch).set(data));
+      return resampled;
+    });
+  }
+
+  /**
+   * Common sample rate, and the largest channel count: mono is copied to
+   * every channel, stereo keeps L and R in place in a surround layout
+   */
+  private static toCommonLayout(buffers: AudioBuffer[]): AudioBuffer[] {
+    const numberOfChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+    return AudioUtils.toCommonSampleRate(buffers)
+      .map(buffer => AudioUtils.remixAudioBuffer(buffer, numberOfChannels));
+  }
+
+  static async mergeAudioBuffers(sourceBuffers: AudioBuffer[]): Promise<AudioBuffer> {
+    if (sourceBuffers.length === 0) {
       throw new Error('No buffers to merge');
     }
+    const buffers = AudioUtils.toCommonLayout(sourceBuffers);
 
     const audioContext = new AudioContext();
     const sampleRate = buffers[0].sampleRate;
-    const numberOfChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+    const numberOfChannels = buffers[0].numberOfChannels;
     
     // Calculate total length
     const totalLength = buffers.reduce((sum, buffer) => sum + buffer.length, 0);
@@ -189,7 +513,7 @@ export class AudioUtils {
     for (const buffer of buffers) {
       for (let channel = 0; channel < numberOfChannels; channel++) {
         const outputData = mergedBuffer.getChannelData(channel);
-        const inputData = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+        const inputData = buffer.getChannelData(channel);
         
         for (let i = 0; i < buffer.length; i++) {
           outputData[offset + i] = inputData[i];
@@ -201,14 +525,15 @@ export class AudioUtils {
     return mergedBuffer;
   }
 
-  static async mixAudioBuffers(buffers: AudioBuffer[]): Promise<AudioBuffer> {
-    if (buffers.length === 0) {
+  static async mixAudioBuffers(sourceBuffers: AudioBuffer[]): Promise<AudioBuffer> {
+    if (sourceBuffers.length === 0) {
       throw new Error('No buffers to mix');
     }
+    const buffers = AudioUtils.toCommonLayout(sourceBuffers);
 
     const audioContext = new AudioContext();
     const sampleRate = buffers[0].sampleRate;
-    const numberOfChannels = Math.max(...buffers.map(b => b.numberOfChannels));
+    const numberOfChannels = buffers[0].numberOfChannels;
     
     // Find the longest buffer duration
     const maxLength = Math.max(...buffers.map(b => b.length));
@@ -223,7 +548,7 @@ export class AudioUtils {
     for (const buffer of buffers) {
       for (let channel = 0; channel < numberOfChannels; channel++) {
         const outputData = mixedBuffer.getChannelData(channel);
-        const inputData = buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1));
+        const inputData = buffer.getChannelData(channel);
         
         for (let i = 0; i < buffer.length; i++) {
           // Add samples together (mixing)
@@ -280,59 +605,6 @@ export class AudioUtils {
     return newBuffer;
   }
 
-  static audioBufferToWav(audioBuffer: AudioBuffer): Blob {
-    const numberOfChannels = audioBuffer.numberOfChannels;
-    const sampleRate = audioBuffer.sampleRate;
-    const format = 1; // PCM
-    const bitDepth = 16;
-
-    const bytesPerSample = bitDepth / 8;
-    const blockAlign = numberOfChannels * bytesPerSample;
-
-    const data = new Float32Array(audioBuffer.length * numberOfChannels);
-    for (let channel = 0; channel < numberOfChannels; channel++) {
-      const channelData = audioBuffer.getChannelData(channel);
-      for (let i = 0; i < audioBuffer.length; i++) {
-        data[i * numberOfChannels + channel] = channelData[i];
-      }
-    }
-
-    const dataLength = data.length * bytesPerSample;
-    const buffer = new ArrayBuffer(44 + dataLength);
-    const view = new DataView(buffer);
-
-    // WAV header
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
-
-    writeString(0, 'RIFF');
-    view.setUint32(4, 36 + dataLength, true);
-    writeString(8, 'WAVE');
-    writeString(12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, format, true);
-    view.setUint16(22, numberOfChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * blockAlign, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, bitDepth, true);
-    writeString(36, 'data');
-    view.setUint32(40, dataLength, true);
-
-    // Write audio data
-    let offset = 44;
-    for (let i = 0; i < data.length; i++) {
-      const sample = Math.max(-1, Math.min(1, data[i]));
-      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
-      offset += 2;
-    }
-
-    return new Blob([buffer], { type: 'audio/wav' });
-  }
-
   static downloadBlob(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -0,0 +1,236 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { EncodeProgressCallback, ExportOptions } from '@/types';
+import { encodeMp3 } from './mp3Encoder';
+import { encodeFlac } from './flacEncoder';
+import { encodeWav } from './wavEncoder';
+import { encodeOpus, encodeVorbis } from './opusVorbisEncoder';
+import { mixChannels } from './channelMixer';
+import { resample } from './resampler';
+import { normalizeLoudness } from './loudness';
+import { buildFlacPicture, buildId3v2Tag, hasMetadata, toFFmpegMetadataArgs, toVorbisComments } from './metadataWriter';
+import { buildFFmpegChapterMetadata } from './chapters';
+
+/**
+ * Encode that has to be finished by FFmpeg. FFmpeg runs in its own worker
+ * that only the main thread can drive, so the encoder hands back a float
+ * WAV intermediate and the arguments to transcode it with.
+ */
+export interface FFmpegEncodeJob {
+  input: Blob;
+  outputExtension: string;
+  args: string[];
+  mimeType: string;
+  prefix?: Uint8Array; // bytes to put in front of the FFmpeg output (ID3 tag)
+  extraFiles?: Array<{ fileName: string; data: Uint8Array }>; // extra inputs named in args
+  progressStart: number; // progress already reported for the intermediate
+}
+
+export type ChannelEncodeResult =
+  | { type: 'blob'; blob: Blob }
+  | { type: 'ffmpeg'; job: FFmpegEncodeJob };
+
+// Share of the progress bar given to writing the FFmpeg intermediate
+const FFMPEG_INTERMEDIATE_SHARE = 0.1;
+// Share given to resampling, when the sample rate changes
+const RESAMPLE_SHARE = 0.3;
+
+function ffmpegJob(
+  channels: Float32Array[],
+  sampleRate: number,
+  job: Omit<FFmpegEncodeJob, 'input' | 'progressStart'>,
+  onProgress?: EncodeProgressCallback
+): ChannelEncodeResult {
+  const input = encodeWav(channels, sampleRate, { bitDepth: 32 }, progress => onProgress?.(progress * FFMPEG_INTERMEDIATE_SHARE));
+  return { type: 'ffmpeg', job: { ...job, input, progressStart: FFMPEG_INTERMEDIATE_SHARE } };
+}
+
+/**
+ * MP3: CBR is encoded in-process with lamejs. lamejs has no VBR support, so
+ * VBR modes go through FFmpeg's libmp3lame, which writes its own LAME header.
+ * Tags are prepended as ID3v2.4 in both cases.
+ */
+function encodeMp3Export(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: ExportOptions,
+  onProgress?: EncodeProgressCallback
+): ChannelEncodeResult {
+  const channelMode = options.channelMode ?? 'joint-stereo';
+  const tag = hasMetadata(options.metadata) ? buildId3v2Tag(options.metadata) : undefined;
+
+  if (options.bitrateMode === 'vbr') {
+    // FFmpeg's own ID3 tag is disabled in favour of ours
+    const args = ['-c:a', 'libmp3lame', '-q:a', String(options.vbrQuality ?? 2), '-id3v2_version', '0'];
+    if (channelMode === 'mono' || channels.length === 1) {
+      args.push('-ac', '1');
+    } else {
+      args.push('-ac', '2', '-joint_stereo', channelMode === 'joint-stereo' ? '1' : '0');
+    }
+    return ffmpegJob(channels, sampleRate, { outputExtension: 'mp3', args, mimeType: 'audio/mpeg', prefix: tag }, onProgress);
+  }
+
+  const mp3 = encodeMp3(channels, sampleRate, options.bitrate || 320, channelMode, onProgress);
+  return { type: 'blob', blob: new Blob(tag ? [tag, mp3] : [mp3], { type: 'audio/mpeg' }) };
+}
+
+/**
+ * FLAC with the built-in encoder (no FFmpeg needed)
+ */
+function encodeFlacExport(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: ExportOptions,
+  onProgress?: EncodeProgressCallback
+): ChannelEncodeResult {
+  const metadata = options.metadata;
+  const flac = encodeFlac(channels, sampleRate, {
+    // FLAC has no float samples, 32-bit float sources are stored as 24-bit
+    bitDepth: options.bitDepth === 16 ? 16 : options.bitDepth ? 24 : undefined,
+    compressionLevel: options.compressionLevel,
+    dither: options.dither,
+    comments: metadata ? toVorbisComments(metadata) : undefined,
+    picture: metadata?.coverArt ? buildFlacPicture(metadata.coverArt) : undefined
+  }, onProgress);
+  return { type: 'blob', blob: new Blob([flac], { type: 'audio/flac' }) };
+}
+
+/**
+ * Opus in an Ogg or WebM container.
+ * Uses the browser's WebCodecs encoder when available, FFmpeg's libopus otherwise.
+ */
+async function encodeOpusExport(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: ExportOptions,
+  onProgress?: EncodeProgressCallback
+): Promise<ChannelEncodeResult> {
+  const container = options.format === 'webm' ? 'webm' : 'ogg';
+  const bitrate = options.bitrate || 128;
+  const encoded = await encodeOpus(channels, sampleRate, bitrate, container, options.metadata, onProgress);
+  if (encoded) {
+    return { type: 'blob', blob: encoded };
+  }
+
+  return ffmpegJob(channels, sampleRate, {
+    outputExtension: container === 'webm' ? 'webm' : 'opus',
+    args: ['-c:a', 'libopus', '-b:a', `${bitrate}k`, ...toFFmpegMetadataArgs(options.metadata, container === 'ogg')],
+    mimeType: container === 'webm' ? 'audio/webm' : 'audio/ogg; codecs=opus'
+  }, onProgress);
+}
+
+/**
+ * Ogg Vorbis.
+ * Few browsers ship a Vorbis encoder, so this usually ends up in FFmpeg's libvorbis.
+ */
+async function encodeVorbisExport(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: ExportOptions,
+  onProgress?: EncodeProgressCallback
+): Promise<ChannelEncodeResult> {
+  const bitrate = options.bitrate || 192;
+  const encoded = await encodeVorbis(channels, sampleRate, bitrate, options.metadata, onProgress);
+  if (encoded) {
+    return { type: 'blob', blob: encoded };
+  }
+
+  return ffmpegJob(channels, sampleRate, {
+    outputExtension: 'ogg',
+    args: ['-c:a', 'libvorbis', '-b:a', `${bitrate}k`, ...toFFmpegMetadataArgs(options.metadata, true)],
+    mimeType: 'audio/ogg; codecs=vorbis'
+  }, onProgress);
+}
+
+/**
+ * AAC in an MP4 (.m4a) container, through FFmpeg's native encoder.
+ * Chapters go in through an FFmpeg metadata file; the MP4 muxer turns them
+ * into a QuickTime chapter track and a Nero chpl atom.
+ */
+function encodeM4aExport(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: ExportOptions,
+  onProgress?: EncodeProgressCallback
+): ChannelEncodeResult {
+  const args = ['-c:a', 'aac', '-b:a', `${options.bitrate || 192}k`];
+  const extraFiles: FFmpegEncodeJob['extraFiles'] = [];
+  const chapters = options.metadata?.chapters;
+
+  if (chapters?.length) {
+    const fileName = `chapters_${Date.now()}_${Math.floor(Math.random() * 1e6)}.txt`;
+    extraFiles.push({ fileName, data: new TextEncoder().encode(buildFFmpegChapterMetadata(chapters)) });
+    args.unshift('-i', fileName, '-map', '0:a', '-map_chapters', '1');
+  }
+
+  args.push(...toFFmpegMetadataArgs(options.metadata), '-movflags', '+faststart');
+  return ffmpegJob(channels, sampleRate, { outputExtension: 'm4a', args, mimeType: 'audio/mp4', extraFiles }, onProgress);
+}
+
+/**
+ * Encode planar float channel data with the format and settings chosen in
+ * the export dialog. Runs in the encoder workers, so it must not touch the DOM.
+ * The channel layout is converted first, so resampling works on as few
+ * channels as possible when downmixing. Loudness is measured last, on the
+ * signal that is actually encoded. The channel arrays may be modified.
+ */
+export async function encodeChannels(
+  sourceChannels: Float32Array[],
+  sourceSampleRate: number,
+  options: ExportOptions,
+  onProgress?: EncodeProgressCallback
+): Promise<ChannelEncodeResult> {
+  let channels = options.channelCount ? mixChannels(sourceChannels, options.channelCount) : sourceChannels;
+  const sampleRate = options.sampleRate ?? sourceSampleRate;
+  const resamples = sampleRate !== sourceSampleRate;
+
+  if (resamples) {
+    const converted: Float32Array[] = [];
+    for (const channel of channels) {
+      converted.push(resample(channel, sourceSampleRate, sampleRate));
+      onProgress?.(RESAMPLE_SHARE * converted.length / channels.length);
+    }
+    channels = converted;
+
+    const encodeProgress = onProgress;
+    onProgress = encodeProgress && (progress => encodeProgress(RESAMPLE_SHARE + (1 - RESAMPLE_SHARE) * progress));
+  }
+
+  if (options.loudnessTarget !== undefined) {
+    normalizeLoudness(channels, sampleRate, options.loudnessTarget);
+  }
+
+  const result = await encodeFormat(channels, sampleRate, options, onProgress);
+  // FFmpeg carries on from what was reported, the resampling included
+  if (result.type === 'ffmpeg' && resamples) {
+    result.job.progressStart = RESAMPLE_SHARE + (1 - RESAMPLE_SHARE) * result.job.progressStart;
+  }
+  return result;
+}
+
+/**
+ * Encode the mixed, resampled and normalized channels in the chosen format
+ */
+async function encodeFormat(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: ExportOptions,
+  onProgress?: EncodeProgressCallback
+): Promise<ChannelEncodeResult> {
+  switch (options.format) {
+    case 'mp3':
+      return encodeMp3Export(channels, sampleRate, options, onProgress);
+    case 'flac':
+      return encodeFlacExport(channels, sampleRate, options, onProgress);
+    case 'ogg':
+      return encodeVorbisExport(channels, sampleRate, options, onProgress);
+    case 'opus':
+    case 'webm':
+      return encodeOpusExport(channels, sampleRate, options, onProgress);
+    case 'm4a':
+      return encodeM4aExport(channels, sampleRate, options, onProgress);
+    default:
+      return { type: 'blob', blob: encodeWav(channels, sampleRate, options, onProgress) };
+  }
+}
@@ -0,0 +1,141 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+// Rows are output channels, columns input channels
+export type MixMatrix = number[][];
+
+const CENTER = Math.SQRT1_2; // -3 dB
+const SURROUND = Math.SQRT1_2;
+
+// ITU-R BS.775 stereo downmix for the WAVE channel orders.
+// LFE is dropped, as the recommendation suggests.
+const STEREO_DOWNMIX: Record<number, MixMatrix> = {
+  // L R C
+  3: [[1, 0, CENTER], [0, 1, CENTER]],
+  // L R Ls Rs
+  4: [[1, 0, SURROUND, 0], [0, 1, 0, SURROUND]],
+  // L R C Ls Rs
+  5: [[1, 0, CENTER, SURROUND, 0], [0, 1, CENTER, 0, SURROUND]],
+  // L R C LFE Ls Rs
+  6: [[1, 0, CENTER, 0, SURROUND, 0], [0, 1, CENTER, 0, 0, SURROUND]],
+  // L R C LFE Lb Rb Ls Rs
+  8: [
+    [1, 0, CENTER, 0, SURROUND, 0, SURROUND, 0],
+    [0, 1, CENTER, 0, 0, SURROUND, 0, SURROUND]
+  ],
+};
+
+// Speaker names in the WAVE channel order, matching the downmix tables above
+const CHANNEL_LABELS: Record<number, string[]> = {
+  1: ['M'],
+  2: ['L', 'R'],
+  3: ['L', 'R', 'C'],
+  4: ['L', 'R', 'Ls', 'Rs'],
+  5: ['L', 'R', 'C', 'Ls', 'Rs'],
+  6: ['L', 'R', 'C', 'LFE', 'Ls', 'Rs'],
+  8: ['L', 'R', 'C', 'LFE', 'Lb', 'Rb', 'Ls', 'Rs'],
+};
+
+const LAYOUT_NAMES: Record<number, string> = {
+  1: 'Mono',
+  2: 'Stéréo',
+  3: '3.0',
+  4: 'Quadriphonie',
+  5: '5.0',
+  6: '5.1',
+  8: '7.1',
+};
+
+/**
+ * Speaker label of each channel; unknown layouts are numbered
+ */
+export function channelLabels(channelCount: number): string[] {
+  return CHANNEL_LABELS[channelCount]
+    ?? Array.from({ length: channelCount }, (_, ch) => `Ch${ch + 1}`);
+}
+
+/**
+ * Layout name for a channel count, e.g. "5.1"
+ */
+export function channelLayoutName(channelCount: number): string {
+  return LAYOUT_NAMES[channelCount] ?? `${channelCount} canaux`;
+}
+
+/**
+ * Scale each row so its gains add up to 1 and a full-scale input cannot clip
+ */
+function normalizeRows(matrix: MixMatrix): MixMatrix {
+  return matrix.map(row => {
+    const total = row.reduce((sum, gain) => sum + gain, 0);
+    return total > 1 ? row.map(gain => gain / total) : row;
+  });
+}
+
+function stereoDownmix(inputCount: number): MixMatrix {
+  const known = STEREO_DOWNMIX[inputCount];
+  if (known) return normalizeRows(known);
+
+  // Unknown layouts: odd channels to the left, even channels to the right
+  const matrix: MixMatrix = [new Array(inputCount).fill(0), new Array(inputCount).fill(0)];
+  for (let ch = 0; ch < inputCount; ch++) {
+    matrix[ch % 2][ch] = 1;
+  }
+  return normalizeRows(matrix);
+}
+
+/**
+ * Gains to go from one channel count to another.
+ * Mono is spread to every output, stereo and surround fold down to stereo
+ * with BS.775 coefficients, and mono outputs average the stereo downmix.
+ * Extra outputs beyond the input layout are left silent.
+ */
+export function getMixMatrix(inputCount: number, outputCount: number): MixMatrix {
+  if (inputCount === outputCount) {
+    return Array.from({ length: outputCount }, (_, out) =>
+      Array.from({ length: inputCount }, (_, ch) => (ch === out ? 1 : 0)));
+  }
+
+  if (inputCount === 1) {
+    return Array.from({ length: outputCount }, () => [1]);
+  }
+
+  if (outputCount === 1) {
+    const stereo = inputCount === 2 ? [[1, 0], [0, 1]] : stereoDownmix(inputCount);
+    return [stereo[0].map((gain, ch) => (gain + stereo[1][ch]) / 2)];
+  }
+
+  if (outputCount === 2) {
+    return stereoDownmix(inputCount);
+  }
+
+  // Upmix to surround: keep the channels we have in place
+  return Array.from({ length: outputCount }, (_, out) =>
+    Array.from({ length: inputCount }, (_, ch) => (ch === out ? 1 : 0)));
+}
+
+/**
+ * Apply a mix matrix to planar channel data
+ */
+export function applyMixMatrix(channels: Float32Array[], matrix: MixMatrix): Float32Array[] {
+  const length = channels[0]?.length ?? 0;
+
+  return matrix.map(row => {
+    const output = new Float32Array(length);
+    row.forEach((gain, ch) => {
+      if (gain === 0) return;
+      const input = channels[ch];
+      for (let i = 0; i < length; i++) {
+        output[i] += input[i] * gain;
+      }
+    });
+    return output;
+  });
+}
+
+/**
+ * Remix planar channel data to the given channel count
+ */
+export function mixChannels(channels: Float32Array[], outputCount: number): Float32Array[] {
+  if (channels.length === outputCount) return channels;
+  return applyMixMatrix(channels, getMixMatrix(channels.length, outputCount));
+}
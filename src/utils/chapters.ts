@@ -0,0 +1,100 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { AudioChapter, AudioMetadata } from '@/types';
+
+// Starts closer than this are treated as the same boundary
+const BOUNDARY_TOLERANCE = 0.01;
+
+// CD frames per second, the time unit of cue sheet indexes
+const CUE_FRAMES_PER_SECOND = 75;
+
+/**
+ * Sort chapters, drop duplicate boundaries and close each chapter at the
+ * start of the next one (the last one at the end of the audio)
+ */
+export function normalizeChapters(chapters: AudioChapter[], duration: number): AudioChapter[] {
+  const sorted = [...chapters]
+    .filter(chapter => chapter.startTime < duration)
+    .sort((a, b) => a.startTime - b.startTime);
+
+  const unique = sorted.filter((chapter, i) =>
+    i === 0 || chapter.startTime - sorted[i - 1].startTime > BOUNDARY_TOLERANCE);
+
+  return unique.map((chapter, i) => ({
+    title: chapter.title,
+    startTime: Math.max(0, chapter.startTime),
+    endTime: i < unique.length - 1 ? unique[i + 1].startTime : duration
+  }));
+}
+
+/**
+ * One chapter per segment, for segments laid end to end
+ */
+export function chaptersFromSegments(
+  segments: Array<{ startTime: number; endTime: number }>,
+  titleFor: (index: number) => string
+): AudioChapter[] {
+  const duration = segments.reduce((end, segment) => Math.max(end, segment.endTime), 0);
+  return normalizeChapters(
+    segments.map((segment, i) => ({ title: titleFor(i), startTime: segment.startTime })),
+    duration
+  );
+}
+
+function cueTime(seconds: number): string {
+  const frames = Math.round(seconds * CUE_FRAMES_PER_SECOND);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${pad(Math.floor(frames / (60 * CUE_FRAMES_PER_SECOND)))}:${pad(Math.floor(frames / CUE_FRAMES_PER_SECOND) % 60)}:${pad(frames % CUE_FRAMES_PER_SECOND)}`;
+}
+
+// Cue sheet strings are double-quoted with no escape sequence
+function cueString(value: string): string {
+  return `"${value.replace(/"/g, "'").replace(/[\r\n]+/g, ' ')}"`;
+}
+
+/**
+ * Cue sheet describing the chapters of an exported file as tracks.
+ * WAVE is also the file type players expect for FLAC.
+ */
+export function buildCueSheet(audioFileName: string, metadata: AudioMetadata, chapters: AudioChapter[]): string {
+  const lines: string[] = [];
+  if (metadata.genre) lines.push(`REM GENRE ${cueString(metadata.genre)}`);
+  if (metadata.year) lines.push(`REM DATE ${metadata.year}`);
+  if (metadata.comment) lines.push(`REM COMMENT ${cueString(metadata.comment)}`);
+  if (metadata.artist) lines.push(`PERFORMER ${cueString(metadata.artist)}`);
+  if (metadata.album || metadata.title) lines.push(`TITLE ${cueString(metadata.album || metadata.title || '')}`);
+  lines.push(`FILE ${cueString(audioFileName)} WAVE`);
+
+  chapters.slice(0, 99).forEach((chapter, i) => {
+    lines.push(`  TRACK ${(i + 1).toString().padStart(2, '0')} AUDIO`);
+    lines.push(`    TITLE ${cueString(chapter.title)}`);
+    if (metadata.artist) lines.push(`    PERFORMER ${cueString(metadata.artist)}`);
+    lines.push(`    INDEX 01 ${cueTime(chapter.startTime)}`);
+  });
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+// FFmpeg metadata files escape these with a backslash
+function ffmetadataValue(value: string): string {
+  return value.replace(/[=;#\\\n]/g, match => `\\${match}`);
+}
+
+/**
+ * FFmpeg metadata file (;FFMETADATA1) holding the chapters, for muxers
+ * that write their own chapter structures (MP4 chapter track and Nero chpl)
+ */
+export function buildFFmpegChapterMetadata(chapters: AudioChapter[]): string {
+  const lines = [';FFMETADATA1'];
+  for (const chapter of chapters) {
+    lines.push(
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(chapter.startTime * 1000)}`,
+      `END=${Math.round((chapter.endTime ?? chapter.startTime) * 1000)}`,
+      `title=${ffmetadataValue(chapter.title)}`
+    );
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,160 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { EncodeControl } from '@/types';
+import type { AudioDemuxer } from './demuxer';
+import { createAbortError } from './encoderPool';
+import type { SniffedFormat } from './formatSniffer';
+import { openMp3Demuxer } from './mp3Demuxer';
+import { openMp4Demuxer } from './mp4Demuxer';
+import { openOggDemuxer } from './oggDemuxer';
+import { PagedSampleStore } from './pagedSampleStore';
+import { openWavDemuxer } from './wavDemuxer';
+
+// Decoded blocks waiting to be appended before demuxing pauses
+const MAX_PENDING_BLOCKS = 32;
+// Packets queued in the decoder before demuxing pauses
+const MAX_DECODE_QUEUE = 64;
+// Progress is reported in steps of this size
+const PROGRESS_STEP = 0.005;
+
+/**
+ * A demuxer for the sniffed container, or null when it has none or the
+ * codec inside is not one the chunked decoder handles
+ */
+export async function openDemuxer(file: Blob, sniffed: SniffedFormat | null): Promise<AudioDemuxer | null> {
+  switch (sniffed?.container) {
+    case 'wav': return openWavDemuxer(file);
+    case 'mpeg': return openMp3Demuxer(file);
+    case 'ogg': return openOggDemuxer(file);
+    // Video files too: the first audio track is taken
+    case 'mp4': return openMp4Demuxer(file);
+    default: return null;
+  }
+}
+
+function decoderConfig(demuxer: AudioDemuxer): AudioDecoderConfig {
+  const { codec, sampleRate, numberOfChannels, description } = demuxer.info;
+  return { codec, sampleRate, numberOfChannels, description };
+}
+
+/**
+ * Check whether the stream can be decoded block by block: PCM always,
+ * compressed codecs when WebCodecs supports them
+ */
+export async function isChunkedDecodeSupported(demuxer: AudioDemuxer): Promise<boolean> {
+  if (demuxer.kind === 'pcm') return true;
+  if (typeof AudioDecoder === 'undefined') return false;
+  try {
+    const support = await AudioDecoder.isConfigSupported(decoderConfig(demuxer));
+    return support.supported === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decode a whole stream into a PagedSampleStore, one packet at a time, so
+ * neither the file nor the decoded samples are ever held in one piece.
+ * Callers should check isChunkedDecodeSupported() first.
+ */
+export async function decodeInChunks(demuxer: AudioDemuxer, control: EncodeControl = {}): Promise<PagedSampleStore> {
+  let lastProgress = 0;
+  const reportProgress = () => {
+    const progress = Math.min(1, demuxer.progress());
+    if (progress - lastProgress >= PROGRESS_STEP) {
+      lastProgress = progress;
+      control.onProgress?.(progress);
+    }
+  };
+
+  if (demuxer.kind === 'pcm') {
+    const store = await PagedSampleStore.create(demuxer.info.sampleRate, demuxer.info.numberOfChannels);
+    try {
+      for await (const channels of demuxer.frames()) {
+        if (control.signal?.aborted) throw createAbortError();
+        await store.append(channels);
+        reportProgress();
+      }
+      await store.finish();
+      control.onProgress?.(1);
+      return store;
+    } catch (error) {
+      await store.dispose();
+      throw error;
+    }
+  }
+
+  // The store follows the decoder output, which can differ from the headers
+  // (HE-AAC doubles the rate, parametric stereo adds a channel). The
+  // assertion keeps TypeScript from narrowing it to null past the callbacks.
+  let store = null as PagedSampleStore | null;
+  let writing: Promise<void> = Promise.resolve();
+  let pendingBlocks = 0;
+  let failure: unknown = null;
+  // Wakes the demuxing loop when it waits for the decoder queue to drain
+  let resume: (() => void) | null = null;
+
+  const decoder = new AudioDecoder({
+    output: (data) => {
+      const channels = Array.from({ length: data.numberOfChannels }, (_, ch) => {
+        const samples = new Float32Array(data.numberOfFrames);
+        data.copyTo(samples, { planeIndex: ch, format: 'f32-planar' });
+        return samples;
+      });
+      const { sampleRate, numberOfChannels } = data;
+      data.close();
+
+      pendingBlocks++;
+      writing = writing.then(async () => {
+        store ??= await PagedSampleStore.create(sampleRate, numberOfChannels);
+        await store.append(channels);
+        pendingBlocks--;
+      }).catch(error => {
+        failure ??= error;
+      });
+    },
+    error: (error) => {
+      failure ??= error;
+      resume?.();
+    }
+  });
+  decoder.ondequeue = () => resume?.();
+
+  try {
+    decoder.configure(decoderConfig(demuxer));
+
+    for await (const packet of demuxer.packets()) {
+      if (control.signal?.aborted) throw createAbortError();
+      if (failure) throw failure;
+
+      decoder.decode(new EncodedAudioChunk({ type: 'key', timestamp: packet.timestamp, data: packet.data }));
+      while (decoder.decodeQueueSize > MAX_DECODE_QUEUE && !failure) {
+        await new Promise<void>(resolve => { resume = resolve; });
+        resume = null;
+      }
+      if (pendingBlocks > MAX_PENDING_BLOCKS) {
+        await writing;
+      }
+      reportProgress();
+    }
+
+    await decoder.flush();
+    await writing;
+    if (failure) throw failure;
+    if (!store) throw new Error('The decoder produced no audio');
+
+    await store.finish();
+    control.onProgress?.(1);
+    return store;
+  } catch (error) {
+    // Closed first, so no output lands on the store after it is disposed of
+    // or creates one nobody disposes of
+    if (decoder.state !== 'closed') decoder.close();
+    await writing;
+    await store?.dispose();
+    throw error;
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+  }
+}
@@ -0,0 +1,57 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { DecodeMemoryEstimate } from '@/types';
+import type { DecoderRoute } from './formatSniffer';
+import type { DemuxedStreamInfo } from './demuxer';
+
+const GB = 1024 * 1024 * 1024;
+// Used when the browser does not report navigator.deviceMemory
+const DEFAULT_DEVICE_MEMORY_GB = 4;
+// Tabs rarely get more than this for array buffers, whatever the device has
+const MAX_BUDGET = 2 * GB;
+
+/**
+ * Memory the page can use for decoded audio: half of the device memory,
+ * capped to what a browser tab usually gets
+ */
+export function decodeMemoryBudget(): number {
+  const deviceMemory = (navigator as { deviceMemory?: number }).deviceMemory || DEFAULT_DEVICE_MEMORY_GB;
+  return Math.min(MAX_BUDGET, (deviceMemory * GB) / 2);
+}
+
+/**
+ * Peak memory of a full decode. The browser holds the file and the decoded
+ * buffer at once, plus its own copy of the input while decoding; FFmpeg
+ * also copies the file into its file system and writes a float WAV that is
+ * read back before decoding.
+ */
+export function estimateDecodeMemory(
+  fileBytes: number,
+  info: DemuxedStreamInfo,
+  route: DecoderRoute,
+  chunkedSupported: boolean
+): DecodeMemoryEstimate {
+  const decodedBytes = Math.round(info.duration * info.sampleRate) * info.numberOfChannels * Float32Array.BYTES_PER_ELEMENT;
+  const fullDecodeBytes = route === 'ffmpeg'
+    ? fileBytes * 3 + decodedBytes * 3
+    : fileBytes * 2 + decodedBytes;
+
+  return {
+    fileBytes,
+    duration: info.duration,
+    sampleRate: info.sampleRate,
+    numberOfChannels: info.numberOfChannels,
+    decodedBytes,
+    fullDecodeBytes,
+    budget: decodeMemoryBudget(),
+    chunkedSupported
+  };
+}
+
+/**
+ * Whether a full decode comes close enough to the budget to ask first
+ */
+export function isLargeDecode(estimate: DecodeMemoryEstimate): boolean {
+  return estimate.fullDecodeBytes > estimate.budget / 2;
+}
@@ -0,0 +1,111 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+// Shared pieces of the demuxers used by the chunked decoder. They read the
+// file through Blob slices so it never has to fit in memory at once.
+
+export interface DemuxedStreamInfo {
+  container: string; // shown to the user, e.g. "MP3"
+  codec: string; // WebCodecs codec string; 'pcm' when the demuxer reads the samples itself
+  sampleRate: number;
+  numberOfChannels: number;
+  duration: number; // seconds, from the headers; an estimate for some formats
+  description?: Uint8Array; // decoder configuration, e.g. the AAC AudioSpecificConfig
+}
+
+export interface DemuxedPacket {
+  data: Uint8Array;
+  timestamp: number; // microseconds
+}
+
+export type AudioDemuxer =
+  | { kind: 'encoded'; info: DemuxedStreamInfo; packets: () => AsyncGenerator<DemuxedPacket>; progress: () => number }
+  | { kind: 'pcm'; info: DemuxedStreamInfo; frames: () => AsyncGenerator<Float32Array[]>; progress: () => number };
+
+// Bytes fetched per slice when reading sequentially
+const READ_BLOCK_SIZE = 1 << 20;
+
+const latin1 = new TextDecoder('latin1');
+
+export async function readBlobRange(blob: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await blob.slice(start, end).arrayBuffer());
+}
+
+/**
+ * Sequential reader over a Blob that fetches it one block at a time
+ */
+export class BlobReader {
+  private buffer: Uint8Array = new Uint8Array(0);
+  private bufferStart = 0;
+  position = 0;
+
+  constructor(private blob: Blob) {}
+
+  get size(): number {
+    return this.blob.size;
+  }
+
+  /**
+   * The next bytes without consuming them; shorter than asked at the end of the blob
+   */
+  async peek(length: number): Promise<Uint8Array> {
+    const end = Math.min(this.position + length, this.blob.size);
+    if (this.position < this.bufferStart || end > this.bufferStart + this.buffer.length) {
+      this.bufferStart = this.position;
+      this.buffer = await readBlobRange(this.blob, this.position, Math.max(end, this.position + READ_BLOCK_SIZE));
+    }
+    const offset = this.position - this.bufferStart;
+    return this.buffer.subarray(offset, offset + (end - this.position));
+  }
+
+  async read(length: number): Promise<Uint8Array> {
+    const bytes = await this.peek(length);
+    this.position += bytes.length;
+    return bytes;
+  }
+}
+
+export function ascii(data: Uint8Array, offset: number, length: number): string {
+  return latin1.decode(data.subarray(offset, offset + length));
+}
+
+export function viewOf(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+// An MP4 box (QuickTime atom) found in a buffer
+export interface Box {
+  type: string;
+  start: number; // payload start
+  end: number;
+}
+
+/**
+ * The boxes laid end to end in data[start, end), cut short at the end
+ */
+export function readBoxes(data: Uint8Array, start: number, end: number): Box[] {
+  const view = viewOf(data);
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) break;
+
+    boxes.push({ type: ascii(data, offset + 4, 4), start: offset + headerSize, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+export function childBox(data: Uint8Array, parent: Box, type: string): Box | undefined {
+  return readBoxes(data, parent.start, parent.end).find(box => box.type === type);
+}
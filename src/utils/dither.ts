@@ -0,0 +1,60 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { DitherType } from '@/types';
+
+// Lipshitz 5-tap error feedback filter, pushes requantization noise above ~15 kHz
+const NOISE_SHAPING_COEFFICIENTS = [2.033, -2.165, 1.959, -1.59, 0.6149];
+
+/**
+ * Converts float samples to signed integers of the target bit depth,
+ * optionally adding TPDF dither with or without noise shaping.
+ * Keeps per-channel error history, so feed each channel in order.
+ */
+export class Quantizer {
+  private readonly scale: number;
+  private readonly min: number;
+  private readonly max: number;
+  private readonly errors: Float64Array[];
+
+  constructor(bitDepth: number, channelCount: number, private readonly dither: DitherType = 'none') {
+    this.scale = 2 ** (bitDepth - 1);
+    this.min = -this.scale;
+    this.max = this.scale - 1;
+    this.errors = Array.from({ length: channelCount }, () => new Float64Array(NOISE_SHAPING_COEFFICIENTS.length));
+  }
+
+  quantize(sample: number, channel: number): number {
+    let target = sample * this.scale;
+
+    if (this.dither === 'none') {
+      return Math.max(this.min, Math.min(this.max, Math.round(target)));
+    }
+
+    const history = this.errors[channel];
+    if (this.dither === 'noise-shaped') {
+      for (let i = 0; i < history.length; i++) {
+        target -= NOISE_SHAPING_COEFFICIENTS[i] * history[i];
+      }
+    }
+
+    // Triangular PDF noise spanning +/- 1 LSB
+    const noise = Math.random() - Math.random();
+    const rounded = Math.round(target + noise);
+    const value = Math.max(this.min, Math.min(this.max, rounded));
+
+    if (this.dither === 'noise-shaped') {
+      history.copyWithin(1, 0, history.length - 1);
+      // Clipped samples are not fed back, or the filter would run away
+      history[0] = rounded === value ? value - target : 0;
+    }
+
+    return value;
+  }
+
+  quantizeChannel(input: Float32Array, output: Int32Array, channel: number): void {
+    for (let i = 0; i < output.length; i++) {
+      output[i] = this.quantize(input[i], channel);
+    }
+  }
+}
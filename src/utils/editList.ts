@@ -0,0 +1,322 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { EditSegment, SampleSource, SegmentFade } from '@/types';
+import { DEFAULT_FADE_CURVE, fadeGain } from './fadeCurves';
+import { readAudioBuffer } from './sampleSource';
+
+export interface RenderOptions {
+  crossfade?: number; // frames, centered on each join
+}
+
+let nextSegmentId = 0;
+
+export function createSegmentId(): string {
+  return `${Date.now()}-${nextSegmentId++}`;
+}
+
+/**
+ * One segment covering the whole source
+ */
+export function initialEditList(source: SampleSource): EditSegment[] {
+  return [{ id: createSegmentId(), offset: 0, length: source.length }];
+}
+
+/**
+ * Timeline length of the edit list, in frames
+ */
+export function editListLength(segments: EditSegment[]): number {
+  return segments.reduce((total, segment) => total + segment.length, 0);
+}
+
+/**
+ * Where each segment starts on the timeline, in frames; segments are laid
+ * end to end
+ */
+export function segmentStarts(segments: EditSegment[]): number[] {
+  const starts: number[] = [];
+  let position = 0;
+  for (const segment of segments) {
+    starts.push(position);
+    position += segment.length;
+  }
+  return starts;
+}
+
+/**
+ * Timeline positions in seconds, the shape chapters and file name patterns take
+ */
+export function segmentTimes(segments: EditSegment[], sampleRate: number): Array<{ startTime: number; endTime: number }> {
+  return segmentStarts(segments).map((start, i) => ({
+    startTime: start / sampleRate,
+    endTime: (start + segments[i].length) / sampleRate
+  }));
+}
+
+/**
+ * Split the segment under a timeline frame in two. Null when the frame is
+ * not at least minFrames inside a segment.
+ */
+export function splitSegment(segments: EditSegment[], frame: number, minFrames = 1): EditSegment[] | null {
+  const starts = segmentStarts(segments);
+  const index = segments.findIndex((segment, i) =>
+    frame >= starts[i] + minFrames && frame <= starts[i] + segment.length - minFrames);
+  if (index === -1) return null;
+
+  // The fade-in stays on the first half, the fade-out on the second
+  const { fadeIn, fadeOut, ...segment } = segments[index];
+  const head = frame - starts[index];
+  return [
+    ...segments.slice(0, index),
+    { ...segment, id: createSegmentId(), length: head, fadeIn },
+    { ...segment, id: createSegmentId(), offset: segment.offset + head, length: segment.length - head, fadeOut },
+    ...segments.slice(index + 1)
+  ];
+}
+
+/**
+ * A segment of silence, for inserting pauses or blanking a range
+ */
+export function silentSegment(length: number): EditSegment {
+  return { id: createSegmentId(), offset: 0, length, silent: true };
+}
+
+/**
+ * The part of the timeline between two frames, as segments of its own.
+ * Fades stay only on segment edges that fall inside the range.
+ */
+export function sliceEditList(segments: EditSegment[], start: number, end: number): EditSegment[] {
+  const starts = segmentStarts(segments);
+  const slice: EditSegment[] = [];
+  segments.forEach((segment, i) => {
+    const from = Math.max(start, starts[i]) - starts[i];
+    const to = Math.min(end, starts[i] + segment.length) - starts[i];
+    if (to <= from) return;
+
+    const { fadeIn, fadeOut, ...rest } = segment;
+    slice.push({
+      ...rest,
+      id: createSegmentId(),
+      offset: segment.offset + from,
+      length: to - from,
+      ...(from === 0 && fadeIn ? { fadeIn } : {}),
+      ...(to === segment.length && fadeOut ? { fadeOut } : {})
+    });
+  });
+  return slice;
+}
+
+/**
+ * Remove the frames between start and end; what follows moves back
+ */
+export function removeRange(segments: EditSegment[], start: number, end: number): EditSegment[] {
+  return [
+    ...sliceEditList(segments, 0, start),
+    ...sliceEditList(segments, end, editListLength(segments))
+  ];
+}
+
+/**
+ * Insert segments at a timeline frame; what follows moves on
+ */
+export function insertAt(segments: EditSegment[], frame: number, inserted: EditSegment[]): EditSegment[] {
+  return [
+    ...sliceEditList(segments, 0, frame),
+    ...inserted.map(segment => ({ ...segment, id: createSegmentId() })),
+    ...sliceEditList(segments, frame, editListLength(segments))
+  ];
+}
+
+/**
+ * Replace the frames between start and end with other segments, silence
+ * by default
+ */
+export function replaceRange(
+  segments: EditSegment[],
+  start: number,
+  end: number,
+  replacement: EditSegment[] = [silentSegment(end - start)]
+): EditSegment[] {
+  return insertAt(removeRange(segments, start, end), start, replacement);
+}
+
+/**
+ * Move one edge of a segment. The source frames past the edge are still
+ * there, so an edge can be dragged back out as far as the source goes.
+ */
+export function resizeSegment(
+  segments: EditSegment[],
+  id: string,
+  edge: 'start' | 'end',
+  delta: number,
+  sourceLength: number,
+  minFrames = 1
+): EditSegment[] {
+  return segments.map(segment => {
+    if (segment.id !== id) return segment;
+    // Silence has no source to run out of
+    const available = segment.silent ? Infinity : sourceLength;
+    if (segment.silent && edge === 'start') {
+      return { ...segment, length: Math.max(minFrames, segment.length - delta) };
+    }
+    if (edge === 'start') {
+      const offset = Math.max(0, Math.min(segment.offset + delta, segment.offset + segment.length - minFrames));
+      return { ...segment, offset, length: segment.length - (offset - segment.offset) };
+    }
+    const length = Math.max(minFrames, Math.min(segment.length + delta, available - segment.offset));
+    return { ...segment, length };
+  });
+}
+
+/**
+ * Change the length or curve of a segment fade; the length is kept within
+ * the segment
+ */
+export function setSegmentFade(
+  segments: EditSegment[],
+  id: string,
+  edge: 'in' | 'out',
+  changes: Partial<SegmentFade>
+): EditSegment[] {
+  const key = edge === 'in' ? 'fadeIn' : 'fadeOut';
+  return segments.map(segment => {
+    if (segment.id !== id) return segment;
+    const current = segment[key] ?? { length: 0, curve: DEFAULT_FADE_CURVE };
+    const length = Math.max(0, Math.min(changes.length ?? current.length, segment.length));
+    return { ...segment, [key]: { ...current, ...changes, length } };
+  });
+}
+
+/**
+ * Half-widths of the crossfade at the join after each segment. Segments that
+ * follow each other in the source join seamlessly and get none.
+ */
+function crossfadeHalves(segments: EditSegment[], crossfade: number): number[] {
+  return segments.map((segment, i) => {
+    const next = segments[i + 1];
+    const isSeamless = !segment.silent && !next?.silent && segment.offset + segment.length === next?.offset;
+    if (!next || crossfade <= 0 || isSeamless) return 0;
+    return Math.floor(Math.min(crossfade / 2, segment.length / 2, next.length / 2));
+  });
+}
+
+/**
+ * Gain of a segment at frame r relative to its start. Around a join each
+ * segment plays on into the source frames past its edge with an
+ * equal-power ramp, so the timeline keeps its length.
+ */
+function segmentGain(segment: EditSegment, r: number, before: number, after: number): number {
+  const { length, fadeIn, fadeOut } = segment;
+  let gain = 1;
+  if (fadeIn && fadeIn.length > 0) {
+    const fadeLength = Math.min(fadeIn.length, length);
+    gain *= r < 0 ? 0 : r < fadeLength ? fadeGain(fadeIn.curve, r / fadeLength) : 1;
+  }
+  if (fadeOut && fadeOut.length > 0) {
+    const fadeLength = Math.min(fadeOut.length, length);
+    gain *= r >= length ? 0 : r >= length - fadeLength ? fadeGain(fadeOut.curve, (length - r) / fadeLength) : 1;
+  }
+  if (before > 0 && r < before) {
+    gain *= fadeGain('equal-power', (r + before) / (2 * before));
+  }
+  if (after > 0 && r >= length - after) {
+    gain *= fadeGain('equal-power', (length + after - r) / (2 * after));
+  }
+  return gain;
+}
+
+function hasFades(segment: EditSegment): boolean {
+  return (segment.fadeIn?.length ?? 0) > 0 || (segment.fadeOut?.length ?? 0) > 0;
+}
+
+/**
+ * Copy one segment out of the source, with its fades
+ */
+export function renderSegment(source: SampleSource, segment: EditSegment): Promise<AudioBuffer> {
+  return renderEditList(source, [segment]);
+}
+
+/**
+ * Render the whole timeline into one buffer, for exports; playback and
+ * drawing read windows of editListSource instead
+ */
+export function renderEditList(source: SampleSource, segments: EditSegment[], options: RenderOptions = {}): Promise<AudioBuffer> {
+  return readAudioBuffer(editListSource(source, segments, options));
+}
+
+/**
+ * The timeline of an edit list as a sample source. Nothing is rendered up
+ * front: each read renders only its window, with the segment fades and the
+ * crossfades at the joins. The source itself stands in when the segments
+ * still cover it in order without fades.
+ */
+export function editListSource(source: SampleSource, segments: EditSegment[], options: RenderOptions = {}): SampleSource {
+  const length = editListLength(segments);
+  const isWholeSource = segments.every((segment, i) =>
+    !hasFades(segment) && !segment.silent && segment.offset === (i === 0 ? 0 : segments[i - 1].offset + segments[i - 1].length)) &&
+    length === source.length;
+  if (isWholeSource) return source;
+
+  const starts = segmentStarts(segments);
+  const after = crossfadeHalves(segments, options.crossfade ?? 0);
+  const before = segments.map((_, i) => (i > 0 ? after[i - 1] : 0));
+
+  const read = async (start: number, count: number) => {
+    const from = Math.max(0, Math.min(start, length));
+    const to = Math.max(from, Math.min(start + count, length));
+    const output = Array.from({ length: source.numberOfChannels }, () => new Float32Array(to - from));
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      // Frames of the segment in the window, counting what it plays past its edges
+      const rFrom = Math.max(-before[i], from - starts[i]);
+      const rTo = Math.min(segment.length + after[i], to - starts[i]);
+      if (rTo <= rFrom || segment.silent) continue;
+
+      // Source frames before its start or past its end play as silence
+      const readFrom = Math.max(0, segment.offset + rFrom);
+      const readTo = Math.min(source.length, segment.offset + rTo);
+      if (readTo <= readFrom) continue;
+      const input = await source.read(readFrom, readTo - readFrom);
+
+      // Only the edges carry a gain; the frames between are copied as they are
+      const headEnd = Math.min(segment.length, Math.max(before[i], segment.fadeIn?.length ?? 0));
+      const tailStart = Math.max(headEnd, segment.length - Math.max(after[i], segment.fadeOut?.length ?? 0));
+      const bodyFrom = Math.max(rFrom, Math.min(headEnd, rTo));
+      const bodyTo = Math.max(bodyFrom, Math.min(tailStart, rTo));
+
+      input.forEach((data, ch) => {
+        const out = output[ch];
+        const at = (r: number) => starts[i] + r - from;
+        const sample = (r: number) => {
+          const index = segment.offset + r - readFrom;
+          return index >= 0 && index < data.length ? data[index] : 0;
+        };
+        out.set(data.subarray(segment.offset + bodyFrom - readFrom, segment.offset + bodyTo - readFrom), at(bodyFrom));
+        // Added, because the edges overlap what the neighbours play past theirs
+        for (let r = rFrom; r < bodyFrom; r++) {
+          out[at(r)] += sample(r) * segmentGain(segment, r, before[i], after[i]);
+        }
+        for (let r = bodyTo; r < rTo; r++) {
+          out[at(r)] += sample(r) * segmentGain(segment, r, before[i], after[i]);
+        }
+      });
+    }
+    return output;
+  };
+
+  // Drawn from the source peaks; fades are left out of the picture
+  const peak = (start: number, end: number) => {
+    let loudest = 0;
+    segments.forEach((segment, i) => {
+      const from = Math.max(start, starts[i]) - starts[i];
+      const to = Math.min(end, starts[i] + segment.length) - starts[i];
+      if (to > from && !segment.silent) {
+        loudest = Math.max(loudest, source.peak(segment.offset + from, segment.offset + to));
+      }
+    });
+    return loudest;
+  };
+
+  return { sampleRate: source.sampleRate, numberOfChannels: source.numberOfChannels, length, read, peak };
+}
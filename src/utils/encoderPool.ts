@@ -0,0 +1,150 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { EncodeControl, ExportOptions } from '@/types';
+import type { ChannelEncodeResult } from './channelEncoder';
+
+export interface EncoderRequest {
+  id: number;
+  channels: Float32Array[];
+  sampleRate: number;
+  options: ExportOptions;
+}
+
+export type EncoderResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; result: ChannelEncodeResult }
+  | { id: number; type: 'error'; message: string };
+
+interface EncoderJob {
+  request: EncoderRequest;
+  control: EncodeControl;
+  resolve: (result: ChannelEncodeResult) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: EncoderJob | null;
+}
+
+// Leave a core for the UI and the FFmpeg worker
+const POOL_SIZE = Math.max(1, Math.min(4, (globalThis.navigator?.hardwareConcurrency ?? 2) - 1));
+
+export function createAbortError(): DOMException {
+  return new DOMException('Export annulé', 'AbortError');
+}
+
+/**
+ * Whether an error comes from a cancelled export (AbortSignal)
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Runs export encodes in module workers, one job per worker at a time.
+ * Channel data is transferred, not copied, so callers must not reuse it.
+ * Cancelling a running job terminates its worker; a fresh one replaces it.
+ */
+class EncoderPool {
+  private workers: PoolWorker[] = [];
+  private queue: EncoderJob[] = [];
+  private nextId = 1;
+
+  encode(
+    channels: Float32Array[],
+    sampleRate: number,
+    options: ExportOptions,
+    control: EncodeControl = {}
+  ): Promise<ChannelEncodeResult> {
+    return new Promise((resolve, reject) => {
+      if (control.signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const job: EncoderJob = {
+        request: { id: this.nextId++, channels, sampleRate, options },
+        control,
+        resolve,
+        reject
+      };
+
+      control.signal?.addEventListener('abort', () => this.cancel(job), { once: true });
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const slot = this.workers.find(entry => entry.job === null) ?? this.spawn();
+      if (!slot) return;
+
+      const job = this.queue.shift()!;
+      slot.job = job;
+      const { channels } = job.request;
+      slot.worker.postMessage(job.request, channels.map(channel => channel.buffer));
+    }
+  }
+
+  private spawn(): PoolWorker | null {
+    if (this.workers.length >= POOL_SIZE) return null;
+
+    const worker = new Worker(new URL('../workers/encoder.worker.ts', import.meta.url), { type: 'module' });
+    const slot: PoolWorker = { worker, job: null };
+
+    worker.onmessage = (event: MessageEvent<EncoderResponse>) => {
+      const job = slot.job;
+      const message = event.data;
+      if (!job || job.request.id !== message.id) return;
+
+      if (message.type === 'progress') {
+        job.control.onProgress?.(message.progress);
+        return;
+      }
+
+      slot.job = null;
+      if (message.type === 'result') {
+        job.resolve(message.result);
+      } else {
+        job.reject(new Error(message.message));
+      }
+      this.dispatch();
+    };
+
+    worker.onerror = (event) => {
+      const job = slot.job;
+      this.replace(slot);
+      job?.reject(new Error(event.message || 'Encoder worker crashed'));
+    };
+
+    this.workers.push(slot);
+    return slot;
+  }
+
+  private cancel(job: EncoderJob): void {
+    const queued = this.queue.indexOf(job);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+    } else {
+      const slot = this.workers.find(entry => entry.job === job);
+      if (!slot) return; // already settled
+      this.replace(slot);
+    }
+    job.reject(createAbortError());
+  }
+
+  /**
+   * Drop a worker that is stuck in a job we no longer want
+   */
+  private replace(slot: PoolWorker): void {
+    slot.worker.terminate();
+    slot.job = null;
+    this.workers = this.workers.filter(entry => entry !== slot);
+    this.dispatch();
+  }
+}
+
+export const encoderPool = new EncoderPool();
@@ -0,0 +1,87 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { AudioMetadata, AudioProperties, ExportOptions } from '@/types';
+import { DEFAULT_FLAC_COMPRESSION_LEVEL } from './flacEncoder';
+
+export type SizeEstimateOptions = Pick<ExportOptions, 'format' | 'bitDepth' | 'compressionLevel' | 'metadata'> & {
+  bitrate: number; // kbps, the average bitrate for VBR modes
+};
+
+// Typical FLAC output size relative to PCM for music at the default level.
+// 24-bit sources keep more noise in the low bits, which does not compress.
+const FLAC_RATIO: Record<16 | 24, number> = { 16: 0.58, 24: 0.68 };
+const FLAC_RATIO_PER_LEVEL = 0.012;
+
+// Container framing on top of the codec bitrate
+const CONTAINER_OVERHEAD: Partial<Record<ExportOptions['format'], number>> = {
+  ogg: 1.015,
+  opus: 1.015,
+  webm: 1.005,
+  m4a: 1.01,
+};
+
+const WAV_HEADER_SIZE = 44;
+
+function metadataSize(format: ExportOptions['format'], metadata?: AudioMetadata): number {
+  if (!metadata) return 0;
+  const text = Object.values(metadata)
+    .filter((value): value is string => typeof value === 'string')
+    .reduce((total, value) => total + value.length + 16, 0);
+  const cover = metadata.coverArt?.data.length ?? 0;
+  // Ogg streams carry the picture base64-encoded in a comment
+  const coverSize = format === 'ogg' || format === 'opus' ? Math.ceil(cover * 4 / 3) : cover;
+  return text + coverSize;
+}
+
+function pcmSize(audio: AudioProperties, bitDepth: number): number {
+  return Math.round(audio.duration * audio.sampleRate) * audio.numberOfChannels * (bitDepth / 8);
+}
+
+/**
+ * Expected size in bytes of an export. Exact for WAV and CBR formats,
+ * based on typical compression ratios for FLAC and on the average bitrate
+ * for VBR encoders.
+ */
+export function estimateExportSize(options: SizeEstimateOptions, audio: AudioProperties): number {
+  const tags = metadataSize(options.format, options.metadata);
+
+  switch (options.format) {
+    case 'wav':
+      return WAV_HEADER_SIZE + pcmSize(audio, options.bitDepth ?? 16) + tags;
+    case 'flac': {
+      const bitDepth = options.bitDepth === 16 ? 16 : 24;
+      const level = options.compressionLevel ?? DEFAULT_FLAC_COMPRESSION_LEVEL;
+      const ratio = FLAC_RATIO[bitDepth] + (DEFAULT_FLAC_COMPRESSION_LEVEL - level) * FLAC_RATIO_PER_LEVEL;
+      return Math.round(pcmSize(audio, bitDepth) * ratio) + tags;
+    }
+    default: {
+      const overhead = CONTAINER_OVERHEAD[options.format] ?? 1;
+      return Math.round(options.bitrate * 1000 / 8 * audio.duration * overhead) + tags;
+    }
+  }
+}
+
+/**
+ * Highest of the given values (bitrates or bit depths) whose estimate fits
+ * in maxBytes, or null when none does
+ */
+export function findLargestFitting<T extends number>(
+  values: readonly T[],
+  maxBytes: number,
+  estimate: (value: T) => number
+): T | null {
+  const fitting = values.filter(value => estimate(value) <= maxBytes);
+  return fitting.length > 0 ? Math.max(...fitting) as T : null;
+}
+
+/**
+ * Human-readable size, in the same units as the converter and compressor
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.min(sizes.length - 1, Math.floor(Math.log(bytes) / Math.log(k)));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+}
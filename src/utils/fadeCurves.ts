@@ -0,0 +1,34 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { FadeCurve } from '@/types';
+
+export const FADE_CURVES: Array<{ id: FadeCurve; label: string }> = [
+  { id: 'linear', label: 'Linéaire' },
+  { id: 'equal-power', label: 'Puissance constante' },
+  { id: 'logarithmic', label: 'Logarithmique' },
+  { id: 's-curve', label: 'Courbe en S' },
+];
+
+export const DEFAULT_FADE_CURVE: FadeCurve = 'linear';
+
+// Range the logarithmic curve sweeps, linear in decibels
+const LOG_FADE_RANGE_DB = 60;
+
+/**
+ * Gain of a fade-in at position 0..1; a fade-out reads the curve backwards.
+ * Equal-power keeps the loudness constant when two fades overlap.
+ */
+export function fadeGain(curve: FadeCurve, position: number): number {
+  const x = Math.max(0, Math.min(1, position));
+  switch (curve) {
+    case 'linear':
+      return x;
+    case 'equal-power':
+      return Math.sin((x * Math.PI) / 2);
+    case 'logarithmic':
+      return x === 0 ? 0 : Math.pow(10, ((x - 1) * LOG_FADE_RANGE_DB) / 20);
+    case 's-curve':
+      return (1 - Math.cos(x * Math.PI)) / 2;
+  }
+}
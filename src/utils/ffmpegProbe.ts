@@ -0,0 +1,158 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+// Reads the input description FFmpeg logs for "ffmpeg -i <file>":
+//   Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'job1_input.mp4':
+//     Duration: 00:03:12.45, start: 0.000000, bitrate: 1411 kb/s
+//     Stream #0:1[0x2](eng): Audio: ac3 (ac-3 / 0x332D6361), 48000 Hz, 5.1(side), fltp, 384 kb/s (default)
+//       Metadata:
+//         title           : Commentary
+
+export type ProbedStreamType = 'audio' | 'video' | 'subtitle' | 'data' | 'attachment';
+
+export interface ProbedStream {
+  index: number; // stream index in the input, for -map 0:<index>
+  type: ProbedStreamType;
+  codec: string;
+  language?: string;
+  title?: string;
+  isDefault: boolean;
+  // Audio only
+  sampleRate?: number;
+  channels?: number;
+  channelLayout?: string;
+  bitDepth?: number; // bits per sample of integer PCM-like sources
+}
+
+export interface ProbeResult {
+  format: string; // demuxer names, e.g. "mov,mp4,m4a,3gp,3g2,mj2"
+  duration?: number; // seconds
+  streams: ProbedStream[];
+}
+
+// Channel counts of the named FFmpeg layouts that are not "X.Y"
+const NAMED_LAYOUTS: Record<string, number> = {
+  mono: 1,
+  stereo: 2,
+  downmix: 2,
+  quad: 4,
+  hexagonal: 6,
+  octagonal: 8,
+  hexadecagonal: 16,
+};
+
+const INPUT_LINE = /^Input #0, (.+?), from /;
+const DURATION_LINE = /^\s*Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/;
+const STREAM_LINE = /^\s*Stream #0:(\d+)(?:\[0x[0-9a-f]+\])?(?:\((\w+)\))?: (Audio|Video|Subtitle|Data|Attachment): (.*)$/;
+const TITLE_LINE = /^\s+title\s*: (.*)$/;
+
+/**
+ * Channel count of an FFmpeg layout name ("5.1(side)", "stereo", "6 channels")
+ */
+export function layoutChannelCount(layout: string): number | undefined {
+  const counted = layout.match(/^(\d+) channels/);
+  if (counted) return parseInt(counted[1], 10);
+
+  const name = layout.replace(/\(.*\)$/, '');
+  // "5.1", and "5.1.2" or "7.1.4" with height channels
+  const numbered = name.match(/^(\d+)\.(\d+)(?:\.(\d+))?$/);
+  if (numbered) return numbered.slice(1).reduce((sum, count) => sum + (count ? parseInt(count, 10) : 0), 0);
+  return NAMED_LAYOUTS[name];
+}
+
+/**
+ * Short description of a stream, e.g. "eng · ac3 · 5.1(side) · Commentary"
+ */
+export function describeStream(stream: ProbedStream): string {
+  return [stream.language, stream.codec, stream.channelLayout, stream.title].filter(Boolean).join(' · ');
+}
+
+/**
+ * Split on the commas that are not inside parentheses
+ */
+function splitFields(description: string): string[] {
+  const fields: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of description) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+function parseAudioFields(stream: ProbedStream, fields: string[]) {
+  const rateIndex = fields.findIndex(field => /^\d+ Hz$/.test(field));
+  if (rateIndex === -1) return;
+
+  stream.sampleRate = parseInt(fields[rateIndex], 10);
+  const layout = fields[rateIndex + 1];
+  if (layout) {
+    stream.channelLayout = layout;
+    stream.channels = layoutChannelCount(layout);
+  }
+
+  // Integer sample formats: "s16", "s32 (24 bit)"... Lossy codecs decode
+  // to float ("fltp"), which says nothing about the source resolution.
+  const sampleFormat = fields[rateIndex + 2] ?? '';
+  const bits = sampleFormat.match(/\((\d+) bit\)/) ?? sampleFormat.match(/^[su](\d+)/);
+  if (bits) {
+    stream.bitDepth = parseInt(bits[1], 10);
+  }
+}
+
+/**
+ * Parse the log lines of one probe run; null when FFmpeg did not recognize the input
+ */
+export function parseProbeLog(lines: string[]): ProbeResult | null {
+  let result: ProbeResult | null = null;
+  let lastStream: ProbedStream | null = null;
+
+  for (const line of lines) {
+    const input = line.match(INPUT_LINE);
+    if (input) {
+      result = { format: input[1], streams: [] };
+      continue;
+    }
+    if (!result) continue;
+
+    const duration = line.match(DURATION_LINE);
+    if (duration) {
+      result.duration = parseInt(duration[1], 10) * 3600 + parseInt(duration[2], 10) * 60 + parseFloat(duration[3]);
+      continue;
+    }
+
+    const streamMatch = line.match(STREAM_LINE);
+    if (streamMatch) {
+      const [, index, language, type, description] = streamMatch;
+      const fields = splitFields(description);
+      lastStream = {
+        index: parseInt(index, 10),
+        type: type.toLowerCase() as ProbedStreamType,
+        codec: fields[0].split(' ')[0],
+        language: language && language !== 'und' ? language : undefined,
+        isDefault: /\(default\)/.test(description),
+      };
+      if (lastStream.type === 'audio') {
+        parseAudioFields(lastStream, fields);
+      }
+      result.streams.push(lastStream);
+      continue;
+    }
+
+    // Stream metadata follows its stream line
+    const title = line.match(TITLE_LINE);
+    if (title && lastStream) {
+      lastStream.title = title[1].trim();
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,309 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { FFmpeg } from '@ffmpeg/ffmpeg';
+import { fetchFile } from '@ffmpeg/util';
+import type { EncodeControl } from '@/types';
+import { createAbortError } from './encoderPool';
+import { parseProbeLog, type ProbeResult } from './ffmpegProbe';
+// The core ships with the app (hashed asset names, precached by the service
+// worker) so conversions keep working offline
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+
+// Compiling the ~30 MB wasm is slow on low-end devices, but a load that
+// never settles means the core failed to start
+const LOAD_TIMEOUT_MS = 60000;
+
+export type FFmpegLoadStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface FFmpegLoadState {
+  status: FFmpegLoadStatus;
+  error?: string;
+}
+
+/**
+ * One FFmpeg run: a single input file converted to a single output file
+ */
+export interface FFmpegJob {
+  input: Blob;
+  inputExtension: string; // without the dot; FFmpeg guesses some demuxers from it
+  outputExtension: string; // selects the muxer
+  args: string[]; // output options, placed between the input and the output file
+  mimeType: string;
+  extraFiles?: Array<{ fileName: string; data: Uint8Array }>; // extra inputs named in args
+}
+
+interface QueuedJob {
+  id: number;
+  task: (ffmpeg: FFmpeg, queued: QueuedJob) => Promise<unknown>;
+  control: EncodeControl;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  settled: boolean;
+  onAbort: () => void;
+}
+
+/**
+ * Owns the single FFmpeg instance and runs jobs on it one at a time, so each
+ * progress and log event belongs to the running job.
+ * Cancelling the running job terminates the instance (FFmpeg cannot stop an
+ * exec otherwise); a fresh one is loaded right away for the next job.
+ */
+class FFmpegService {
+  private ffmpeg: FFmpeg | null = null;
+  private loadPromise: Promise<FFmpeg> | null = null;
+  private loadGeneration = 0; // bumped by restarts, to spot obsolete loads
+  private loadState: FFmpegLoadState = { status: 'idle' };
+  private listeners = new Set<(state: FFmpegLoadState) => void>();
+
+  private queue: QueuedJob[] = [];
+  private running: QueuedJob | null = null;
+  private nextId = 1;
+
+  /**
+   * Load the core if needed. Concurrent callers share the same load,
+   * and a failed load is retried on the next call.
+   */
+  load(): Promise<FFmpeg> {
+    if (this.ffmpeg?.loaded) return Promise.resolve(this.ffmpeg);
+    if (this.loadPromise) return this.loadPromise;
+
+    const generation = ++this.loadGeneration;
+    this.loadPromise = (async () => {
+      const ffmpeg = new FFmpeg();
+      ffmpeg.on('log', ({ message }) => {
+        console.log('[FFmpeg]', message);
+      });
+
+      this.setLoadState({ status: 'loading' });
+      const timeout = AbortSignal.timeout(LOAD_TIMEOUT_MS);
+      try {
+        await ffmpeg.load({ coreURL, wasmURL }, { signal: timeout });
+      } catch (error) {
+        // Drop the worker so a retry starts from a clean instance
+        ffmpeg.terminate();
+        const reason = timeout.aborted
+          ? 'the core did not start in time'
+          : error instanceof Error ? error.message : 'Unknown error';
+        if (this.loadGeneration === generation) {
+          this.loadPromise = null;
+          this.setLoadState({ status: 'error', error: reason });
+        }
+        throw new Error(`Failed to load FFmpeg: ${reason}`);
+      }
+
+      // A restart while loading made this instance obsolete
+      if (this.loadGeneration !== generation) {
+        ffmpeg.terminate();
+        return this.load();
+      }
+
+      this.ffmpeg = ffmpeg;
+      this.loadPromise = null;
+      this.setLoadState({ status: 'ready' });
+      return ffmpeg;
+    })();
+
+    return this.loadPromise;
+  }
+
+  isLoaded(): boolean {
+    return this.ffmpeg?.loaded ?? false;
+  }
+
+  getLoadState(): FFmpegLoadState {
+    return this.loadState;
+  }
+
+  /**
+   * Be notified when FFmpeg starts loading, becomes ready or fails.
+   * Returns the unsubscribe function.
+   */
+  subscribe(listener: (state: FFmpegLoadState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue a job. Progress is FFmpeg's own estimate, from 0 to 1.
+   * Rejects with an AbortError when control.signal is aborted.
+   */
+  run(job: FFmpegJob, control: EncodeControl = {}): Promise<Blob> {
+    return this.enqueue((ffmpeg, queued) => this.convert(ffmpeg, queued, job), control);
+  }
+
+  /**
+   * Queue a probe of the input: container, duration and streams as FFmpeg
+   * reports them
+   */
+  probe(input: Blob, inputExtension: string, control: EncodeControl = {}): Promise<ProbeResult> {
+    return this.enqueue((ffmpeg, queued) => this.probeInput(ffmpeg, queued, input, inputExtension), control);
+  }
+
+  private enqueue<T>(task: (ffmpeg: FFmpeg, queued: QueuedJob) => Promise<T>, control: EncodeControl): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (control.signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const queued: QueuedJob = {
+        id: this.nextId++, task, control, resolve: resolve as (value: unknown) => void, reject, settled: false,
+        onAbort: () => this.cancel(queued)
+      };
+      control.signal?.addEventListener('abort', queued.onAbort, { once: true });
+
+      this.queue.push(queued);
+      this.processQueue();
+    });
+  }
+
+  private setLoadState(state: FFmpegLoadState) {
+    this.loadState = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  private settle(queued: QueuedJob, outcome: { value: unknown } | { error: unknown }) {
+    if (queued.settled) return;
+    queued.settled = true;
+    queued.control.signal?.removeEventListener('abort', queued.onAbort);
+    if ('value' in outcome) {
+      queued.resolve(outcome.value);
+    } else {
+      queued.reject(outcome.error);
+    }
+  }
+
+  private cancel(queued: QueuedJob) {
+    if (queued.settled) return;
+
+    const index = this.queue.indexOf(queued);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    } else if (this.running === queued) {
+      this.restart();
+    }
+    this.settle(queued, { error: createAbortError() });
+  }
+
+  /**
+   * Throw the instance away (with its virtual filesystem) and start loading
+   * a new one. Pending calls on the old instance reject.
+   */
+  private restart() {
+    this.ffmpeg?.terminate();
+    this.ffmpeg = null;
+    this.loadPromise = null;
+    this.setLoadState({ status: 'idle' });
+    this.load().catch(error => console.error('FFmpeg reload failed:', error));
+  }
+
+  private async processQueue() {
+    if (this.running) return;
+
+    while (this.queue.length > 0) {
+      const queued = this.queue.shift()!;
+      this.running = queued;
+      try {
+        const ffmpeg = await this.load();
+        if (queued.settled) throw createAbortError();
+        this.settle(queued, { value: await queued.task(ffmpeg, queued) });
+      } catch (error) {
+        this.settle(queued, { error });
+      }
+      this.running = null;
+    }
+  }
+
+  private async exec(ffmpeg: FFmpeg, queued: QueuedJob, args: string[]): Promise<number> {
+    try {
+      return await ffmpeg.exec(args);
+    } catch (error) {
+      if (queued.settled) throw createAbortError();
+      // The wasm aborted (out of memory, bad input): the instance is unusable,
+      // and restarting it also drops whatever the job left in its filesystem
+      this.restart();
+      throw error;
+    }
+  }
+
+  private async deleteFiles(ffmpeg: FFmpeg, files: string[]) {
+    // After a restart the files went away with the old instance
+    if (this.ffmpeg !== ffmpeg) return;
+    for (const file of files) {
+      try {
+        await ffmpeg.deleteFile(file);
+      } catch { /* not written, the job failed first */ }
+    }
+  }
+
+  private async convert(ffmpeg: FFmpeg, queued: QueuedJob, job: FFmpegJob): Promise<Blob> {
+    const { id, control } = queued;
+    const inputFileName = inputName(id, job.inputExtension);
+    const outputFileName = `job${id}_output.${job.outputExtension}`;
+    const extraFiles = job.extraFiles ?? [];
+    const files = [inputFileName, outputFileName, ...extraFiles.map(file => file.fileName)];
+
+    const handleProgress = ({ progress }: { progress: number }) => {
+      control.onProgress?.(Math.min(1, Math.max(0, progress)));
+    };
+    ffmpeg.on('progress', handleProgress);
+
+    try {
+      await ffmpeg.writeFile(inputFileName, await fetchFile(job.input));
+      for (const file of extraFiles) {
+        await ffmpeg.writeFile(file.fileName, file.data);
+      }
+
+      const exitCode = await this.exec(ffmpeg, queued, ['-i', inputFileName, ...job.args, outputFileName]);
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg exited with code ${exitCode}`);
+      }
+
+      const outputData = await ffmpeg.readFile(outputFileName);
+      if (typeof outputData === 'string') {
+        throw new Error('Unexpected text output');
+      }
+
+      control.onProgress?.(1);
+      // Copy to a new ArrayBuffer to avoid SharedArrayBuffer issues
+      return new Blob([outputData.slice()], { type: job.mimeType });
+    } finally {
+      ffmpeg.off('progress', handleProgress);
+      await this.deleteFiles(ffmpeg, files);
+    }
+  }
+
+  private async probeInput(ffmpeg: FFmpeg, queued: QueuedJob, input: Blob, inputExtension: string): Promise<ProbeResult> {
+    const inputFileName = inputName(queued.id, inputExtension);
+    const lines: string[] = [];
+    const handleLog = ({ message }: { message: string }) => {
+      lines.push(message);
+    };
+    ffmpeg.on('log', handleLog);
+
+    try {
+      await ffmpeg.writeFile(inputFileName, await fetchFile(input));
+      // Without an output FFmpeg prints the input description and exits with 1
+      await this.exec(ffmpeg, queued, ['-hide_banner', '-i', inputFileName]);
+
+      const result = parseProbeLog(lines);
+      if (!result) {
+        throw new Error('Unrecognized input format');
+      }
+      return result;
+    } finally {
+      ffmpeg.off('log', handleLog);
+      await this.deleteFiles(ffmpeg, [inputFileName]);
+    }
+  }
+}
+
+function inputName(id: number, extension: string): string {
+  return extension ? `job${id}_input.${extension}` : `job${id}_input`;
+}
+
+export const ffmpegService = new FFmpegService();
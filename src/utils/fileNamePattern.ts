@@ -0,0 +1,47 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+export interface FileNameFields {
+  name: string;
+  index: number; // 1-based
+  count: number;
+  start: number; // seconds
+  end: number; // seconds
+}
+
+export const DEFAULT_SPLIT_PATTERN = '{name}_{index}_{start}';
+
+// Characters that are not allowed in file names on Windows, macOS or Linux
+const FORBIDDEN_CHARACTERS = /[\\/:*?"<>|\u0000-\u001F]/g;
+
+/**
+ * Time as mm-ss or hh-mm-ss; colons are not valid in file names
+ */
+function formatTimeForFileName(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${pad(hours)}-${pad(minutes)}-${pad(secs)}` : `${pad(minutes)}-${pad(secs)}`;
+}
+
+export function sanitizeFileName(name: string): string {
+  return name.replace(FORBIDDEN_CHARACTERS, '_').trim() || 'audio';
+}
+
+/**
+ * Fill a pattern such as "{name}_{index}_{start}".
+ * The index is zero-padded to the width of the count so files sort in order.
+ */
+export function applyFileNamePattern(pattern: string, fields: FileNameFields): string {
+  const values: Record<string, string> = {
+    name: fields.name,
+    index: fields.index.toString().padStart(fields.count.toString().length, '0'),
+    start: formatTimeForFileName(fields.start),
+    end: formatTimeForFileName(fields.end),
+  };
+
+  const name = pattern.replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token);
+  return sanitizeFileName(name);
+}
@@ -0,0 +1,757 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { DitherType, EncodeProgressCallback } from '@/types';
+import { Md5 } from './md5';
+import { Quantizer } from './dither';
+import { buildVorbisCommentList } from './metadataWriter';
+
+export type FlacBitDepth = 16 | 24;
+
+export interface FlacEncodeOptions {
+  bitDepth?: FlacBitDepth;
+  compressionLevel?: number; // 0 (fastest) to 8 (smallest)
+  dither?: DitherType; // only used for 16-bit output
+  comments?: string[]; // VORBIS_COMMENT entries (FIELD=value)
+  picture?: Uint8Array; // PICTURE block body
+}
+
+interface CompressionPreset {
+  blockSize: number;
+  maxLpcOrder: number;
+  stereo: 'independent' | 'estimate' | 'exhaustive';
+  maxPartitionOrder: number;
+  exhaustiveModelSearch: boolean;
+}
+
+// Mirrors the libFLAC presets (-0 to -8)
+const COMPRESSION_PRESETS: CompressionPreset[] = [
+  { blockSize: 1152, maxLpcOrder: 0, stereo: 'independent', maxPartitionOrder: 3, exhaustiveModelSearch: false },
+  { blockSize: 1152, maxLpcOrder: 0, stereo: 'estimate', maxPartitionOrder: 3, exhaustiveModelSearch: false },
+  { blockSize: 1152, maxLpcOrder: 0, stereo: 'exhaustive', maxPartitionOrder: 3, exhaustiveModelSearch: false },
+  { blockSize: 4096, maxLpcOrder: 6, stereo: 'independent', maxPartitionOrder: 4, exhaustiveModelSearch: false },
+  { blockSize: 4096, maxLpcOrder: 8, stereo: 'estimate', maxPartitionOrder: 4, exhaustiveModelSearch: false },
+  { blockSize: 4096, maxLpcOrder: 8, stereo: 'exhaustive', maxPartitionOrder: 5, exhaustiveModelSearch: false },
+  { blockSize: 4096, maxLpcOrder: 8, stereo: 'exhaustive', maxPartitionOrder: 6, exhaustiveModelSearch: false },
+  { blockSize: 4096, maxLpcOrder: 12, stereo: 'exhaustive', maxPartitionOrder: 6, exhaustiveModelSearch: false },
+  { blockSize: 4096, maxLpcOrder: 12, stereo: 'exhaustive', maxPartitionOrder: 6, exhaustiveModelSearch: true },
+];
+
+export const DEFAULT_FLAC_COMPRESSION_LEVEL = 5;
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6,
+  24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11,
+};
+
+const BLOCK_SIZE_CODES: Record<number, number> = {
+  192: 1, 576: 2, 1152: 3, 2304: 4, 4608: 5,
+  256: 8, 512: 9, 1024: 10, 2048: 11, 4096: 12, 8192: 13, 16384: 14, 32768: 15,
+};
+
+const enum ChannelAssignment {
+  LeftSide = 8,
+  RightSide = 9,
+  MidSide = 10,
+}
+
+const MAX_FIXED_ORDER = 4;
+const MAX_RICE_PARAMETER = 14;
+const MAX_RICE2_PARAMETER = 30;
+
+/**
+ * MSB-first bit writer backed by a growable byte buffer
+ */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private position = 0;
+  private current = 0;
+  private bitCount = 0;
+
+  get byteLength(): number {
+    return this.position;
+  }
+
+  writeBits(value: number, bits: number): void {
+    while (bits > 0) {
+      const take = Math.min(bits, 8 - this.bitCount);
+      bits -= take;
+      const chunk = Math.floor(value / 2 ** bits) & ((1 << take) - 1);
+      this.current = (this.current << take) | chunk;
+      this.bitCount += take;
+      if (this.bitCount === 8) {
+        this.pushByte(this.current);
+        this.current = 0;
+        this.bitCount = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, bits: number): void {
+    this.writeBits(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeUnary(zeros: number): void {
+    while (zeros > 0) {
+      const take = Math.min(zeros, 8 - this.bitCount);
+      this.current <<= take;
+      this.bitCount += take;
+      zeros -= take;
+      if (this.bitCount === 8) {
+        this.pushByte(this.current);
+        this.current = 0;
+        this.bitCount = 0;
+      }
+    }
+    this.writeBits(1, 1);
+  }
+
+  writeRice(value: number, parameter: number): void {
+    const folded = value < 0 ? -2 * value - 1 : 2 * value;
+    this.writeUnary(Math.floor(folded / 2 ** parameter));
+    if (parameter > 0) {
+      this.writeBits(folded % 2 ** parameter, parameter);
+    }
+  }
+
+  /**
+   * UTF-8 style variable length integer used for frame numbers
+   */
+  writeUtf8(value: number): void {
+    if (value < 0x80) {
+      this.writeBits(value, 8);
+      return;
+    }
+    let extraBytes = 1;
+    while (value >= 2 ** (6 + 5 * extraBytes) && extraBytes < 6) {
+      extraBytes++;
+    }
+    const leadBits = 6 - extraBytes;
+    const prefix = (0xFF << (7 - extraBytes)) & 0xFF;
+    this.writeBits(prefix | (Math.floor(value / 2 ** (6 * extraBytes)) & ((1 << leadBits) - 1)), 8);
+    for (let i = extraBytes - 1; i >= 0; i--) {
+      this.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3F), 8);
+    }
+  }
+
+  writeBytes(data: Uint8Array): void {
+    for (let i = 0; i < data.length; i++) {
+      this.writeBits(data[i], 8);
+    }
+  }
+
+  alignToByte(): void {
+    if (this.bitCount > 0) {
+      this.writeBits(0, 8 - this.bitCount);
+    }
+  }
+
+  slice(start: number, end: number = this.position): Uint8Array {
+    return this.bytes.subarray(start, end);
+  }
+
+  toUint8Array() {
+    return this.bytes.slice(0, this.position);
+  }
+
+  private pushByte(byte: number): void {
+    if (this.position === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.position++] = byte;
+  }
+}
+
+function crc8(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i];
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xFF : (crc << 1) & 0xFF;
+    }
+  }
+  return crc;
+}
+
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x8005 : crc << 1;
+    }
+    table[i] = crc & 0xFFFF;
+  }
+  return table;
+})();
+
+function crc16(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC16_TABLE[(crc >> 8) ^ data[i]]) & 0xFFFF;
+  }
+  return crc;
+}
+
+// --- Subframe analysis ---
+
+interface Subframe {
+  type: 'constant' | 'verbatim' | 'fixed' | 'lpc';
+  order: number;
+  bits: number; // estimated size, used to pick the cheapest encoding
+  residual?: Int32Array;
+  coefficients?: Int32Array;
+  precision?: number;
+  shift?: number;
+  partitionOrder?: number;
+  riceParameters?: number[];
+}
+
+interface RicePlan {
+  bits: number;
+  partitionOrder: number;
+  parameters: number[];
+}
+
+/**
+ * Pick the partition order and Rice parameters with the lowest estimated cost
+ */
+function planRice(residual: Int32Array, blockSize: number, predictorOrder: number, maxPartitionOrder: number): RicePlan {
+  let maxOrder = 0;
+  while (
+    maxOrder < maxPartitionOrder &&
+    blockSize % (1 << (maxOrder + 1)) === 0 &&
+    (blockSize >> (maxOrder + 1)) > predictorOrder
+  ) {
+    maxOrder++;
+  }
+
+  // Sums of folded residuals at the finest partition order, merged pairwise
+  let sums = new Float64Array(1 << maxOrder);
+  const partitionSize = blockSize >> maxOrder;
+  for (let i = 0, sample = predictorOrder; i < sums.length; i++) {
+    const end = (i + 1) * partitionSize;
+    let sum = 0;
+    for (; sample < end; sample++) {
+      const value = residual[sample - predictorOrder];
+      sum += value < 0 ? -2 * value - 1 : 2 * value;
+    }
+    sums[i] = sum;
+  }
+
+  let best: RicePlan | null = null;
+  for (let order = maxOrder; order >= 0; order--) {
+    const count = 1 << order;
+    const size = blockSize >> order;
+    let bits = 0;
+    const parameters: number[] = [];
+    let needsRice2 = false;
+
+    for (let i = 0; i < count; i++) {
+      const samples = i === 0 ? size - predictorOrder : size;
+      const sum = sums[i];
+      let parameter = 0;
+      if (samples > 0 && sum > samples) {
+        parameter = Math.min(MAX_RICE2_PARAMETER, Math.floor(Math.log2(sum / samples)));
+      }
+      // The mean only gives a starting point, check the neighbouring parameter
+      const cost = (k: number) => samples * (k + 1) + sum / 2 ** k;
+      if (parameter > 0 && cost(parameter - 1) < cost(parameter)) {
+        parameter--;
+      } else if (parameter < MAX_RICE2_PARAMETER && cost(parameter + 1) < cost(parameter)) {
+        parameter++;
+      }
+      needsRice2 = needsRice2 || parameter > MAX_RICE_PARAMETER;
+      parameters.push(parameter);
+      bits += cost(parameter);
+    }
+
+    bits += 6 + count * (needsRice2 ? 5 : 4);
+    if (!best || bits < best.bits) {
+      best = { bits, partitionOrder: order, parameters };
+    }
+
+    if (order > 0) {
+      const merged = new Float64Array(count >> 1);
+      for (let i = 0; i < merged.length; i++) {
+        merged[i] = sums[2 * i] + sums[2 * i + 1];
+      }
+      sums = merged;
+    }
+  }
+
+  return best!;
+}
+
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+  const residual = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = samples[i - 1]; break;
+      case 2: prediction = 2 * samples[i - 1] - samples[i - 2]; break;
+      case 3: prediction = 3 * samples[i - 1] - 3 * samples[i - 2] + samples[i - 3]; break;
+      case 4: prediction = 4 * samples[i - 1] - 6 * samples[i - 2] + 4 * samples[i - 3] - samples[i - 4]; break;
+    }
+    residual[i - order] = samples[i] - prediction;
+  }
+  return residual;
+}
+
+/**
+ * Returns null when a residual does not fit the 32-bit range decoders expect
+ */
+function lpcResidual(samples: Int32Array, coefficients: Int32Array, shift: number): Int32Array | null {
+  const order = coefficients.length;
+  const residual = new Int32Array(samples.length - order);
+  const divisor = 2 ** shift;
+  for (let i = order; i < samples.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < order; j++) {
+      sum += coefficients[j] * samples[i - j - 1];
+    }
+    const value = samples[i] - Math.floor(sum / divisor);
+    if (value >= 0x40000000 || value < -0x40000000) {
+      return null;
+    }
+    residual[i - order] = value;
+  }
+  return residual;
+}
+
+/**
+ * Windowed autocorrelation followed by Levinson-Durbin. Returns the predictor
+ * coefficients and prediction error for every order up to maxOrder.
+ */
+function computeLpc(samples: Int32Array, maxOrder: number): { coefficients: Float64Array[]; errors: number[] } {
+  const n = samples.length;
+  const windowed = new Float64Array(n);
+  const taper = Math.floor(n / 4); // Tukey(0.5)
+  for (let i = 0; i < n; i++) {
+    let w = 1;
+    if (i < taper) {
+      w = 0.5 - 0.5 * Math.cos((Math.PI * i) / taper);
+    } else if (i >= n - taper) {
+      w = 0.5 - 0.5 * Math.cos((Math.PI * (n - 1 - i)) / taper);
+    }
+    windowed[i] = samples[i] * w;
+  }
+
+  const autocorrelation = new Float64Array(maxOrder + 1);
+  for (let lag = 0; lag <= maxOrder; lag++) {
+    let sum = 0;
+    for (let i = lag; i < n; i++) {
+      sum += windowed[i] * windowed[i - lag];
+    }
+    autocorrelation[lag] = sum;
+  }
+
+  const coefficients: Float64Array[] = [];
+  const errors: number[] = [];
+  let error = autocorrelation[0];
+  let previous = new Float64Array(0);
+
+  for (let order = 1; order <= maxOrder && error > 0; order++) {
+    let reflection = autocorrelation[order];
+    for (let j = 0; j < order - 1; j++) {
+      reflection -= previous[j] * autocorrelation[order - 1 - j];
+    }
+    reflection /= error;
+
+    const current = new Float64Array(order);
+    current[order - 1] = reflection;
+    for (let j = 0; j < order - 1; j++) {
+      current[j] = previous[j] - reflection * previous[order - 2 - j];
+    }
+
+    error *= 1 - reflection * reflection;
+    coefficients.push(current);
+    errors.push(error);
+    previous = current;
+  }
+
+  return { coefficients, errors };
+}
+
+function quantizeCoefficients(
+  coefficients: Float64Array,
+  precision: number
+): { quantized: Int32Array; shift: number } | null {
+  let maxCoefficient = 0;
+  for (const c of coefficients) {
+    maxCoefficient = Math.max(maxCoefficient, Math.abs(c));
+  }
+  if (maxCoefficient <= 0 || !isFinite(maxCoefficient)) {
+    return null;
+  }
+
+  const log2Max = Math.floor(Math.log2(maxCoefficient));
+  let shift = precision - 1 - log2Max - 1;
+  shift = Math.min(15, shift);
+  if (shift < 0) {
+    return null;
+  }
+
+  const qMax = (1 << (precision - 1)) - 1;
+  const qMin = -(1 << (precision - 1));
+  const quantized = new Int32Array(coefficients.length);
+  let carry = 0;
+  for (let i = 0; i < coefficients.length; i++) {
+    carry += coefficients[i] * (1 << shift);
+    const q = Math.max(qMin, Math.min(qMax, Math.round(carry)));
+    carry -= q;
+    quantized[i] = q;
+  }
+
+  return { quantized, shift };
+}
+
+function lpcPrecision(blockSize: number): number {
+  if (blockSize <= 192) return 7;
+  if (blockSize <= 384) return 8;
+  if (blockSize <= 576) return 9;
+  if (blockSize <= 1152) return 10;
+  if (blockSize <= 2304) return 11;
+  if (blockSize <= 4608) return 12;
+  return 13;
+}
+
+function analyzeSubframe(samples: Int32Array, bitsPerSample: number, preset: CompressionPreset): Subframe {
+  const n = samples.length;
+  const header = 8;
+
+  let isConstant = true;
+  for (let i = 1; i < n && isConstant; i++) {
+    isConstant = samples[i] === samples[0];
+  }
+  if (isConstant) {
+    return { type: 'constant', order: 0, bits: header + bitsPerSample };
+  }
+
+  let best: Subframe = { type: 'verbatim', order: 0, bits: header + n * bitsPerSample };
+
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, n - 1); order++) {
+    const residual = fixedResidual(samples, order);
+    const plan = planRice(residual, n, order, preset.maxPartitionOrder);
+    const bits = header + order * bitsPerSample + plan.bits;
+    if (bits < best.bits) {
+      best = {
+        type: 'fixed', order, bits, residual,
+        partitionOrder: plan.partitionOrder, riceParameters: plan.parameters
+      };
+    }
+  }
+
+  const maxLpcOrder = Math.min(preset.maxLpcOrder, n - 1);
+  if (maxLpcOrder > 0) {
+    const precision = Math.min(15, lpcPrecision(n));
+    const { coefficients, errors } = computeLpc(samples, maxLpcOrder);
+
+    let candidates = coefficients.map((_, i) => i);
+    if (!preset.exhaustiveModelSearch && candidates.length > 0) {
+      // Guess the best order from the prediction error instead of trying them all
+      let bestOrder = 0;
+      let bestEstimate = Infinity;
+      errors.forEach((error, i) => {
+        const order = i + 1;
+        const bitsPerResidual = error > 0 ? Math.max(0, 0.5 * Math.log2(error / n)) : 0;
+        const estimate = bitsPerResidual * (n - order) + order * (precision + bitsPerSample);
+        if (estimate < bestEstimate) {
+          bestEstimate = estimate;
+          bestOrder = i;
+        }
+      });
+      candidates = [bestOrder];
+    }
+
+    for (const index of candidates) {
+      const order = index + 1;
+      const quantized = quantizeCoefficients(coefficients[index], precision);
+      if (!quantized) continue;
+
+      const residual = lpcResidual(samples, quantized.quantized, quantized.shift);
+      if (!residual) continue;
+
+      const plan = planRice(residual, n, order, preset.maxPartitionOrder);
+      const bits = header + order * bitsPerSample + 4 + 5 + order * precision + plan.bits;
+      if (bits < best.bits) {
+        best = {
+          type: 'lpc', order, bits, residual,
+          coefficients: quantized.quantized, precision, shift: quantized.shift,
+          partitionOrder: plan.partitionOrder, riceParameters: plan.parameters
+        };
+      }
+    }
+  }
+
+  return best;
+}
+
+function writeResidual(writer: BitWriter, subframe: Subframe, blockSize: number): void {
+  const parameters = subframe.riceParameters!;
+  const partitionOrder = subframe.partitionOrder!;
+  const useRice2 = parameters.some(p => p > MAX_RICE_PARAMETER);
+  const residual = subframe.residual!;
+
+  writer.writeBits(useRice2 ? 1 : 0, 2);
+  writer.writeBits(partitionOrder, 4);
+
+  const partitionSize = blockSize >> partitionOrder;
+  let index = 0;
+  for (let partition = 0; partition < parameters.length; partition++) {
+    const count = partition === 0 ? partitionSize - subframe.order : partitionSize;
+    const parameter = parameters[partition];
+    writer.writeBits(parameter, useRice2 ? 5 : 4);
+    for (let i = 0; i < count; i++) {
+      writer.writeRice(residual[index++], parameter);
+    }
+  }
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, subframe: Subframe, bitsPerSample: number): void {
+  writer.writeBits(0, 1);
+
+  switch (subframe.type) {
+    case 'constant':
+      writer.writeBits(0, 6);
+      writer.writeBits(0, 1);
+      writer.writeSigned(samples[0], bitsPerSample);
+      break;
+    case 'verbatim':
+      writer.writeBits(1, 6);
+      writer.writeBits(0, 1);
+      for (let i = 0; i < samples.length; i++) {
+        writer.writeSigned(samples[i], bitsPerSample);
+      }
+      break;
+    case 'fixed':
+      writer.writeBits(0b001000 | subframe.order, 6);
+      writer.writeBits(0, 1);
+      for (let i = 0; i < subframe.order; i++) {
+        writer.writeSigned(samples[i], bitsPerSample);
+      }
+      writeResidual(writer, subframe, samples.length);
+      break;
+    case 'lpc':
+      writer.writeBits(0b100000 | (subframe.order - 1), 6);
+      writer.writeBits(0, 1);
+      for (let i = 0; i < subframe.order; i++) {
+        writer.writeSigned(samples[i], bitsPerSample);
+      }
+      writer.writeBits(subframe.precision! - 1, 4);
+      writer.writeSigned(subframe.shift!, 5);
+      for (const coefficient of subframe.coefficients!) {
+        writer.writeSigned(coefficient, subframe.precision!);
+      }
+      writeResidual(writer, subframe, samples.length);
+      break;
+  }
+}
+
+/**
+ * Cheap cost estimate (sum of second order fixed residuals) used by the
+ * "estimate" stereo mode to pick a channel assignment without full analysis
+ */
+function estimateCost(samples: Int32Array): number {
+  let sum = 0;
+  for (let i = 2; i < samples.length; i++) {
+    sum += Math.abs(samples[i] - 2 * samples[i - 1] + samples[i - 2]);
+  }
+  return sum;
+}
+
+function writeFrameHeader(
+  writer: BitWriter,
+  frameNumber: number,
+  blockSize: number,
+  sampleRate: number,
+  channelAssignment: number,
+  bitsPerSample: number
+): void {
+  const start = writer.byteLength;
+  let blockSizeCode = BLOCK_SIZE_CODES[blockSize];
+  if (blockSizeCode === undefined) {
+    blockSizeCode = blockSize <= 256 ? 6 : 7;
+  }
+  const sampleRateCode = SAMPLE_RATE_CODES[sampleRate] ?? 0;
+
+  writer.writeBits(0b11111111111110, 14);
+  writer.writeBits(0, 1); // reserved
+  writer.writeBits(0, 1); // fixed block size stream
+  writer.writeBits(blockSizeCode, 4);
+  writer.writeBits(sampleRateCode, 4);
+  writer.writeBits(channelAssignment, 4);
+  writer.writeBits(bitsPerSample === 16 ? 0b100 : 0b110, 3);
+  writer.writeBits(0, 1);
+  writer.writeUtf8(frameNumber);
+  if (blockSizeCode === 6) {
+    writer.writeBits(blockSize - 1, 8);
+  } else if (blockSizeCode === 7) {
+    writer.writeBits(blockSize - 1, 16);
+  }
+  writer.writeBits(crc8(writer.slice(start)), 8);
+}
+
+/**
+ * Encode planar float channel data to a FLAC file.
+ * Supports 1 to 8 channels at 16 or 24 bits per sample.
+ */
+export function encodeFlac(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: FlacEncodeOptions = {},
+  onProgress?: EncodeProgressCallback
+) {
+  const bitDepth = options.bitDepth ?? 16;
+  const level = Math.max(0, Math.min(8, Math.round(options.compressionLevel ?? DEFAULT_FLAC_COMPRESSION_LEVEL)));
+  const preset = COMPRESSION_PRESETS[level];
+  const channelCount = channels.length;
+  const totalSamples = channels[0]?.length ?? 0;
+
+  if (channelCount < 1 || channelCount > 8) {
+    throw new Error(`FLAC supports 1 to 8 channels, got ${channelCount}`);
+  }
+  if (sampleRate <= 0 || sampleRate > 655350) {
+    throw new Error(`Unsupported FLAC sample rate: ${sampleRate} Hz`);
+  }
+
+  const writer = new BitWriter();
+  const md5 = new Md5();
+  const quantizer = new Quantizer(bitDepth, channelCount, bitDepth === 16 ? options.dither : 'none');
+  const bytesPerSample = bitDepth / 8;
+
+  // "fLaC" marker and a STREAMINFO placeholder filled in once sizes are known
+  writer.writeBits(0x664C6143, 32);
+  const streamInfoOffset = writer.byteLength;
+  for (let i = 0; i < 38; i++) {
+    writer.writeBits(0, 8);
+  }
+
+  const metadataBlocks: Array<{ type: number; data: Uint8Array }> = [];
+  if (options.comments?.length) {
+    metadataBlocks.push({ type: 4, data: buildVorbisCommentList(options.comments) });
+  }
+  if (options.picture) {
+    metadataBlocks.push({ type: 6, data: options.picture });
+  }
+  metadataBlocks.forEach((block, index) => {
+    const isLast = index === metadataBlocks.length - 1;
+    writer.writeBits((isLast ? 0x80 : 0) | block.type, 8);
+    writer.writeBits(block.data.length, 24);
+    writer.writeBytes(block.data);
+  });
+
+  const blockSamples = channels.map(() => new Int32Array(preset.blockSize));
+  const md5Block = new Uint8Array(preset.blockSize * channelCount * bytesPerSample);
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+  let frameNumber = 0;
+
+  for (let start = 0; start < totalSamples; start += preset.blockSize, frameNumber++) {
+    const blockSize = Math.min(preset.blockSize, totalSamples - start);
+    const samples = blockSamples.map((buffer, ch) => {
+      const view = buffer.subarray(0, blockSize);
+      quantizer.quantizeChannel(channels[ch].subarray(start, start + blockSize), view, ch);
+      return view;
+    });
+
+    // MD5 covers the interleaved little-endian PCM samples
+    let md5Offset = 0;
+    for (let i = 0; i < blockSize; i++) {
+      for (let ch = 0; ch < channelCount; ch++) {
+        const value = samples[ch][i];
+        for (let b = 0; b < bytesPerSample; b++) {
+          md5Block[md5Offset++] = (value >> (8 * b)) & 0xFF;
+        }
+      }
+    }
+    md5.update(md5Block.subarray(0, md5Offset));
+
+    const frameStart = writer.byteLength;
+    let channelAssignment = channelCount - 1;
+    let encodedChannels: Int32Array[] = samples;
+    let channelBits: number[] = samples.map(() => bitDepth);
+    let subframes: Subframe[];
+
+    if (channelCount === 2 && preset.stereo !== 'independent' && blockSize > MAX_FIXED_ORDER) {
+      const [left, right] = samples;
+      const mid = new Int32Array(blockSize);
+      const side = new Int32Array(blockSize);
+      for (let i = 0; i < blockSize; i++) {
+        mid[i] = (left[i] + right[i]) >> 1;
+        side[i] = left[i] - right[i];
+      }
+
+      const assignments: Array<{ assignment: number; channels: Int32Array[]; bits: number[] }> = [
+        { assignment: 1, channels: [left, right], bits: [bitDepth, bitDepth] },
+        { assignment: ChannelAssignment.LeftSide, channels: [left, side], bits: [bitDepth, bitDepth + 1] },
+        { assignment: ChannelAssignment.RightSide, channels: [side, right], bits: [bitDepth + 1, bitDepth] },
+        { assignment: ChannelAssignment.MidSide, channels: [mid, side], bits: [bitDepth, bitDepth + 1] },
+      ];
+
+      if (preset.stereo === 'estimate') {
+        const [l, r, m, s] = [left, right, mid, side].map(estimateCost);
+        const costs = [l + r, l + s, s + r, m + s];
+        const choice = assignments[costs.indexOf(Math.min(...costs))];
+        channelAssignment = choice.assignment;
+        encodedChannels = choice.channels;
+        channelBits = choice.bits;
+        subframes = encodedChannels.map((data, ch) => analyzeSubframe(data, channelBits[ch], preset));
+      } else {
+        const [l, r, m, s] = [
+          analyzeSubframe(left, bitDepth, preset),
+          analyzeSubframe(right, bitDepth, preset),
+          analyzeSubframe(mid, bitDepth, preset),
+          analyzeSubframe(side, bitDepth + 1, preset),
+        ];
+        const candidates = [[l, r], [l, s], [s, r], [m, s]];
+        const costs = candidates.map(([a, b]) => a.bits + b.bits);
+        const index = costs.indexOf(Math.min(...costs));
+        channelAssignment = assignments[index].assignment;
+        encodedChannels = assignments[index].channels;
+        channelBits = assignments[index].bits;
+        subframes = candidates[index];
+      }
+    } else {
+      subframes = samples.map(data => analyzeSubframe(data, bitDepth, preset));
+    }
+
+    writeFrameHeader(writer, frameNumber, blockSize, sampleRate, channelAssignment, bitDepth);
+    subframes.forEach((subframe, ch) => writeSubframe(writer, encodedChannels[ch], subframe, channelBits[ch]));
+    writer.alignToByte();
+    writer.writeBits(crc16(writer.slice(frameStart)), 16);
+
+    const frameSize = writer.byteLength - frameStart;
+    minFrameSize = Math.min(minFrameSize, frameSize);
+    maxFrameSize = Math.max(maxFrameSize, frameSize);
+    onProgress?.(Math.min(1, (start + blockSize) / totalSamples));
+  }
+
+  const output = writer.toUint8Array();
+  const view = new DataView(output.buffer);
+  let offset = streamInfoOffset;
+
+  // Metadata block header: type 0 (STREAMINFO), length 34, last unless tags follow
+  view.setUint32(offset, (metadataBlocks.length === 0 ? 0x80000000 : 0) | 34);
+  offset += 4;
+  view.setUint16(offset, preset.blockSize);
+  view.setUint16(offset + 2, preset.blockSize);
+  offset += 4;
+  const writeUint24 = (value: number) => {
+    output[offset++] = (value >> 16) & 0xFF;
+    output[offset++] = (value >> 8) & 0xFF;
+    output[offset++] = value & 0xFF;
+  };
+  writeUint24(isFinite(minFrameSize) ? minFrameSize : 0);
+  writeUint24(maxFrameSize);
+  // 20 bits sample rate, 3 bits channels - 1, 5 bits bps - 1, 36 bits total samples
+  const high = (sampleRate << 12) | ((channelCount - 1) << 9) | ((bitDepth - 1) << 4) | Math.floor(totalSamples / 2 ** 32);
+  view.setUint32(offset, high >>> 0);
+  view.setUint32(offset + 4, totalSamples >>> 0);
+  offset += 8;
+  output.set(md5.digest(), offset);
+
+  return output;
+}
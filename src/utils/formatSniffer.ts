@@ -0,0 +1,237 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+// Container and codec detection from the file content, so that decoding does
+// not depend on a MIME type or an extension that may be wrong
+
+import { ascii, childBox, readBoxes, viewOf } from './demuxer';
+
+export type DecoderRoute = 'native' | 'ffmpeg';
+
+export interface SniffedFormat {
+  container: string;
+  codec?: string;
+  label: string; // shown to the user, e.g. "MP4 (ALAC)"
+  route: DecoderRoute; // which decoder to try first
+  hasVideo?: boolean; // audio must then be extracted with FFmpeg
+}
+
+// MPEG audio frames are searched this far past the tags, to skip padding
+const MPEG_SYNC_SEARCH = 4096;
+// Matroska codec ids sit in the track header near the start of the file
+const MATROSKA_HEADER_SEARCH = 65536;
+
+const ASF_HEADER_GUID = [0x30, 0x26, 0xB2, 0x75, 0x8E, 0x66, 0xCF, 0x11, 0xA6, 0xD9, 0x00, 0xAA, 0x00, 0x62, 0xCE, 0x6C];
+
+// Formats identified by their first bytes alone, none of which browsers decode
+const FFMPEG_MAGICS: Array<{ magic: string; container: string; label: string }> = [
+  { magic: 'MAC ', container: 'ape', label: "Monkey's Audio" },
+  { magic: 'wvpk', container: 'wavpack', label: 'WavPack' },
+  { magic: 'TTA1', container: 'tta', label: 'True Audio' },
+  { magic: 'ajkg', container: 'shorten', label: 'Shorten' },
+  { magic: 'MPCK', container: 'musepack', label: 'Musepack' },
+  { magic: 'MP+', container: 'musepack', label: 'Musepack' },
+  { magic: '#!AMR', container: 'amr', label: 'AMR' },
+  { magic: '.ra\xFD', container: 'realaudio', label: 'RealAudio' },
+  { magic: '.RMF', container: 'realmedia', label: 'RealMedia' },
+  { magic: 'caff', container: 'caf', label: 'Core Audio' },
+  { magic: '.snd', container: 'au', label: 'Sun AU' },
+];
+
+// WAVE format tags; the browsers only read integer and float PCM
+const WAVE_CODECS: Record<number, string> = {
+  0x0001: 'PCM',
+  0x0002: 'MS ADPCM',
+  0x0003: 'PCM float',
+  0x0006: 'A-law',
+  0x0007: 'µ-law',
+  0x0011: 'IMA ADPCM',
+  0x0055: 'MP3',
+  0x0161: 'WMA',
+};
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+// MP4 sample entry types, with whether the browsers decode them
+const MP4_CODECS: Record<string, { codec: string; route: DecoderRoute }> = {
+  'mp4a': { codec: 'AAC', route: 'native' },
+  'Opus': { codec: 'Opus', route: 'native' },
+  'fLaC': { codec: 'FLAC', route: 'native' },
+  'alac': { codec: 'ALAC', route: 'ffmpeg' },
+  'ac-3': { codec: 'AC-3', route: 'ffmpeg' },
+  'ec-3': { codec: 'E-AC-3', route: 'ffmpeg' },
+  'samr': { codec: 'AMR', route: 'ffmpeg' },
+  'sawb': { codec: 'AMR-WB', route: 'ffmpeg' },
+};
+
+const MATROSKA_CODECS: Record<string, { codec: string; route: DecoderRoute }> = {
+  'A_OPUS': { codec: 'Opus', route: 'native' },
+  'A_VORBIS': { codec: 'Vorbis', route: 'native' },
+  'A_AAC': { codec: 'AAC', route: 'native' },
+  'A_FLAC': { codec: 'FLAC', route: 'native' },
+  'A_MPEG/L3': { codec: 'MP3', route: 'native' },
+  'A_PCM/INT/LIT': { codec: 'PCM', route: 'native' },
+  'A_AC3': { codec: 'AC-3', route: 'ffmpeg' },
+  'A_EAC3': { codec: 'E-AC-3', route: 'ffmpeg' },
+  'A_DTS': { codec: 'DTS', route: 'ffmpeg' },
+  'A_TRUEHD': { codec: 'TrueHD', route: 'ffmpeg' },
+};
+
+function startsWith(data: Uint8Array, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, i) => data[offset + i] === byte);
+}
+
+function format(container: string, label: string, route: DecoderRoute, codec?: string): SniffedFormat {
+  return { container, codec, label: codec ? `${label} (${codec})` : label, route };
+}
+
+function videoFormat(container: string, label: string, codec?: string): SniffedFormat {
+  return { ...format(container, label, 'ffmpeg', codec), hasVideo: true };
+}
+
+function sniffWave(data: Uint8Array): SniffedFormat {
+  const view = viewOf(data);
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const id = ascii(data, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ' && offset + 10 <= data.length) {
+      let tag = view.getUint16(offset + 8, true);
+      // The actual format is the first two bytes of the SubFormat GUID
+      if (tag === WAVE_FORMAT_EXTENSIBLE && offset + 34 <= data.length) {
+        tag = view.getUint16(offset + 32, true);
+      }
+      const codec = WAVE_CODECS[tag] ?? `0x${tag.toString(16).padStart(4, '0')}`;
+      return format('wav', 'WAV', tag === 0x0001 || tag === 0x0003 ? 'native' : 'ffmpeg', codec);
+    }
+    offset += 8 + size + (size & 1);
+  }
+  return format('wav', 'WAV', 'native');
+}
+
+function sniffOgg(data: Uint8Array): SniffedFormat {
+  // The first packet of the first page identifies the codec
+  const packet = 27 + data[26];
+  if (ascii(data, packet, 7) === '\x01vorbis') return format('ogg', 'Ogg', 'native', 'Vorbis');
+  if (ascii(data, packet, 8) === 'OpusHead') return format('ogg', 'Ogg', 'native', 'Opus');
+  if (ascii(data, packet, 5) === '\x7FFLAC') return format('ogg', 'Ogg', 'native', 'FLAC');
+  if (ascii(data, packet, 8) === 'Speex   ') return format('ogg', 'Ogg', 'ffmpeg', 'Speex');
+  return format('ogg', 'Ogg', 'native');
+}
+
+/**
+ * Codec of the first sound track (moov/trak/mdia/minf/stbl/stsd), and
+ * whether there is a video track.
+ * moov may come after the media data, so the whole file is walked.
+ */
+function sniffMp4(data: Uint8Array): SniffedFormat {
+  const moov = readBoxes(data, 0, data.length).find(box => box.type === 'moov');
+  const traks = moov ? readBoxes(data, moov.start, moov.end).filter(box => box.type === 'trak') : [];
+  let audioCodec: { codec: string; route: DecoderRoute } | undefined;
+  let hasVideo = false;
+
+  for (const trak of traks) {
+    const mdia = childBox(data, trak, 'mdia');
+    const hdlr = mdia && childBox(data, mdia, 'hdlr');
+    if (!mdia || !hdlr) continue;
+
+    // hdlr: version and flags, pre_defined, then the handler type
+    const handler = ascii(data, hdlr.start + 8, 4);
+    if (handler === 'vide') hasVideo = true;
+    if (handler !== 'soun' || audioCodec) continue;
+
+    const minf = childBox(data, mdia, 'minf');
+    const stbl = minf && childBox(data, minf, 'stbl');
+    const stsd = stbl && childBox(data, stbl, 'stsd');
+    // stsd: version and flags, entry count, then the sample entries
+    const entry = stsd && readBoxes(data, stsd.start + 8, stsd.end)[0];
+    if (entry) {
+      audioCodec = MP4_CODECS[entry.type] ?? { codec: entry.type.trim(), route: 'native' };
+    }
+  }
+
+  // ftyp major brand
+  const label = ascii(data, 8, 4) === 'qt  ' ? 'QuickTime' : 'MP4';
+  if (hasVideo) return videoFormat('mp4', label, audioCodec?.codec);
+  return audioCodec
+    ? format('mp4', label, audioCodec.route, audioCodec.codec)
+    : format('mp4', label, 'native');
+}
+
+function sniffMatroska(data: Uint8Array): SniffedFormat {
+  const header = ascii(data, 0, MATROSKA_HEADER_SEARCH);
+  const label = header.includes('webm') ? 'WebM' : 'Matroska';
+  const codecId = header.match(/A_[A-Z0-9/]+/)?.[0];
+  const known = codecId
+    ? MATROSKA_CODECS[codecId] ?? Object.entries(MATROSKA_CODECS).find(([id]) => codecId.startsWith(id))?.[1]
+    : undefined;
+  if (/V_[A-Z0-9/]+/.test(header)) return videoFormat('matroska', label, known?.codec);
+  return known ? format('matroska', label, known.route, known.codec) : format('matroska', label, 'native');
+}
+
+/**
+ * MPEG audio or ADTS frame header at the given offset
+ */
+function sniffMpegFrame(data: Uint8Array, offset: number): SniffedFormat | null {
+  if (data[offset] !== 0xFF || (data[offset + 1] & 0xE0) !== 0xE0) return null;
+
+  const version = (data[offset + 1] >> 3) & 0x03;
+  const layer = (data[offset + 1] >> 1) & 0x03;
+  if ((data[offset + 1] & 0xF6) === 0xF0) {
+    // ADTS: 12-bit sync, layer always 0
+    const sampleRateIndex = (data[offset + 2] >> 2) & 0x0F;
+    return sampleRateIndex < 13 ? format('adts', 'AAC', 'native') : null;
+  }
+
+  const bitrateIndex = data[offset + 2] >> 4;
+  const sampleRateIndex = (data[offset + 2] >> 2) & 0x03;
+  if (version === 1 || layer === 0 || bitrateIndex === 0x0F || sampleRateIndex === 3) return null;
+
+  // Layers I and II (MP1/MP2) are missing from most browser builds
+  return layer === 1 ? format('mpeg', 'MP3', 'native') : format('mpeg', `MPEG Layer ${4 - layer}`, 'ffmpeg');
+}
+
+function sniffContainer(data: Uint8Array, offset: number): SniffedFormat | null {
+  const rest = data.subarray(offset);
+  const magic = ascii(rest, 0, 4);
+
+  if (magic === 'fLaC') return format('flac', 'FLAC', 'native');
+  if (magic === 'OggS') return sniffOgg(rest);
+  if (magic === 'RIFF' && ascii(rest, 8, 4) === 'WAVE') return sniffWave(rest);
+  if (magic === 'RIFF' && ascii(rest, 8, 4) === 'AVI ') return videoFormat('avi', 'AVI');
+  if ((magic === 'RF64' || magic === 'BW64') && ascii(rest, 8, 4) === 'WAVE') return format('wav', 'RF64', 'ffmpeg');
+  if (magic === 'FORM' && (ascii(rest, 8, 4) === 'AIFF' || ascii(rest, 8, 4) === 'AIFC')) {
+    return format('aiff', ascii(rest, 8, 4) === 'AIFC' ? 'AIFF-C' : 'AIFF', 'ffmpeg');
+  }
+  if (ascii(rest, 4, 4) === 'ftyp') return sniffMp4(rest);
+  if (startsWith(rest, [0x1A, 0x45, 0xDF, 0xA3])) return sniffMatroska(rest);
+  if (startsWith(rest, ASF_HEADER_GUID)) return format('asf', 'ASF', 'ffmpeg', 'WMA');
+  if (startsWith(rest, [0x00, 0x00, 0x01, 0xBA])) return videoFormat('mpeg-ps', 'MPEG-PS');
+  if (startsWith(rest, [0x0B, 0x77])) return format('ac3', 'AC-3', 'ffmpeg');
+  if (startsWith(rest, [0x7F, 0xFE, 0x80, 0x01])) return format('dts', 'DTS', 'ffmpeg');
+
+  const known = FFMPEG_MAGICS.find(entry => ascii(rest, 0, entry.magic.length) === entry.magic);
+  if (known) return format(known.container, known.label, 'ffmpeg');
+
+  for (let i = 0; i < Math.min(rest.length - 3, MPEG_SYNC_SEARCH); i++) {
+    const frame = sniffMpegFrame(rest, i);
+    if (frame) return frame;
+  }
+  return null;
+}
+
+/**
+ * Identify the container and, where it matters for decoding, the codec.
+ * Returns null when the content is not recognized.
+ */
+export function sniffAudioFormat(data: Uint8Array): SniffedFormat | null {
+  if (data.length < 12) return null;
+
+  // ID3v2 tags precede MP3 and ADTS streams, and sometimes FLAC
+  let offset = 0;
+  while (ascii(data, offset, 3) === 'ID3' && offset + 10 <= data.length) {
+    const size = (data[offset + 6] << 21) | (data[offset + 7] << 14) | (data[offset + 8] << 7) | data[offset + 9];
+    offset += 10 + size + (data[offset + 5] & 0x10 ? 10 : 0); // footer
+  }
+
+  return sniffContainer(data, offset);
+}
@@ -0,0 +1,160 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+// ITU-R BS.1770-4 integrated loudness with the EBU R128 gating
+
+const BLOCK_SECONDS = 0.4;
+const STEPS_PER_BLOCK = 4; // 75 % overlap
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU below the ungated loudness
+
+// Peak ceiling kept after normalization, in dBFS
+export const DEFAULT_PEAK_CEILING = -1;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * The two K-weighting stages (high shelf, then high-pass), derived for any
+ * sample rate the same way libebur128 does
+ */
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  let f0 = 1681.974450955533;
+  const gain = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan(Math.PI * f0 / sampleRate);
+  const vh = Math.pow(10, gain / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b0: (vh + vb * k / q + k * k) / a0,
+    b1: 2 * (k * k - vh) / a0,
+    b2: (vh - vb * k / q + k * k) / a0,
+    a1: 2 * (k * k - 1) / a0,
+    a2: (1 - k / q + k * k) / a0
+  };
+
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan(Math.PI * f0 / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (k * k - 1) / a0,
+    a2: (1 - k / q + k * k) / a0
+  };
+
+  return [shelf, highPass];
+}
+
+/**
+ * BS.1770 channel weights for the WAVE orders; LFE does not count
+ */
+function channelWeights(channelCount: number): number[] {
+  if (channelCount === 6) return [1, 1, 1, 0, 1.41, 1.41];
+  if (channelCount === 5) return [1, 1, 1, 1.41, 1.41];
+  return new Array(channelCount).fill(1);
+}
+
+/**
+ * Sum of K-weighted squares of one channel over consecutive 100 ms steps
+ */
+function weightedStepEnergy(channel: Float32Array, sampleRate: number, stepLength: number): Float64Array {
+  const filters = kWeightingFilters(sampleRate);
+  const steps = new Float64Array(Math.floor(channel.length / stepLength));
+  const state = filters.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+
+  for (let i = 0; i < steps.length * stepLength; i++) {
+    let sample = channel[i];
+    filters.forEach((filter, f) => {
+      const s = state[f];
+      const output = filter.b0 * sample + filter.b1 * s.x1 + filter.b2 * s.x2 - filter.a1 * s.y1 - filter.a2 * s.y2;
+      s.x2 = s.x1;
+      s.x1 = sample;
+      s.y2 = s.y1;
+      s.y1 = output;
+      sample = output;
+    });
+    steps[Math.floor(i / stepLength)] += sample * sample;
+  }
+
+  return steps;
+}
+
+function energyToLoudness(energy: number): number {
+  return -0.691 + 10 * Math.log10(energy);
+}
+
+/**
+ * Integrated loudness in LUFS, or -Infinity for silence and clips shorter
+ * than one 400 ms block
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): number {
+  const stepLength = Math.round(sampleRate * BLOCK_SECONDS / STEPS_PER_BLOCK);
+  const weights = channelWeights(channels.length);
+  const channelSteps = channels.map((channel, ch) =>
+    weights[ch] === 0 ? null : weightedStepEnergy(channel, sampleRate, stepLength));
+
+  const stepCount = Math.floor((channels[0]?.length ?? 0) / stepLength);
+  const blocks: number[] = [];
+  for (let start = 0; start + STEPS_PER_BLOCK <= stepCount; start++) {
+    let energy = 0;
+    channelSteps.forEach((steps, ch) => {
+      if (!steps) return;
+      let sum = 0;
+      for (let s = start; s < start + STEPS_PER_BLOCK; s++) sum += steps[s];
+      energy += weights[ch] * sum / (stepLength * STEPS_PER_BLOCK);
+    });
+    blocks.push(energy);
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const aboveAbsolute = blocks.filter(energy => energyToLoudness(energy) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) return -Infinity;
+
+  const relativeGate = energyToLoudness(mean(aboveAbsolute)) + RELATIVE_GATE;
+  const gated = aboveAbsolute.filter(energy => energyToLoudness(energy) > relativeGate);
+  return energyToLoudness(mean(gated));
+}
+
+/**
+ * Scale the channels in place to the target integrated loudness.
+ * The gain is reduced if needed so the sample peak stays under the ceiling,
+ * so quiet targets are always met but loud ones may fall short.
+ * Returns the applied gain in dB.
+ */
+export function normalizeLoudness(
+  channels: Float32Array[],
+  sampleRate: number,
+  targetLufs: number,
+  peakCeiling = DEFAULT_PEAK_CEILING
+): number {
+  const loudness = measureLoudness(channels, sampleRate);
+  if (!Number.isFinite(loudness)) return 0;
+
+  let peak = 0;
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) {
+      const value = Math.abs(channel[i]);
+      if (value > peak) peak = value;
+    }
+  }
+
+  const gainDb = Math.min(targetLufs - loudness, peakCeiling - 20 * Math.log10(peak));
+  const gain = Math.pow(10, gainDb / 20);
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) {
+      channel[i] *= gain;
+    }
+  }
+
+  return gainDb;
+}
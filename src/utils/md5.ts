@@ -0,0 +1,102 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+// Per-round shift amounts
+const S = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+// Integer part of abs(sin(i + 1)) * 2^32
+const K = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0);
+
+/**
+ * Incremental MD5 digest. Web Crypto does not offer MD5, which FLAC needs
+ * for the STREAMINFO audio signature.
+ */
+export class Md5 {
+  private state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+  private block = new Uint8Array(64);
+  private blockView = new DataView(this.block.buffer);
+  private blockLength = 0;
+  private totalLength = 0;
+  private words = new Uint32Array(16);
+
+  update(data: Uint8Array): void {
+    this.totalLength += data.length;
+    let offset = 0;
+
+    while (offset < data.length) {
+      const count = Math.min(64 - this.blockLength, data.length - offset);
+      this.block.set(data.subarray(offset, offset + count), this.blockLength);
+      this.blockLength += count;
+      offset += count;
+
+      if (this.blockLength === 64) {
+        this.processBlock();
+        this.blockLength = 0;
+      }
+    }
+  }
+
+  digest(): Uint8Array {
+    const bitLength = this.totalLength * 8;
+    const padding = new Uint8Array(this.blockLength < 56 ? 56 - this.blockLength : 120 - this.blockLength);
+    padding[0] = 0x80;
+    this.update(padding);
+
+    const lengthBytes = new Uint8Array(8);
+    const lengthView = new DataView(lengthBytes.buffer);
+    lengthView.setUint32(0, bitLength >>> 0, true);
+    lengthView.setUint32(4, Math.floor(bitLength / 0x100000000), true);
+    this.update(lengthBytes);
+
+    const result = new Uint8Array(16);
+    const resultView = new DataView(result.buffer);
+    for (let i = 0; i < 4; i++) {
+      resultView.setUint32(i * 4, this.state[i], true);
+    }
+    return result;
+  }
+
+  private processBlock(): void {
+    const m = this.words;
+    for (let i = 0; i < 16; i++) {
+      m[i] = this.blockView.getUint32(i * 4, true);
+    }
+
+    let [a, b, c, d] = this.state;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const sum = (a + f + K[i] + m[g]) >>> 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << S[i]) | (sum >>> (32 - S[i])))) >>> 0;
+    }
+
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+  }
+}
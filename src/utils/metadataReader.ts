@@ -0,0 +1,615 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { AudioChapter, AudioMetadata, CoverArt, MetadataTextField } from '@/types';
+import { readBoxes, viewOf, type Box } from './demuxer';
+
+// ID3v1 genre list (0-79), also referenced by ID3v2 "(n)" genres and MP4 gnre atoms
+const ID3V1_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+  'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychedelic', 'Rave', 'Showtunes',
+  'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+];
+
+// ID3v2.2 ids first, then v2.3/v2.4
+const ID3_TEXT_FRAMES: Record<string, MetadataTextField> = {
+  TT2: 'title', TP1: 'artist', TAL: 'album', TRK: 'trackNumber', TYE: 'year', TCO: 'genre',
+  TIT2: 'title', TPE1: 'artist', TALB: 'album', TRCK: 'trackNumber', TYER: 'year', TDRC: 'year', TCON: 'genre',
+};
+
+const VORBIS_FIELDS: Record<string, MetadataTextField> = {
+  TITLE: 'title',
+  ARTIST: 'artist',
+  ALBUM: 'album',
+  TRACKNUMBER: 'trackNumber',
+  DATE: 'year',
+  YEAR: 'year',
+  GENRE: 'genre',
+  COMMENT: 'comment',
+  DESCRIPTION: 'comment',
+};
+
+const RIFF_INFO_FIELDS: Record<string, MetadataTextField> = {
+  INAM: 'title',
+  IART: 'artist',
+  IPRD: 'album',
+  ITRK: 'trackNumber',
+  IPRT: 'trackNumber',
+  ICRD: 'year',
+  IGNR: 'genre',
+  ICMT: 'comment',
+};
+
+const MP4_FIELDS: Record<string, MetadataTextField> = {
+  '©nam': 'title',
+  '©ART': 'artist',
+  '©alb': 'album',
+  '©day': 'year',
+  '©gen': 'genre',
+  '©cmt': 'comment',
+};
+
+const FRONT_COVER = 3;
+
+const latin1 = new TextDecoder('iso-8859-1');
+const utf8 = new TextDecoder('utf-8');
+
+function fourCC(data: Uint8Array, offset: number): string {
+  return latin1.decode(data.subarray(offset, offset + 4));
+}
+
+function syncsafe(data: Uint8Array, offset: number): number {
+  return (data[offset] << 21) | (data[offset + 1] << 14) | (data[offset + 2] << 7) | data[offset + 3];
+}
+
+function trimNulls(value: string): string {
+  return value.replace(/\0+$/, '').trim();
+}
+
+/**
+ * Decode UTF-8 when valid, Windows-1252 otherwise (RIFF INFO has no declared charset)
+ */
+function decodeLegacyText(data: Uint8Array): string {
+  try {
+    return trimNulls(new TextDecoder('utf-8', { fatal: true }).decode(data));
+  } catch {
+    return trimNulls(latin1.decode(data));
+  }
+}
+
+function normalizeYear(value: string): string {
+  const match = value.match(/^\d{4}/);
+  return match ? match[0] : value;
+}
+
+function normalizeGenre(value: string): string {
+  // "(17)", "17" or "(17)Rock" reference the ID3v1 list
+  const match = value.match(/^\((\d+)\)(.*)$/) ?? value.match(/^(\d+)()$/);
+  if (!match) return value;
+  return match[2] || ID3V1_GENRES[Number(match[1])] || value;
+}
+
+function setField(metadata: AudioMetadata, field: MetadataTextField, value: string): void {
+  const cleaned = trimNulls(value);
+  if (!cleaned || metadata[field]) return;
+  metadata[field] = field === 'year' ? normalizeYear(cleaned) : field === 'genre' ? normalizeGenre(cleaned) : cleaned;
+}
+
+/**
+ * Fill the gaps in the first set of tags from the others
+ */
+function mergeMetadata(...sources: AudioMetadata[]): AudioMetadata {
+  const result: AudioMetadata = {};
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source) as Array<[keyof AudioMetadata, AudioMetadata[keyof AudioMetadata]]>) {
+      if (value !== undefined && result[key] === undefined) {
+        Object.assign(result, { [key]: value });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Decode an ID3v2 encoded string; returns the text and the offset after its terminator
+ */
+function readId3String(data: Uint8Array, offset: number, encoding: number, terminated: boolean): [string, number] {
+  const wide = encoding === 1 || encoding === 2;
+  let end = data.length;
+
+  if (terminated) {
+    end = offset;
+    while (end < data.length && (wide ? data[end] !== 0 || data[end + 1] !== 0 : data[end] !== 0)) {
+      end += wide ? 2 : 1;
+    }
+  }
+
+  const bytes = data.subarray(offset, Math.min(end, data.length));
+  let text: string;
+  if (encoding === 1) {
+    const bigEndian = bytes[0] === 0xFE && bytes[1] === 0xFF;
+    text = new TextDecoder(bigEndian ? 'utf-16be' : 'utf-16le').decode(bytes).replace(/^\uFEFF/, '');
+  } else if (encoding === 2) {
+    text = new TextDecoder('utf-16be').decode(bytes);
+  } else if (encoding === 3) {
+    text = utf8.decode(bytes);
+  } else {
+    text = latin1.decode(bytes);
+  }
+
+  // Several values are separated by NUL, keep the first
+  return [text.split('\0')[0].trim(), end + (wide ? 2 : 1)];
+}
+
+function removeUnsynchronisation(data: Uint8Array): Uint8Array {
+  const output = new Uint8Array(data.length);
+  let length = 0;
+  for (let i = 0; i < data.length; i++) {
+    output[length++] = data[i];
+    if (data[i] === 0xFF && data[i + 1] === 0x00) i++;
+  }
+  return output.subarray(0, length);
+}
+
+function pictureMimeType(format: string): string {
+  const normalized = format.toLowerCase();
+  if (normalized.includes('/')) return normalized;
+  return normalized === 'png' ? 'image/png' : 'image/jpeg';
+}
+
+interface Id3Frame {
+  id: string;
+  body: Uint8Array;
+}
+
+/**
+ * Split an ID3v2 tag body into frames, undoing unsynchronisation where flagged
+ */
+function readId3Frames(body: Uint8Array, version: number): Id3Frame[] {
+  const frames: Id3Frame[] = [];
+  const headerSize = version === 2 ? 6 : 10;
+  let offset = 0;
+
+  while (offset + headerSize <= body.length && body[offset] !== 0) {
+    const id = latin1.decode(body.subarray(offset, offset + (version === 2 ? 3 : 4)));
+    const size = version === 2
+      ? (body[offset + 3] << 16) | (body[offset + 4] << 8) | body[offset + 5]
+      : version === 4 ? syncsafe(body, offset + 4) : viewOf(body).getUint32(offset + 4);
+    const formatFlags = version === 2 ? 0 : body[offset + 9];
+    let frameBody = body.subarray(offset + headerSize, offset + headerSize + size);
+    offset += headerSize + size;
+
+    if (version === 4) {
+      // Compressed or encrypted frames are skipped
+      if (formatFlags & 0x0C) continue;
+      if (formatFlags & 0x02) frameBody = removeUnsynchronisation(frameBody);
+      if (formatFlags & 0x01) frameBody = frameBody.subarray(4); // data length indicator
+    } else if (version === 3 && formatFlags & 0xC0) {
+      continue;
+    }
+
+    frames.push({ id, body: frameBody });
+  }
+
+  return frames;
+}
+
+function parseId3Picture(frame: Id3Frame): { cover: CoverArt; type: number } | null {
+  const body = frame.body;
+  const encoding = body[0];
+  let offset = 1;
+  let mimeType: string;
+
+  if (frame.id === 'PIC') {
+    mimeType = pictureMimeType(latin1.decode(body.subarray(1, 4)));
+    offset = 4;
+  } else {
+    const [mime, next] = readId3String(body, offset, 0, true);
+    mimeType = pictureMimeType(mime || 'image/jpeg');
+    offset = next;
+  }
+
+  const type = body[offset++];
+  const [, dataOffset] = readId3String(body, offset, encoding, true);
+  if (dataOffset >= body.length) return null;
+
+  return { cover: { data: body.slice(dataOffset), mimeType }, type };
+}
+
+function parseId3Chapter(frame: Id3Frame, version: number): AudioChapter | null {
+  const body = frame.body;
+  const [elementId, offset] = readId3String(body, 0, 0, true);
+  if (offset + 16 > body.length) return null;
+
+  const view = viewOf(body);
+  const startTime = view.getUint32(offset) / 1000;
+  const endTime = view.getUint32(offset + 4) / 1000;
+
+  let title = elementId;
+  for (const sub of readId3Frames(body.subarray(offset + 16), version)) {
+    if (sub.id === 'TIT2') {
+      title = readId3String(sub.body, 1, sub.body[0], false)[0] || title;
+    }
+  }
+
+  return { title, startTime, endTime };
+}
+
+/**
+ * Parse an ID3v2.2, v2.3 or v2.4 tag starting at offset 0
+ */
+function parseId3v2(data: Uint8Array): AudioMetadata {
+  const metadata: AudioMetadata = {};
+  if (data.length < 10 || latin1.decode(data.subarray(0, 3)) !== 'ID3') return metadata;
+
+  const version = data[3];
+  const flags = data[5];
+  const size = syncsafe(data, 6);
+  let body = data.subarray(10, 10 + size);
+
+  if (version < 2 || version > 4) return metadata;
+  if (version < 4 && flags & 0x80) body = removeUnsynchronisation(body);
+  if (flags & 0x40 && version > 2) {
+    // Extended header: v2.3 size excludes itself, v2.4 includes it
+    const extendedSize = version === 4 ? syncsafe(body, 0) : viewOf(body).getUint32(0) + 4;
+    body = body.subarray(extendedSize);
+  }
+
+  let cover: { cover: CoverArt; type: number } | null = null;
+  const chapters: AudioChapter[] = [];
+
+  for (const frame of readId3Frames(body, version)) {
+    const field = ID3_TEXT_FRAMES[frame.id];
+    if (field) {
+      setField(metadata, field, readId3String(frame.body, 1, frame.body[0], false)[0]);
+    } else if (frame.id === 'COMM' || frame.id === 'COM') {
+      const encoding = frame.body[0];
+      const [, textOffset] = readId3String(frame.body, 4, encoding, true);
+      setField(metadata, 'comment', readId3String(frame.body, textOffset, encoding, false)[0]);
+    } else if (frame.id === 'APIC' || frame.id === 'PIC') {
+      const picture = parseId3Picture(frame);
+      if (picture && (!cover || (picture.type === FRONT_COVER && cover.type !== FRONT_COVER))) {
+        cover = picture;
+      }
+    } else if (frame.id === 'CHAP') {
+      const chapter = parseId3Chapter(frame, version);
+      if (chapter) chapters.push(chapter);
+    }
+  }
+
+  if (cover) metadata.coverArt = cover.cover;
+  if (chapters.length > 0) metadata.chapters = chapters.sort((a, b) => a.startTime - b.startTime);
+  return metadata;
+}
+
+/**
+ * Parse the 128-byte ID3v1 (or v1.1) tag at the end of a file
+ */
+function parseId3v1(data: Uint8Array): AudioMetadata {
+  const metadata: AudioMetadata = {};
+  if (data.length < 128) return metadata;
+
+  const tag = data.subarray(data.length - 128);
+  if (latin1.decode(tag.subarray(0, 3)) !== 'TAG') return metadata;
+
+  const text = (start: number, length: number) => trimNulls(latin1.decode(tag.subarray(start, start + length)));
+  setField(metadata, 'title', text(3, 30));
+  setField(metadata, 'artist', text(33, 30));
+  setField(metadata, 'album', text(63, 30));
+  setField(metadata, 'year', text(93, 4));
+
+  // ID3v1.1 keeps the track number in the last comment byte
+  const hasTrack = tag[125] === 0 && tag[126] !== 0;
+  setField(metadata, 'comment', text(97, hasTrack ? 28 : 30));
+  if (hasTrack) setField(metadata, 'trackNumber', String(tag[126]));
+  if (tag[127] < ID3V1_GENRES.length) setField(metadata, 'genre', ID3V1_GENRES[tag[127]]);
+
+  return metadata;
+}
+
+function parseFlacPicture(data: Uint8Array): { cover: CoverArt; type: number } | null {
+  const view = viewOf(data);
+  if (data.length < 32) return null;
+
+  const type = view.getUint32(0);
+  const mimeLength = view.getUint32(4);
+  const mimeType = latin1.decode(data.subarray(8, 8 + mimeLength));
+  let offset = 8 + mimeLength;
+  offset += 4 + view.getUint32(offset); // description
+  offset += 16; // width, height, depth, colors
+  const length = view.getUint32(offset);
+  offset += 4;
+
+  if (offset + length > data.length) return null;
+  return { cover: { data: data.slice(offset, offset + length), mimeType: pictureMimeType(mimeType || 'image/jpeg') }, type };
+}
+
+function parseChapterTime(value: string): number | null {
+  const match = value.match(/^(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+/**
+ * Parse a Vorbis comment list (vendor string, count, FIELD=value entries)
+ */
+function parseVorbisComments(data: Uint8Array, coverOverride?: CoverArt): AudioMetadata {
+  const metadata: AudioMetadata = {};
+  const view = viewOf(data);
+  const fields = new Map<string, string>();
+  let cover: { cover: CoverArt; type: number } | null = null;
+
+  let offset = 4 + view.getUint32(0, true);
+  const count = view.getUint32(offset, true);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= data.length; i++) {
+    const length = view.getUint32(offset, true);
+    const entry = utf8.decode(data.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+
+    const separator = entry.indexOf('=');
+    if (separator <= 0) continue;
+    const key = entry.slice(0, separator).toUpperCase();
+    const value = entry.slice(separator + 1);
+
+    if (key === 'METADATA_BLOCK_PICTURE') {
+      try {
+        const picture = parseFlacPicture(Uint8Array.from(atob(value), char => char.charCodeAt(0)));
+        if (picture && (!cover || (picture.type === FRONT_COVER && cover.type !== FRONT_COVER))) {
+          cover = picture;
+        }
+      } catch { /* ignore malformed base64 */ }
+    } else if (!fields.has(key)) {
+      fields.set(key, value);
+    }
+  }
+
+  for (const [key, field] of Object.entries(VORBIS_FIELDS)) {
+    const value = fields.get(key);
+    if (value) setField(metadata, field, value);
+  }
+
+  const trackTotal = fields.get('TRACKTOTAL') ?? fields.get('TOTALTRACKS');
+  if (metadata.trackNumber && trackTotal && !metadata.trackNumber.includes('/')) {
+    metadata.trackNumber = `${metadata.trackNumber}/${trackTotal}`;
+  }
+
+  // CHAPTER001=00:00:00.000 with CHAPTER001NAME=Title
+  const chapters: AudioChapter[] = [];
+  for (const [key, value] of fields) {
+    const match = key.match(/^CHAPTER(\d+)$/);
+    const startTime = match ? parseChapterTime(value) : null;
+    if (match && startTime !== null) {
+      chapters.push({ title: fields.get(`CHAPTER${match[1]}NAME`) ?? `Chapter ${Number(match[1])}`, startTime });
+    }
+  }
+  if (chapters.length > 0) metadata.chapters = chapters.sort((a, b) => a.startTime - b.startTime);
+
+  const coverArt = coverOverride ?? cover?.cover;
+  if (coverArt) metadata.coverArt = coverArt;
+  return metadata;
+}
+
+function parseFlac(data: Uint8Array, offset: number): AudioMetadata {
+  let comments: Uint8Array | null = null;
+  let cover: { cover: CoverArt; type: number } | null = null;
+  offset += 4; // "fLaC"
+
+  while (offset + 4 <= data.length) {
+    const header = data[offset];
+    const length = (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3];
+    const body = data.subarray(offset + 4, offset + 4 + length);
+    const type = header & 0x7F;
+
+    if (type === 4) {
+      comments = body;
+    } else if (type === 6) {
+      const picture = parseFlacPicture(body);
+      if (picture && (!cover || (picture.type === FRONT_COVER && cover.type !== FRONT_COVER))) {
+        cover = picture;
+      }
+    }
+
+    offset += 4 + length;
+    if (header & 0x80) break;
+  }
+
+  if (comments) return parseVorbisComments(comments, cover?.cover);
+  return cover ? { coverArt: cover.cover } : {};
+}
+
+/**
+ * Read the comment header, the second packet of the first logical Ogg stream
+ */
+function parseOgg(data: Uint8Array): AudioMetadata {
+  const packets: Uint8Array[] = [];
+  let current: Uint8Array[] = [];
+  let offset = 0;
+  const serial = viewOf(data).getUint32(14, true);
+
+  while (offset + 27 <= data.length && packets.length < 2 && fourCC(data, offset) === 'OggS') {
+    const segmentCount = data[offset + 26];
+    const pageSerial = viewOf(data).getUint32(offset + 14, true);
+    let bodyOffset = offset + 27 + segmentCount;
+
+    for (let i = 0; i < segmentCount; i++) {
+      const size = data[offset + 27 + i];
+      if (pageSerial === serial) {
+        current.push(data.subarray(bodyOffset, bodyOffset + size));
+        if (size < 255) {
+          const packet = new Uint8Array(current.reduce((total, part) => total + part.length, 0));
+          let position = 0;
+          for (const part of current) {
+            packet.set(part, position);
+            position += part.length;
+          }
+          packets.push(packet);
+          current = [];
+        }
+      }
+      bodyOffset += size;
+    }
+
+    offset = bodyOffset;
+  }
+
+  const header = packets[1];
+  if (!header) return {};
+  if (latin1.decode(header.subarray(0, 7)) === '\x03vorbis') return parseVorbisComments(header.subarray(7));
+  if (latin1.decode(header.subarray(0, 8)) === 'OpusTags') return parseVorbisComments(header.subarray(8));
+  return {};
+}
+
+function parseRiff(data: Uint8Array): AudioMetadata {
+  const view = viewOf(data);
+  const info: AudioMetadata = {};
+  let id3: AudioMetadata = {};
+  let offset = 12;
+
+  while (offset + 8 <= data.length) {
+    const id = fourCC(data, offset);
+    let size = view.getUint32(offset + 4, true);
+    // RF64 data chunks carry their real size in ds64; nothing we need lies beyond
+    if (size === 0xFFFFFFFF) break;
+    size = Math.min(size, data.length - offset - 8);
+    const body = data.subarray(offset + 8, offset + 8 + size);
+
+    if (id === 'LIST' && fourCC(body, 0) === 'INFO') {
+      let position = 4;
+      while (position + 8 <= body.length) {
+        const entryId = fourCC(body, position);
+        const entrySize = viewOf(body).getUint32(position + 4, true);
+        const field = RIFF_INFO_FIELDS[entryId];
+        if (field) {
+          setField(info, field, decodeLegacyText(body.subarray(position + 8, position + 8 + entrySize)));
+        }
+        position += 8 + entrySize + (entrySize % 2);
+      }
+    } else if (id === 'id3 ' || id === 'ID3 ') {
+      id3 = parseId3v2(body);
+    } else if (id === 'bext') {
+      setField(info, 'comment', decodeLegacyText(body.subarray(0, 256)));
+    }
+
+    offset += 8 + size + (size % 2);
+  }
+
+  return mergeMetadata(id3, info);
+}
+
+function findAtom(data: Uint8Array, parent: Box | null, path: string[]): Box | null {
+  let current = parent;
+  for (const type of path) {
+    // meta is a full box: skip its version and flags
+    const start = current ? current.start + (current.type === 'meta' ? 4 : 0) : 0;
+    const end = current ? current.end : data.length;
+    current = readBoxes(data, start, end).find(atom => atom.type === type) ?? null;
+    if (!current) return null;
+  }
+  return current;
+}
+
+/**
+ * Nero chapter list (moov/udta/chpl), start times in 100 ns units
+ */
+function parseChpl(data: Uint8Array, atom: Box): AudioChapter[] {
+  const view = viewOf(data);
+  let offset = atom.start;
+  const version = data[offset];
+  offset += 4 + (version ? 4 : 0);
+  const count = data[offset++];
+  const chapters: AudioChapter[] = [];
+
+  for (let i = 0; i < count && offset + 9 <= atom.end; i++) {
+    const start = view.getUint32(offset) * 0x100000000 + view.getUint32(offset + 4);
+    const length = data[offset + 8];
+    const title = utf8.decode(data.subarray(offset + 9, offset + 9 + length));
+    chapters.push({ title, startTime: start / 1e7 });
+    offset += 9 + length;
+  }
+
+  return chapters;
+}
+
+function parseMp4(data: Uint8Array): AudioMetadata {
+  const metadata: AudioMetadata = {};
+  const view = viewOf(data);
+  const udta = findAtom(data, null, ['moov', 'udta']);
+  const ilst = udta ? findAtom(data, udta, ['meta', 'ilst']) : null;
+
+  if (ilst) {
+    for (const item of readBoxes(data, ilst.start, ilst.end)) {
+      const dataAtom = readBoxes(data, item.start, item.end).find(atom => atom.type === 'data');
+      if (!dataAtom || dataAtom.end - dataAtom.start < 8) continue;
+
+      const dataType = view.getUint32(dataAtom.start) & 0xFFFFFF;
+      const value = data.subarray(dataAtom.start + 8, dataAtom.end);
+      const field = MP4_FIELDS[item.type];
+
+      if (field) {
+        setField(metadata, field, utf8.decode(value));
+      } else if (item.type === 'aART') {
+        setField(metadata, 'artist', utf8.decode(value));
+      } else if (item.type === 'trkn' && value.length >= 6) {
+        const track = viewOf(value).getUint16(2);
+        const total = viewOf(value).getUint16(4);
+        if (track) setField(metadata, 'trackNumber', total ? `${track}/${total}` : String(track));
+      } else if (item.type === 'gnre' && value.length >= 2) {
+        const genre = ID3V1_GENRES[viewOf(value).getUint16(0) - 1];
+        if (genre) setField(metadata, 'genre', genre);
+      } else if (item.type === 'covr' && !metadata.coverArt) {
+        // Data type 14 is PNG, 13 (and anything else) JPEG
+        metadata.coverArt = { data: value.slice(), mimeType: dataType === 14 ? 'image/png' : 'image/jpeg' };
+      }
+    }
+  }
+
+  const chpl = udta ? findAtom(data, udta, ['chpl']) : null;
+  if (chpl) {
+    const chapters = parseChpl(data, chpl);
+    if (chapters.length > 0) metadata.chapters = chapters;
+  }
+
+  return metadata;
+}
+
+/**
+ * Read tags, cover art and chapters from an audio file.
+ * Understands ID3v1/v2 (MP3, AAC, also prepended to FLAC), FLAC and Ogg
+ * Vorbis comments, MP4 ilst atoms and RIFF INFO/id3 chunks. Unknown
+ * containers and malformed tags yield an empty object.
+ */
+export function readMetadata(data: Uint8Array): AudioMetadata {
+  try {
+    const sources: AudioMetadata[] = [];
+    let offset = 0;
+
+    if (latin1.decode(data.subarray(0, 3)) === 'ID3') {
+      sources.push(parseId3v2(data));
+      offset = 10 + syncsafe(data, 6) + (data[5] & 0x10 ? 10 : 0); // footer
+    }
+
+    const magic = fourCC(data, offset);
+    if (magic === 'fLaC') {
+      sources.push(parseFlac(data, offset));
+    } else if (magic === 'OggS' && offset === 0) {
+      sources.push(parseOgg(data));
+    } else if ((magic === 'RIFF' || magic === 'RF64') && fourCC(data, 8) === 'WAVE') {
+      sources.push(parseRiff(data));
+    } else if (fourCC(data, 4) === 'ftyp') {
+      sources.push(parseMp4(data));
+    }
+
+    sources.push(parseId3v1(data));
+    return mergeMetadata(...sources);
+  } catch (error) {
+    console.warn('Could not read audio metadata:', error);
+    return {};
+  }
+}
@@ -0,0 +1,340 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { AudioChapter, AudioMetadata, CoverArt, MetadataTextField } from '@/types';
+
+const VENDOR = 'Setsound';
+
+// Picture type 3: front cover (shared by ID3 APIC and FLAC PICTURE)
+const FRONT_COVER = 3;
+
+const ID3_FRAMES: Array<[MetadataTextField, string]> = [
+  ['title', 'TIT2'],
+  ['artist', 'TPE1'],
+  ['album', 'TALB'],
+  ['trackNumber', 'TRCK'],
+  ['year', 'TDRC'],
+  ['genre', 'TCON'],
+];
+
+const VORBIS_FIELDS: Array<[MetadataTextField, string]> = [
+  ['title', 'TITLE'],
+  ['artist', 'ARTIST'],
+  ['album', 'ALBUM'],
+  ['trackNumber', 'TRACKNUMBER'],
+  ['year', 'DATE'],
+  ['genre', 'GENRE'],
+  ['comment', 'COMMENT'],
+];
+
+const RIFF_INFO_FIELDS: Array<[MetadataTextField, string]> = [
+  ['title', 'INAM'],
+  ['artist', 'IART'],
+  ['album', 'IPRD'],
+  ['trackNumber', 'ITRK'],
+  ['year', 'ICRD'],
+  ['genre', 'IGNR'],
+  ['comment', 'ICMT'],
+];
+
+const FFMPEG_FIELDS: Array<[MetadataTextField, string]> = [
+  ['title', 'title'],
+  ['artist', 'artist'],
+  ['album', 'album'],
+  ['trackNumber', 'track'],
+  ['year', 'date'],
+  ['genre', 'genre'],
+  ['comment', 'comment'],
+];
+
+const textEncoder = new TextEncoder();
+
+function concat(parts: Uint8Array[]) {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function uint32(value: number, littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, littleEndian);
+  return bytes;
+}
+
+function syncsafe(value: number): Uint8Array {
+  return new Uint8Array([(value >> 21) & 0x7F, (value >> 14) & 0x7F, (value >> 7) & 0x7F, value & 0x7F]);
+}
+
+function ascii(value: string): Uint8Array {
+  return Uint8Array.from(value, char => {
+    const code = char.charCodeAt(0);
+    return code < 0x80 ? code : 0x3F; // '?'
+  });
+}
+
+function fieldValue(metadata: AudioMetadata, field: MetadataTextField): string {
+  return metadata[field]?.trim() ?? '';
+}
+
+/**
+ * Whether any tag or the cover art is set
+ */
+export function hasMetadata(metadata?: AudioMetadata): metadata is AudioMetadata {
+  if (!metadata) return false;
+  return !!metadata.coverArt
+    || !!metadata.chapters?.length
+    || VORBIS_FIELDS.some(([field]) => fieldValue(metadata, field) !== '');
+}
+
+function id3Frame(id: string, body: Uint8Array): Uint8Array {
+  return concat([ascii(id), syncsafe(body.length), new Uint8Array(2), body]);
+}
+
+/**
+ * CHAP frames (ID3v2 Chapter Frame Addendum) with a TIT2 sub-frame each,
+ * and the top-level CTOC that lists them in order
+ */
+function id3ChapterFrames(chapters: AudioChapter[]): Uint8Array[] {
+  // The table of contents stores its entry count in a single byte
+  const listed = chapters.slice(0, 255);
+  const ids = listed.map((_, i) => ascii(`chp${i}`));
+  const terminator = new Uint8Array([0x00]);
+  const noOffset = uint32(0xFFFFFFFF, false);
+
+  const frames = listed.map((chapter, i) => id3Frame('CHAP', concat([
+    ids[i], terminator,
+    uint32(Math.round(chapter.startTime * 1000), false),
+    uint32(Math.round((chapter.endTime ?? chapter.startTime) * 1000), false),
+    noOffset, noOffset,
+    id3Frame('TIT2', concat([new Uint8Array([0x03]), textEncoder.encode(chapter.title)]))
+  ])));
+
+  // Flags: top-level and ordered
+  frames.unshift(id3Frame('CTOC', concat([
+    ascii('toc'), terminator,
+    new Uint8Array([0x03, listed.length]),
+    ...ids.flatMap(id => [id, terminator])
+  ])));
+
+  return frames;
+}
+
+/**
+ * Build an ID3v2.4 tag with UTF-8 text frames, a comment, the cover picture
+ * and chapters
+ */
+export function buildId3v2Tag(metadata: AudioMetadata) {
+  const frames: Uint8Array[] = [];
+  const utf8 = new Uint8Array([0x03]);
+  const terminator = new Uint8Array([0x00]);
+
+  for (const [field, id] of ID3_FRAMES) {
+    const value = fieldValue(metadata, field);
+    if (value) {
+      frames.push(id3Frame(id, concat([utf8, textEncoder.encode(value)])));
+    }
+  }
+
+  const comment = fieldValue(metadata, 'comment');
+  if (comment) {
+    // Encoding, language ("XXX" is unknown), empty description, text
+    frames.push(id3Frame('COMM', concat([utf8, ascii('XXX'), terminator, textEncoder.encode(comment)])));
+  }
+
+  if (metadata.coverArt) {
+    frames.push(id3Frame('APIC', concat([
+      utf8,
+      ascii(metadata.coverArt.mimeType), terminator,
+      new Uint8Array([FRONT_COVER]),
+      terminator, // empty description
+      metadata.coverArt.data
+    ])));
+  }
+
+  if (metadata.chapters?.length) {
+    frames.push(...id3ChapterFrames(metadata.chapters));
+  }
+
+  const body = concat(frames);
+  return concat([ascii('ID3'), new Uint8Array([4, 0, 0]), syncsafe(body.length), body]);
+}
+
+/**
+ * Read width and height from PNG or JPEG headers so players can skip decoding
+ */
+function imageSize(cover: CoverArt): { width: number; height: number } {
+  const data = cover.data;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  if (data.length >= 24 && data[0] === 0x89 && data[1] === 0x50) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  if (data[0] === 0xFF && data[1] === 0xD8) {
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xFF) {
+      const marker = data[offset + 1];
+      // SOF0 to SOF15, minus DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+
+  return { width: 0, height: 0 };
+}
+
+/**
+ * Body of a FLAC PICTURE metadata block, also used (base64) as the
+ * METADATA_BLOCK_PICTURE comment in Ogg streams
+ */
+export function buildFlacPicture(cover: CoverArt) {
+  const mimeType = ascii(cover.mimeType);
+  const { width, height } = imageSize(cover);
+  return concat([
+    uint32(FRONT_COVER, false),
+    uint32(mimeType.length, false), mimeType,
+    uint32(0, false), // description length
+    uint32(width, false),
+    uint32(height, false),
+    uint32(24, false), // color depth
+    uint32(0, false), // indexed colors
+    uint32(cover.data.length, false),
+    cover.data
+  ]);
+}
+
+function toBase64(data: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function formatChapterTime(seconds: number): string {
+  const milliseconds = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(Math.floor(milliseconds / 3600000))}:${pad(Math.floor(milliseconds / 60000) % 60)}:`
+    + `${pad(Math.floor(milliseconds / 1000) % 60)}.${pad(milliseconds % 1000, 3)}`;
+}
+
+/**
+ * Text tags as Vorbis comments (FIELD=value)
+ */
+export function toVorbisComments(metadata: AudioMetadata, includePicture = false): string[] {
+  const comments = VORBIS_FIELDS
+    .map(([field, name]) => [name, fieldValue(metadata, field)])
+    .filter(([, value]) => value !== '')
+    .map(([name, value]) => `${name}=${value}`);
+
+  // Chapter Extension: CHAPTER001=00:00:00.000 and CHAPTER001NAME=Title
+  metadata.chapters?.slice(0, 999).forEach((chapter, i) => {
+    const key = `CHAPTER${(i + 1).toString().padStart(3, '0')}`;
+    comments.push(`${key}=${formatChapterTime(chapter.startTime)}`, `${key}NAME=${chapter.title}`);
+  });
+
+  if (includePicture && metadata.coverArt) {
+    comments.push(`METADATA_BLOCK_PICTURE=${toBase64(buildFlacPicture(metadata.coverArt))}`);
+  }
+
+  return comments;
+}
+
+/**
+ * Vendor string and comment list, the payload shared by the FLAC
+ * VORBIS_COMMENT block, the Vorbis comment header and OpusTags
+ */
+export function buildVorbisCommentList(comments: string[]) {
+  const vendor = textEncoder.encode(VENDOR);
+  const entries = comments.map(comment => textEncoder.encode(comment));
+  return concat([
+    uint32(vendor.length, true), vendor,
+    uint32(entries.length, true),
+    ...entries.flatMap(entry => [uint32(entry.length, true), entry])
+  ]);
+}
+
+function riffChunk(id: string, body: Uint8Array): Uint8Array {
+  const padding = new Uint8Array(body.length % 2);
+  return concat([ascii(id), uint32(body.length, true), body, padding]);
+}
+
+/**
+ * LIST/INFO chunk with zero-terminated text entries
+ */
+export function buildRiffInfoChunk(metadata: AudioMetadata) {
+  const entries = RIFF_INFO_FIELDS
+    .map(([field, id]) => [id, fieldValue(metadata, field)])
+    .filter(([, value]) => value !== '')
+    .map(([id, value]) => riffChunk(id, concat([textEncoder.encode(value), new Uint8Array(1)])));
+
+  entries.push(riffChunk('ISFT', concat([ascii(VENDOR), new Uint8Array(1)])));
+  return riffChunk('LIST', concat([ascii('INFO'), ...entries]));
+}
+
+function fixedAscii(value: string, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  bytes.set(ascii(value).subarray(0, length));
+  return bytes;
+}
+
+/**
+ * Broadcast Wave Format (EBU Tech 3285) bext chunk, version 1
+ */
+export function buildBextChunk(
+  metadata: AudioMetadata,
+  format: { sampleRate: number; bitDepth: number; channels: number }
+) {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  const time = `${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}`;
+  const mode = format.channels === 1 ? 'mono' : format.channels === 2 ? 'stereo' : 'multitrack';
+  const codingHistory = `A=PCM,F=${format.sampleRate},W=${format.bitDepth},M=${mode},T=${VENDOR}\r\n`;
+
+  const version = new Uint8Array(2);
+  version[0] = 1;
+
+  return riffChunk('bext', concat([
+    fixedAscii(fieldValue(metadata, 'comment') || fieldValue(metadata, 'title'), 256), // Description
+    fixedAscii(fieldValue(metadata, 'artist'), 32), // Originator
+    fixedAscii('', 32), // OriginatorReference
+    fixedAscii(date, 10),
+    fixedAscii(time, 8),
+    new Uint8Array(8), // TimeReference
+    version,
+    new Uint8Array(64), // UMID
+    new Uint8Array(190), // Reserved
+    ascii(codingHistory)
+  ]));
+}
+
+/**
+ * Wrap an ID3v2 tag in an "id3 " chunk, the usual place for cover art in WAV
+ */
+export function buildId3Chunk(metadata: AudioMetadata) {
+  return riffChunk('id3 ', buildId3v2Tag(metadata));
+}
+
+/**
+ * -metadata arguments for encodes that go through FFmpeg
+ */
+export function toFFmpegMetadataArgs(metadata: AudioMetadata | undefined, includePicture = false): string[] {
+  if (!hasMetadata(metadata)) return [];
+
+  const args = FFMPEG_FIELDS
+    .filter(([field]) => fieldValue(metadata, field) !== '')
+    .flatMap(([field, key]) => ['-metadata', `${key}=${fieldValue(metadata, field)}`]);
+
+  if (includePicture && metadata.coverArt) {
+    args.push('-metadata', `METADATA_BLOCK_PICTURE=${toBase64(buildFlacPicture(metadata.coverArt))}`);
+  }
+
+  return args;
+}
@@ -0,0 +1,124 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { ascii, readBlobRange, viewOf, BlobReader, type AudioDemuxer, type DemuxedPacket } from './demuxer';
+
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+// Indexed by the version bits: MPEG 2.5, reserved, MPEG 2, MPEG 1
+const SAMPLE_RATES = [[11025, 12000, 8000], [], [22050, 24000, 16000], [44100, 48000, 32000]];
+
+// Bytes searched for the first frame after the tags
+const SYNC_SEARCH = 65536;
+
+interface FrameHeader {
+  sampleRate: number;
+  channels: number;
+  samplesPerFrame: number;
+  bitrate: number; // kbit/s
+  length: number; // bytes, header included
+  isMpeg1: boolean;
+}
+
+/**
+ * Layer III frame header at the start of data; null if it is not one
+ */
+function parseFrameHeader(data: Uint8Array): FrameHeader | null {
+  if (data.length < 4 || data[0] !== 0xFF || (data[1] & 0xE0) !== 0xE0) return null;
+
+  const version = (data[1] >> 3) & 0x03;
+  const layer = (data[1] >> 1) & 0x03;
+  const bitrateIndex = data[2] >> 4;
+  const sampleRateIndex = (data[2] >> 2) & 0x03;
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const isMpeg1 = version === 3;
+  const bitrate = (isMpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex];
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+  const padding = (data[2] >> 1) & 0x01;
+  return {
+    sampleRate,
+    channels: data[3] >> 6 === 3 ? 1 : 2,
+    samplesPerFrame: isMpeg1 ? 1152 : 576,
+    bitrate,
+    length: Math.floor(((isMpeg1 ? 144 : 72) * bitrate * 1000) / sampleRate) + padding,
+    isMpeg1
+  };
+}
+
+/**
+ * Frame count from a Xing/Info or VBRI header in the first frame
+ */
+function readFrameCount(frame: Uint8Array, header: FrameHeader): number | undefined {
+  const sideInfo = header.isMpeg1 ? (header.channels === 1 ? 17 : 32) : (header.channels === 1 ? 9 : 17);
+  const xing = 4 + sideInfo;
+  const tag = ascii(frame, xing, 4);
+  if ((tag === 'Xing' || tag === 'Info') && frame.length >= xing + 12) {
+    const view = viewOf(frame);
+    return view.getUint32(xing + 4) & 0x1 ? view.getUint32(xing + 8) : undefined;
+  }
+  if (ascii(frame, 36, 4) === 'VBRI' && frame.length >= 54) {
+    return viewOf(frame).getUint32(36 + 14);
+  }
+  return undefined;
+}
+
+function id3v2Size(data: Uint8Array): number {
+  if (ascii(data, 0, 3) !== 'ID3' || data.length < 10) return 0;
+  const size = ((data[6] & 0x7F) << 21) | ((data[7] & 0x7F) << 14) | ((data[8] & 0x7F) << 7) | (data[9] & 0x7F);
+  const hasFooter = (data[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/**
+ * MPEG Layer III, decoded by WebCodecs as 'mp3'
+ */
+export async function openMp3Demuxer(file: Blob): Promise<AudioDemuxer | null> {
+  const tagSize = id3v2Size(await readBlobRange(file, 0, 10));
+  const head = await readBlobRange(file, tagSize, tagSize + SYNC_SEARCH);
+
+  // The first frame is the first header followed by another one
+  let firstFrame = -1;
+  let header: FrameHeader | null = null;
+  for (let offset = 0; offset + 4 <= head.length; offset++) {
+    const candidate = parseFrameHeader(head.subarray(offset));
+    if (candidate && parseFrameHeader(head.subarray(offset + candidate.length))) {
+      firstFrame = tagSize + offset;
+      header = candidate;
+      break;
+    }
+  }
+  if (!header) return null;
+
+  const first = await readBlobRange(file, firstFrame, firstFrame + header.length);
+  const frameCount = readFrameCount(first, header);
+  const audioBytes = file.size - firstFrame;
+  const duration = frameCount !== undefined
+    ? (frameCount * header.samplesPerFrame) / header.sampleRate
+    : (audioBytes * 8) / (header.bitrate * 1000);
+  // The Xing/Info frame carries no audio
+  const dataStart = frameCount !== undefined ? firstFrame + header.length : firstFrame;
+  const { sampleRate, samplesPerFrame } = header;
+  const reader = new BlobReader(file);
+  reader.position = dataStart;
+
+  return {
+    kind: 'encoded',
+    info: { container: 'MP3', codec: 'mp3', sampleRate, numberOfChannels: header.channels, duration },
+    progress: () => (reader.position - dataStart) / Math.max(1, file.size - dataStart),
+    async *packets(): AsyncGenerator<DemuxedPacket> {
+      let index = 0;
+      while (reader.position + 4 <= file.size) {
+        const frame = parseFrameHeader(await reader.peek(4));
+        if (!frame) {
+          // Junk or trailing tags (ID3v1, APE): look for the next frame
+          reader.position++;
+          continue;
+        }
+        const data = await reader.read(frame.length);
+        if (data.length < frame.length) return;
+        yield { data: data.slice(), timestamp: Math.round((index++ * samplesPerFrame * 1e6) / sampleRate) };
+      }
+    }
+  };
+}
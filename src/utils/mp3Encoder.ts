@@ -0,0 +1,264 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import Lame from 'lamejs/src/js/Lame.js';
+import BitStream from 'lamejs/src/js/BitStream.js';
+import MPEGMode from 'lamejs/src/js/MPEGMode.js';
+import Presets from 'lamejs/src/js/Presets.js';
+import GainAnalysis from 'lamejs/src/js/GainAnalysis.js';
+import QuantizePVT from 'lamejs/src/js/QuantizePVT.js';
+import Quantize from 'lamejs/src/js/Quantize.js';
+import Takehiro from 'lamejs/src/js/Takehiro.js';
+import Reservoir from 'lamejs/src/js/Reservoir.js';
+import Version from 'lamejs/src/js/Version.js';
+import VBRTag from 'lamejs/src/js/VBRTag.js';
+import type { LameGlobalFlags } from 'lamejs/src/js/LameGlobalFlags.js';
+import type { EncodeProgressCallback, Mp3ChannelMode } from '@/types';
+
+// Some lamejs modules reference these as free variables instead of requiring
+// them, which only works in the prebuilt lame.all.js bundle. Expose them
+// globally so the CommonJS sources can be used directly.
+Object.assign(globalThis, { Lame, BitStream, MPEGMode });
+
+export const MP3_CBR_BITRATES = [128, 160, 192, 224, 256, 320];
+
+const SAMPLES_PER_CHUNK = 1152 * 32;
+const LAME_QUALITY = 3;
+const LAME_VERSION = 'LAME3.99r';
+
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const SAMPLE_RATES: Record<number, { version: number; index: number }> = {
+  44100: { version: 3, index: 0 }, 48000: { version: 3, index: 1 }, 32000: { version: 3, index: 2 },
+  22050: { version: 2, index: 0 }, 24000: { version: 2, index: 1 }, 16000: { version: 2, index: 2 },
+  11025: { version: 0, index: 0 }, 12000: { version: 0, index: 1 }, 8000: { version: 0, index: 2 },
+};
+
+interface LameContext {
+  lame: Lame;
+  gfp: LameGlobalFlags;
+}
+
+/**
+ * Build a LAME encoder the same way lamejs' Mp3Encoder does, but with access
+ * to the global flags so we can pick the stereo mode and read back the
+ * encoder delay and padding.
+ */
+function createLame(channels: number, sampleRate: number, bitrate: number, mode: Mp3ChannelMode): LameContext {
+  const lame = new Lame();
+  const ga = new GainAnalysis();
+  const bs = new BitStream();
+  const presets = new Presets();
+  const qupvt = new QuantizePVT();
+  const qu = new Quantize();
+  const vbr = new VBRTag();
+  const ver = new Version();
+  const rv = new Reservoir();
+  const tak = new Takehiro();
+  const id3 = { setModules: () => undefined };
+  const mpg = {};
+
+  lame.setModules(ga, bs, presets, qupvt, qu, vbr, ver, id3, mpg);
+  bs.setModules(ga, mpg, ver, vbr);
+  presets.setModules(lame);
+  qu.setModules(bs, rv, qupvt, tak);
+  qupvt.setModules(tak, rv, lame.enc.psy);
+  rv.setModules(bs);
+  tak.setModules(qupvt);
+  vbr.setModules(lame, bs, ver);
+
+  const gfp = lame.lame_init();
+  gfp.num_channels = channels;
+  gfp.in_samplerate = sampleRate;
+  gfp.brate = bitrate;
+  gfp.mode = channels === 1 ? MPEGMode.MONO : mode === 'stereo' ? MPEGMode.STEREO : MPEGMode.JOINT_STEREO;
+  gfp.quality = LAME_QUALITY;
+  // The lamejs VBR tag writer is unfinished, we write the Info frame ourselves
+  gfp.bWriteVbrTag = false;
+  gfp.disable_reservoir = true;
+  gfp.write_id3tag_automatic = false;
+
+  if (lame.lame_init_params(gfp) !== 0) {
+    throw new Error(`Unsupported MP3 settings: ${bitrate} kbps at ${sampleRate} Hz`);
+  }
+
+  return { lame, gfp };
+}
+
+function floatTo16Bit(input: Float32Array, output: Int16Array): void {
+  for (let i = 0; i < output.length; i++) {
+    const sample = Math.max(-1, Math.min(1, input[i]));
+    output[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+  }
+}
+
+/**
+ * CRC-16 as used by LAME for the tag and music checksums (CRC-16/ARC)
+ */
+function crc16(data: Uint8Array, start: number, end: number, crc: number = 0): number {
+  for (let i = start; i < end; i++) {
+    crc ^= data[i];
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xA001 : crc >>> 1;
+    }
+  }
+  return crc & 0xFFFF;
+}
+
+/**
+ * Build a Xing "Info" frame with a LAME extension. Players read the frame
+ * count for an exact duration and the encoder delay/padding fields to trim
+ * the priming and trailing samples, which makes the export gapless.
+ */
+function buildInfoFrame(
+  gfp: LameContext['gfp'],
+  audio: Uint8Array,
+  frameCount: number
+) {
+  const sampleRate: number = gfp.out_samplerate;
+  const rate = SAMPLE_RATES[sampleRate];
+  if (!rate) {
+    throw new Error(`Unsupported MP3 sample rate: ${sampleRate} Hz`);
+  }
+
+  const isMpeg1 = rate.version === 3;
+  const isMono = gfp.mode === MPEGMode.MONO;
+  const sideInfoSize = isMpeg1 ? (isMono ? 17 : 32) : (isMono ? 9 : 17);
+  const tagSize = 4 + sideInfoSize + 120 + 36;
+  const bitrates = isMpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES;
+  const frameBytes = (kbps: number) => Math.floor(((isMpeg1 ? 144000 : 72000) * kbps) / sampleRate);
+
+  // Use the stream bitrate when the tag fits, otherwise the next one up
+  let bitrateIndex = Math.max(1, bitrates.indexOf(gfp.brate));
+  while (bitrateIndex < bitrates.length - 1 && frameBytes(bitrates[bitrateIndex]) < tagSize) {
+    bitrateIndex++;
+  }
+  const frameSize = frameBytes(bitrates[bitrateIndex]);
+  const totalBytes = frameSize + audio.length;
+
+  const frame = new Uint8Array(frameSize);
+  const view = new DataView(frame.buffer);
+  const channelBits = isMono ? 3 : gfp.mode === MPEGMode.JOINT_STEREO ? 1 : 0;
+
+  frame[0] = 0xFF;
+  frame[1] = 0xE0 | (rate.version << 3) | (1 << 1) | 1; // Layer III, no CRC
+  frame[2] = (bitrateIndex << 4) | (rate.index << 2);
+  frame[3] = channelBits << 6;
+
+  let offset = 4 + sideInfoSize;
+  const writeString = (value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      frame[offset++] = value.charCodeAt(i);
+    }
+  };
+
+  writeString('Info');
+  view.setUint32(offset, 0x0F, false); // frames, bytes, TOC and quality present
+  view.setUint32(offset + 4, frameCount, false);
+  view.setUint32(offset + 8, totalBytes, false);
+  offset += 12;
+  for (let i = 0; i < 100; i++) {
+    frame[offset++] = Math.min(255, Math.floor((i / 100) * 256));
+  }
+  view.setUint32(offset, Math.max(0, 100 - 10 * gfp.VBR_q - gfp.quality), false);
+  offset += 4;
+
+  // LAME extension
+  const lameStart = offset;
+  writeString(LAME_VERSION);
+  frame[offset++] = 0x01; // revision 0, CBR
+  frame[offset++] = Math.min(255, Math.round(gfp.lowpassfreq / 100));
+  offset += 8; // ReplayGain peak and gains left empty
+  frame[offset++] = 0; // encoding flags and ATH type
+  frame[offset++] = Math.min(255, gfp.brate);
+  const delay = Math.min(0xFFF, gfp.encoder_delay);
+  const padding = Math.min(0xFFF, gfp.encoder_padding);
+  frame[offset++] = delay >> 4;
+  frame[offset++] = ((delay & 0x0F) << 4) | (padding >> 8);
+  frame[offset++] = padding & 0xFF;
+  const sourceRateBits = sampleRate <= 32000 ? 0 : sampleRate === 44100 ? 1 : sampleRate === 48000 ? 2 : 3;
+  const stereoBits = isMono ? 0 : gfp.mode === MPEGMode.JOINT_STEREO ? 3 : 1;
+  frame[offset++] = (sourceRateBits << 6) | (stereoBits << 2);
+  frame[offset++] = 0; // MP3 gain
+  offset += 2; // preset and surround info
+  view.setUint32(offset, totalBytes, false);
+  offset += 4;
+  view.setUint16(offset, crc16(audio, 0, audio.length), false);
+  offset += 2;
+  view.setUint16(offset, crc16(frame, 0, offset), false);
+
+  if (offset + 2 - lameStart !== 36) {
+    throw new Error('Invalid LAME tag layout');
+  }
+
+  return frame;
+}
+
+/**
+ * Encode planar float channel data to a constant bitrate MP3 with lamejs.
+ * Sources with more than two channels keep their first two channels.
+ */
+export function encodeMp3(
+  sourceData: Float32Array[],
+  sampleRate: number,
+  bitrate: number,
+  channelMode: Mp3ChannelMode = 'joint-stereo',
+  onProgress?: EncodeProgressCallback
+): Blob {
+  const sourceChannels = sourceData.length;
+  const frameCount = sourceData[0]?.length ?? 0;
+  const channels = channelMode === 'mono' || sourceChannels === 1 ? 1 : 2;
+  const { lame, gfp } = createLame(channels, sampleRate, bitrate, channelMode);
+
+  const left = sourceData[0];
+  const right = sourceData[Math.min(1, sourceChannels - 1)];
+
+  // Mono exports from stereo sources are a plain L+R average
+  let monoMix: Float32Array | null = null;
+  if (channels === 1 && sourceChannels > 1) {
+    monoMix = new Float32Array(frameCount);
+    for (let i = 0; i < monoMix.length; i++) {
+      monoMix[i] = (left[i] + right[i]) / 2;
+    }
+  }
+
+  const leftChunk = new Int16Array(SAMPLES_PER_CHUNK);
+  const rightChunk = new Int16Array(SAMPLES_PER_CHUNK);
+  const mp3BufferSize = Math.ceil(1.25 * SAMPLES_PER_CHUNK + 7200);
+  const mp3Buffer = new Int8Array(mp3BufferSize);
+  const parts: Uint8Array[] = [];
+  let audioBytes = 0;
+
+  const collect = (size: number) => {
+    if (size < 0) {
+      throw new Error(`MP3 encoding failed (code ${size})`);
+    }
+    if (size > 0) {
+      parts.push(new Uint8Array(mp3Buffer.buffer.slice(0, size)));
+      audioBytes += size;
+    }
+  };
+
+  for (let start = 0; start < frameCount; start += SAMPLES_PER_CHUNK) {
+    const length = Math.min(SAMPLES_PER_CHUNK, frameCount - start);
+    const l = leftChunk.subarray(0, length);
+    const r = rightChunk.subarray(0, length);
+    floatTo16Bit((monoMix ?? left).subarray(start, start + length), l);
+    if (channels === 2) {
+      floatTo16Bit(right.subarray(start, start + length), r);
+    }
+    collect(lame.lame_encode_buffer(gfp, l, channels === 1 ? l : r, length, mp3Buffer, 0, mp3BufferSize));
+    onProgress?.((start + length) / frameCount);
+  }
+  collect(lame.lame_encode_flush(gfp, mp3Buffer, 0, mp3BufferSize));
+
+  const audio = new Uint8Array(audioBytes);
+  let offset = 0;
+  for (const part of parts) {
+    audio.set(part, offset);
+    offset += part.length;
+  }
+
+  const infoFrame = buildInfoFrame(gfp, audio, gfp.frameNum);
+  return new Blob([infoFrame, audio], { type: 'audio/mpeg' });
+}
@@ -0,0 +1,214 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { ascii, childBox, readBlobRange, readBoxes, viewOf, BlobReader, type AudioDemuxer, type Box, type DemuxedPacket } from './demuxer';
+
+// MPEG-4 object type indications found in esds
+const OBJECT_TYPE_AAC = 0x40;
+const OBJECT_TYPE_MP3 = [0x69, 0x6B];
+
+/**
+ * The moov box, found by walking the top-level box headers; media data can
+ * be gigabytes, so only the headers are read
+ */
+async function readMoov(file: Blob): Promise<Uint8Array | null> {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await readBlobRange(file, offset, offset + 16);
+    const view = viewOf(header);
+    let size = view.getUint32(0);
+    let headerSize = 8;
+    if (size === 1) {
+      size = view.getUint32(8) * 0x100000000 + view.getUint32(12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) return null;
+
+    if (ascii(header, 4, 4) === 'moov') {
+      return readBlobRange(file, offset, offset + size);
+    }
+    offset += size;
+  }
+  return null;
+}
+
+/**
+ * Expandable descriptor length of the esds descriptors
+ */
+function readDescriptorLength(data: Uint8Array, offset: number): { length: number; next: number } {
+  let length = 0;
+  let next = offset;
+  for (let i = 0; i < 4; i++) {
+    const byte = data[next++];
+    length = (length << 7) | (byte & 0x7F);
+    if (!(byte & 0x80)) break;
+  }
+  return { length, next };
+}
+
+/**
+ * Object type and decoder specific info (the AudioSpecificConfig for AAC)
+ */
+function parseEsds(data: Uint8Array, esds: Box): { objectType: number; config?: Uint8Array } | null {
+  let offset = esds.start + 4; // version and flags
+  if (data[offset] !== 0x03) return null;
+  let descriptor = readDescriptorLength(data, offset + 1);
+  offset = descriptor.next + 2; // ES_ID
+  const flags = data[offset++];
+  if (flags & 0x80) offset += 2;
+  if (flags & 0x40) offset += 1 + data[offset];
+  if (flags & 0x20) offset += 2;
+
+  if (data[offset] !== 0x04) return null;
+  descriptor = readDescriptorLength(data, offset + 1);
+  const objectType = data[descriptor.next];
+  offset = descriptor.next + 13;
+
+  if (data[offset] !== 0x05) return { objectType };
+  descriptor = readDescriptorLength(data, offset + 1);
+  return { objectType, config: data.slice(descriptor.next, descriptor.next + descriptor.length) };
+}
+
+interface SampleTable {
+  offsets: Float64Array;
+  sizes: Uint32Array;
+  times: Float64Array; // in the track timescale
+}
+
+function readSampleTable(data: Uint8Array, stbl: Box): SampleTable | null {
+  const view = viewOf(data);
+  const stsz = childBox(data, stbl, 'stsz');
+  const stsc = childBox(data, stbl, 'stsc');
+  const stco = childBox(data, stbl, 'stco') ?? childBox(data, stbl, 'co64');
+  const stts = childBox(data, stbl, 'stts');
+  if (!stsz || !stsc || !stco || !stts) return null;
+
+  const fixedSize = view.getUint32(stsz.start + 4);
+  const count = view.getUint32(stsz.start + 8);
+  if (count === 0) return null; // fragmented files keep their samples in moof boxes
+  const sizes = new Uint32Array(count);
+  for (let i = 0; i < count; i++) {
+    sizes[i] = fixedSize || view.getUint32(stsz.start + 12 + i * 4);
+  }
+
+  const chunkCount = view.getUint32(stco.start + 4);
+  const is64 = ascii(data, stco.start - 4, 4) === 'co64';
+  const chunkOffset = (chunk: number) => is64
+    ? view.getUint32(stco.start + 8 + chunk * 8) * 0x100000000 + view.getUint32(stco.start + 12 + chunk * 8)
+    : view.getUint32(stco.start + 8 + chunk * 4);
+
+  // stsc runs: from first_chunk on, each chunk holds samples_per_chunk samples
+  const runCount = view.getUint32(stsc.start + 4);
+  const offsets = new Float64Array(count);
+  let sample = 0;
+  for (let run = 0; run < runCount && sample < count; run++) {
+    const entry = stsc.start + 8 + run * 12;
+    const firstChunk = view.getUint32(entry) - 1;
+    const samplesPerChunk = view.getUint32(entry + 4);
+    const lastChunk = run + 1 < runCount ? view.getUint32(entry + 12) - 1 : chunkCount;
+    for (let chunk = firstChunk; chunk < lastChunk && sample < count; chunk++) {
+      let offset = chunkOffset(chunk);
+      for (let i = 0; i < samplesPerChunk && sample < count; i++) {
+        offsets[sample] = offset;
+        offset += sizes[sample++];
+      }
+    }
+  }
+
+  const times = new Float64Array(count);
+  const timeRuns = view.getUint32(stts.start + 4);
+  let time = 0;
+  sample = 0;
+  for (let run = 0; run < timeRuns && sample < count; run++) {
+    const runSamples = view.getUint32(stts.start + 8 + run * 8);
+    const delta = view.getUint32(stts.start + 12 + run * 8);
+    for (let i = 0; i < runSamples && sample < count; i++) {
+      times[sample++] = time;
+      time += delta;
+    }
+  }
+
+  return { offsets, sizes, times };
+}
+
+/**
+ * First AAC (or MP3) track of an MP4/M4A/MOV file
+ */
+export async function openMp4Demuxer(file: Blob): Promise<AudioDemuxer | null> {
+  const data = await readMoov(file);
+  if (!data) return null;
+  const view = viewOf(data);
+  const moov = readBoxes(data, 0, data.length)[0];
+
+  for (const trak of readBoxes(data, moov.start, moov.end).filter(box => box.type === 'trak')) {
+    const mdia = childBox(data, trak, 'mdia');
+    const hdlr = mdia && childBox(data, mdia, 'hdlr');
+    if (!mdia || !hdlr || ascii(data, hdlr.start + 8, 4) !== 'soun') continue;
+
+    const mdhd = childBox(data, mdia, 'mdhd');
+    const minf = childBox(data, mdia, 'minf');
+    const stbl = minf && childBox(data, minf, 'stbl');
+    const stsd = stbl && childBox(data, stbl, 'stsd');
+    if (!mdhd || !stbl || !stsd) return null;
+
+    const isV1 = data[mdhd.start] === 1;
+    const timescale = view.getUint32(mdhd.start + (isV1 ? 20 : 12));
+    const mediaDuration = isV1
+      ? view.getUint32(mdhd.start + 24) * 0x100000000 + view.getUint32(mdhd.start + 28)
+      : view.getUint32(mdhd.start + 16);
+
+    // stsd: version and flags, entry count, then the sample entries
+    const entry = readBoxes(data, stsd.start + 8, stsd.end)[0];
+    if (!entry || entry.type !== 'mp4a') return null;
+    // AudioSampleEntry; QuickTime versions 1 and 2 add fields before the child boxes
+    const entryVersion = view.getUint16(entry.start + 8);
+    const channels = view.getUint16(entry.start + 16);
+    const entrySampleRate = view.getUint32(entry.start + 24) >>> 16;
+    const childrenStart = entry.start + 28 + (entryVersion === 1 ? 16 : entryVersion === 2 ? 36 : 0);
+    const children = readBoxes(data, childrenStart, entry.end);
+    // Some QuickTime files nest esds in a wave box
+    const wave = children.find(box => box.type === 'wave');
+    const esds = children.find(box => box.type === 'esds') ?? (wave && childBox(data, wave, 'esds'));
+    const decoderConfig = esds && parseEsds(data, esds);
+    if (!decoderConfig) return null;
+
+    let codec: string;
+    if (decoderConfig.objectType === OBJECT_TYPE_AAC && decoderConfig.config) {
+      codec = `mp4a.40.${decoderConfig.config[0] >> 3}`;
+    } else if (OBJECT_TYPE_MP3.includes(decoderConfig.objectType)) {
+      codec = 'mp3';
+    } else {
+      return null;
+    }
+
+    const table = readSampleTable(data, stbl);
+    if (!table) return null;
+    const reader = new BlobReader(file);
+    const sampleCount = table.sizes.length;
+    let sample = 0;
+
+    return {
+      kind: 'encoded',
+      info: {
+        container: 'MP4',
+        codec,
+        sampleRate: entrySampleRate || timescale,
+        numberOfChannels: channels,
+        duration: mediaDuration / timescale,
+        description: codec === 'mp3' ? undefined : decoderConfig.config
+      },
+      progress: () => sample / sampleCount,
+      async *packets(): AsyncGenerator<DemuxedPacket> {
+        for (; sample < sampleCount; sample++) {
+          reader.position = table.offsets[sample];
+          const packet = await reader.read(table.sizes[sample]);
+          if (packet.length < table.sizes[sample]) return;
+          yield { data: packet.slice(), timestamp: Math.round((table.times[sample] * 1e6) / timescale) };
+        }
+      }
+    };
+  }
+  return null;
+}
@@ -0,0 +1,159 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { ascii, readBlobRange, viewOf, BlobReader, type AudioDemuxer, type DemuxedPacket } from './demuxer';
+
+const PAGE_HEADER_SIZE = 27;
+// The last page, which holds the final granule position, is looked for this far from the end
+const TAIL_SEARCH = 65536;
+const OPUS_SAMPLE_RATE = 48000; // Opus granules always count 48 kHz samples
+
+interface OggPage {
+  granule: number; // -1 when no packet ends on the page
+  serial: number;
+  segments: number[];
+  payload: Uint8Array;
+}
+
+async function readPage(reader: BlobReader): Promise<OggPage | null> {
+  const header = await reader.peek(PAGE_HEADER_SIZE);
+  if (header.length < PAGE_HEADER_SIZE || ascii(header, 0, 4) !== 'OggS') return null;
+
+  const view = viewOf(header);
+  const granuleHigh = view.getInt32(10, true);
+  const granule = granuleHigh === -1 ? -1 : granuleHigh * 0x100000000 + view.getUint32(6, true);
+  const serial = view.getUint32(14, true);
+  const segmentCount = header[26];
+
+  reader.position += PAGE_HEADER_SIZE;
+  const segments = Array.from(await reader.read(segmentCount));
+  const payloadSize = segments.reduce((sum, size) => sum + size, 0);
+  const payload = (await reader.read(payloadSize)).slice();
+  return { granule, serial, segments, payload };
+}
+
+/**
+ * Packets of the first logical stream, with the granule of the page they end on
+ */
+async function* readPackets(reader: BlobReader): AsyncGenerator<{ data: Uint8Array; granule: number }> {
+  let serial: number | undefined;
+  let pending: Uint8Array[] = [];
+
+  for (let page = await readPage(reader); page; page = await readPage(reader)) {
+    serial ??= page.serial;
+    if (page.serial !== serial) continue;
+
+    let offset = 0;
+    for (const size of page.segments) {
+      pending.push(page.payload.subarray(offset, offset + size));
+      offset += size;
+      // A segment shorter than 255 bytes ends the packet
+      if (size < 255) {
+        const data = new Uint8Array(pending.reduce((sum, part) => sum + part.length, 0));
+        let position = 0;
+        for (const part of pending) {
+          data.set(part, position);
+          position += part.length;
+        }
+        pending = [];
+        yield { data, granule: page.granule };
+      }
+    }
+  }
+}
+
+async function readLastGranule(file: Blob, serial: number): Promise<number> {
+  const tail = await readBlobRange(file, Math.max(0, file.size - TAIL_SEARCH), file.size);
+  for (let offset = tail.length - PAGE_HEADER_SIZE; offset >= 0; offset--) {
+    if (ascii(tail, offset, 4) !== 'OggS') continue;
+    const view = viewOf(tail);
+    if (view.getUint32(offset + 14, true) !== serial) continue;
+    const granuleHigh = view.getInt32(offset + 10, true);
+    if (granuleHigh !== -1) return granuleHigh * 0x100000000 + view.getUint32(offset + 6, true);
+  }
+  return 0;
+}
+
+/**
+ * Xiph lacing of the three Vorbis headers, the decoder description WebCodecs expects
+ */
+function vorbisDescription(headers: Uint8Array[]): Uint8Array {
+  const lacing: number[] = [headers.length - 1];
+  for (const header of headers.slice(0, -1)) {
+    for (let size = header.length; size >= 0; size -= 255) {
+      lacing.push(Math.min(size, 255));
+      if (size < 255) break;
+    }
+  }
+  const description = new Uint8Array(lacing.length + headers.reduce((sum, header) => sum + header.length, 0));
+  description.set(lacing);
+  let offset = lacing.length;
+  for (const header of headers) {
+    description.set(header, offset);
+    offset += header.length;
+  }
+  return description;
+}
+
+/**
+ * Ogg Opus and Ogg Vorbis; null for other Ogg codecs
+ */
+export async function openOggDemuxer(file: Blob): Promise<AudioDemuxer | null> {
+  const headerReader = new BlobReader(file);
+  const packets = readPackets(headerReader);
+  const first = (await packets.next()).value;
+  if (!first) return null;
+
+  const serial = viewOf(await readBlobRange(file, 14, 18)).getUint32(0, true);
+  const lastGranule = await readLastGranule(file, serial);
+  const id = first.data;
+  let info: AudioDemuxer['info'];
+  // Header packets the decoder must not see
+  let headerCount: number;
+
+  if (ascii(id, 0, 8) === 'OpusHead') {
+    const preSkip = viewOf(id).getUint16(10, true);
+    info = {
+      container: 'Ogg',
+      codec: 'opus',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfChannels: id[9],
+      duration: Math.max(0, lastGranule - preSkip) / OPUS_SAMPLE_RATE,
+      description: id
+    };
+    headerCount = 2; // OpusHead, OpusTags
+  } else if (ascii(id, 0, 7) === '\x01vorbis') {
+    const sampleRate = viewOf(id).getUint32(12, true);
+    const comment = (await packets.next()).value;
+    const setup = (await packets.next()).value;
+    if (!comment || !setup) return null;
+    info = {
+      container: 'Ogg',
+      codec: 'vorbis',
+      sampleRate,
+      numberOfChannels: id[11],
+      duration: lastGranule / sampleRate,
+      description: vorbisDescription([id, comment.data, setup.data])
+    };
+    headerCount = 3;
+  } else {
+    return null;
+  }
+
+  const reader = new BlobReader(file);
+  const { sampleRate } = info;
+  return {
+    kind: 'encoded',
+    info,
+    progress: () => reader.position / Math.max(1, file.size),
+    async *packets(): AsyncGenerator<DemuxedPacket> {
+      let index = 0;
+      let granule = 0;
+      for await (const packet of readPackets(reader)) {
+        if (index++ < headerCount) continue;
+        yield { data: packet.data, timestamp: Math.round((granule * 1e6) / sampleRate) };
+        if (packet.granule >= 0) granule = packet.granule;
+      }
+    }
+  };
+}
@@ -0,0 +1,148 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+const HEADER_CONTINUED = 0x01;
+const HEADER_BOS = 0x02;
+const HEADER_EOS = 0x04;
+
+// Pages are closed around this size, like libogg does
+const TARGET_PAGE_SIZE = 4096;
+const MAX_SEGMENTS = 255;
+
+// CRC-32 with polynomial 0x04C11DB7, no reflection, initial value 0
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04C11DB7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xFF]) >>> 0;
+  }
+  return crc;
+}
+
+/**
+ * Writes a single logical Ogg bitstream.
+ * Packets are split into 255-byte lacing segments and grouped into pages;
+ * each page carries the granule position of the last packet completed on it.
+ */
+export class OggWriter {
+  private readonly pages: Uint8Array<ArrayBuffer>[] = [];
+  private readonly serialNumber: number;
+  private sequence = 0;
+  private segments: number[] = [];
+  private body: Uint8Array[] = [];
+  private bodySize = 0;
+  // Granule position of the last packet finished on the current page
+  private pageGranule = -1;
+  private lastGranule = 0;
+  private continued = false;
+
+  constructor(serialNumber = Math.floor(Math.random() * 0xFFFFFFFF)) {
+    this.serialNumber = serialNumber >>> 0;
+  }
+
+  /**
+   * Queue a packet. With flush, the packet ends its page so the next
+   * packet starts on a fresh one (required after codec headers).
+   */
+  writePacket(data: Uint8Array, granulePosition: number, flush = false): void {
+    let offset = 0;
+
+    // A packet whose length is a multiple of 255 is terminated by an empty segment
+    while (true) {
+      if (this.segments.length === MAX_SEGMENTS) {
+        this.writePage(false);
+      }
+
+      const size = Math.min(255, data.length - offset);
+      this.segments.push(size);
+      this.body.push(data.subarray(offset, offset + size));
+      this.bodySize += size;
+      offset += size;
+
+      if (size < 255) break;
+    }
+
+    // The last segment of the packet is on the current page
+    this.pageGranule = granulePosition;
+    this.lastGranule = granulePosition;
+
+    if (flush || this.bodySize >= TARGET_PAGE_SIZE) {
+      this.writePage(false);
+    }
+  }
+
+  /**
+   * Close the stream and return all pages
+   */
+  finish(): BlobPart[] {
+    const lastPage = this.pages[this.pages.length - 1];
+    if (this.segments.length > 0 || !lastPage) {
+      this.writePage(true);
+    } else {
+      // Everything is already paged: mark the last page instead of adding an empty one
+      const view = new DataView(lastPage.buffer);
+      lastPage[5] |= HEADER_EOS;
+      view.setUint32(22, 0, true); // the checksum is computed with its own field zeroed
+      view.setUint32(22, oggCrc(lastPage), true);
+    }
+    return this.pages;
+  }
+
+  private writePage(isLast: boolean): void {
+    if (this.segments.length === 0 && !isLast) return;
+
+    // -1 only when no packet finishes on this page; the closing page of an
+    // empty stream still needs a valid position
+    const endsPacket = this.segments.length > 0 && this.segments[this.segments.length - 1] < 255;
+    const granule = this.pageGranule >= 0 ? this.pageGranule : isLast ? this.lastGranule : -1;
+
+    const headerSize = 27 + this.segments.length;
+    const page = new Uint8Array(headerSize + this.bodySize);
+    const view = new DataView(page.buffer);
+
+    page.set([0x4F, 0x67, 0x67, 0x53]); // "OggS"
+    page[4] = 0;
+    page[5] = (this.continued ? HEADER_CONTINUED : 0)
+      | (this.sequence === 0 ? HEADER_BOS : 0)
+      | (isLast ? HEADER_EOS : 0);
+
+    if (granule < 0) {
+      view.setUint32(6, 0xFFFFFFFF, true);
+      view.setUint32(10, 0xFFFFFFFF, true);
+    } else {
+      view.setUint32(6, granule >>> 0, true);
+      view.setUint32(10, Math.floor(granule / 0x100000000), true);
+    }
+
+    view.setUint32(14, this.serialNumber, true);
+    view.setUint32(18, this.sequence++, true);
+    page[26] = this.segments.length;
+    page.set(this.segments, 27);
+
+    let offset = headerSize;
+    for (const part of this.body) {
+      page.set(part, offset);
+      offset += part.length;
+    }
+
+    view.setUint32(22, oggCrc(page), true);
+    this.pages.push(page);
+
+    this.continued = !endsPacket && this.segments.length > 0;
+    this.pageGranule = -1;
+    this.segments = [];
+    this.body = [];
+    this.bodySize = 0;
+  }
+}
@@ -0,0 +1,202 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { AudioMetadata, EncodeProgressCallback } from '@/types';
+import { buildVorbisCommentList, toVorbisComments } from './metadataWriter';
+import { OggWriter } from './oggMuxer';
+import { muxWebm, WebmBlock } from './webmMuxer';
+import { encodeWithWebCodecs, isWebCodecsEncoderSupported } from './webCodecsEncoder';
+
+export type OpusContainer = 'ogg' | 'webm';
+
+// libopus lookahead at 48 kHz, used when the encoder does not hand out an OpusHead
+const DEFAULT_OPUS_PRE_SKIP = 312;
+const OPUS_SEEK_PRE_ROLL_NS = 80_000_000;
+
+// Frame length in 48 kHz samples for each TOC configuration
+const OPUS_FRAME_SIZES = [
+  480, 960, 1920, 2880, 480, 960, 1920, 2880, 480, 960, 1920, 2880, // SILK
+  480, 960, 480, 960, // Hybrid
+  120, 240, 480, 960, 120, 240, 480, 960, 120, 240, 480, 960, 120, 240, 480, 960, // CELT
+];
+
+function startsWith(data: Uint8Array, magic: string): boolean {
+  for (let i = 0; i < magic.length; i++) {
+    if (data[i] !== magic.charCodeAt(i)) return false;
+  }
+  return data.length >= magic.length;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function buildOpusHead(channels: number, preSkip: number, inputSampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  head[8] = 1; // version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // mapping family 0: mono or stereo
+  return head;
+}
+
+function buildOpusTags(comments: string[]): Uint8Array {
+  return concat([new TextEncoder().encode('OpusTags'), buildVorbisCommentList(comments)]);
+}
+
+function buildVorbisComment(comments: string[]): Uint8Array {
+  return concat([new Uint8Array([0x03]), new TextEncoder().encode('vorbis'), buildVorbisCommentList(comments), new Uint8Array([1])]);
+}
+
+/**
+ * Number of 48 kHz samples in an Opus packet, read from its TOC byte
+ */
+function opusPacketSamples(packet: Uint8Array): number {
+  if (packet.length === 0) return 0;
+  const frameSize = OPUS_FRAME_SIZES[packet[0] >> 3];
+  const code = packet[0] & 0x03;
+  const frames = code === 0 ? 1 : code === 3 ? (packet[1] ?? 0) & 0x3F : 2;
+  return frameSize * frames;
+}
+
+/**
+ * Split Xiph-laced codec private data (the WebCodecs Vorbis description)
+ * into its identification, comment and setup headers
+ */
+function splitXiphLacing(data: Uint8Array): Uint8Array[] {
+  const count = data[0] + 1;
+  const sizes: number[] = [];
+  let offset = 1;
+
+  for (let i = 0; i < count - 1; i++) {
+    let size = 0;
+    while (data[offset] === 255) {
+      size += 255;
+      offset++;
+    }
+    size += data[offset++];
+    sizes.push(size);
+  }
+
+  const packets: Uint8Array[] = [];
+  for (const size of sizes) {
+    packets.push(data.subarray(offset, offset + size));
+    offset += size;
+  }
+  packets.push(data.subarray(offset));
+  return packets;
+}
+
+/**
+ * Encode to Opus with WebCodecs, in an Ogg (.opus) or WebM container.
+ * Resolves to null when the browser cannot encode this configuration,
+ * so the caller can fall back to FFmpeg.
+ */
+export async function encodeOpus(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitrate: number,
+  container: OpusContainer,
+  metadata?: AudioMetadata,
+  onProgress?: EncodeProgressCallback
+): Promise<Blob | null> {
+  // Mapping family 0 only covers mono and stereo
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate, numberOfChannels: channels.length, bitrate: bitrate * 1000 };
+  if (channels.length > 2 || !(await isWebCodecsEncoderSupported(config))) {
+    return null;
+  }
+
+  const encoded = await encodeWithWebCodecs(channels, sampleRate, config, onProgress);
+  const head = encoded.description && startsWith(encoded.description, 'OpusHead')
+    ? encoded.description
+    : buildOpusHead(channels.length, DEFAULT_OPUS_PRE_SKIP, sampleRate);
+  const preSkip = new DataView(head.buffer, head.byteOffset).getUint16(10, true);
+  const totalSamples = Math.round((channels[0]?.length ?? 0) * 48000 / sampleRate);
+
+  if (container === 'webm') {
+    const blocks: WebmBlock[] = [];
+    let position = 0;
+    for (const packet of encoded.packets) {
+      const samples = opusPacketSamples(packet.data);
+      blocks.push({ data: packet.data, timestamp: Math.round(position / 48) });
+      position += samples;
+    }
+
+    // Trim the encoder padding from the last block
+    const padding = position - preSkip - totalSamples;
+    if (blocks.length > 0 && padding > 0) {
+      blocks[blocks.length - 1].discardPadding = Math.round(padding / 48000 * 1e9);
+    }
+
+    return muxWebm({
+      codecId: 'A_OPUS',
+      codecPrivate: head,
+      codecDelay: Math.round(preSkip / 48000 * 1e9),
+      seekPreRoll: OPUS_SEEK_PRE_ROLL_NS,
+      sampleRate: 48000,
+      channels: channels.length
+    }, blocks, totalSamples / 48000, metadata);
+  }
+
+  const writer = new OggWriter();
+  writer.writePacket(head, 0, true);
+  writer.writePacket(buildOpusTags(metadata ? toVorbisComments(metadata, true) : []), 0, true);
+
+  // Granule positions count 48 kHz samples including the pre-skip
+  let granule = preSkip;
+  encoded.packets.forEach((packet, index) => {
+    granule += opusPacketSamples(packet.data);
+    const isLast = index === encoded.packets.length - 1;
+    writer.writePacket(packet.data, isLast ? Math.min(granule, preSkip + totalSamples) : granule);
+  });
+
+  return new Blob(writer.finish(), { type: 'audio/ogg; codecs=opus' });
+}
+
+/**
+ * Encode to Ogg Vorbis with WebCodecs.
+ * Resolves to null when the browser has no Vorbis encoder.
+ */
+export async function encodeVorbis(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitrate: number,
+  metadata?: AudioMetadata,
+  onProgress?: EncodeProgressCallback
+): Promise<Blob | null> {
+  const config: AudioEncoderConfig = { codec: 'vorbis', sampleRate, numberOfChannels: channels.length, bitrate: bitrate * 1000 };
+  if (!(await isWebCodecsEncoderSupported(config))) {
+    return null;
+  }
+
+  const encoded = await encodeWithWebCodecs(channels, sampleRate, config, onProgress);
+  if (!encoded.description) {
+    return null;
+  }
+
+  const [identification, , setup] = splitXiphLacing(encoded.description);
+  const totalSamples = channels[0]?.length ?? 0;
+
+  const writer = new OggWriter();
+  writer.writePacket(identification, 0, true);
+  writer.writePacket(buildVorbisComment(metadata ? toVorbisComments(metadata, true) : []), 0);
+  writer.writePacket(setup, 0, true);
+
+  encoded.packets.forEach((packet, index) => {
+    const end = Math.round((packet.timestamp + packet.duration) * sampleRate / 1e6);
+    const isLast = index === encoded.packets.length - 1;
+    writer.writePacket(packet.data, isLast ? Math.min(end, totalSamples) : end);
+  });
+
+  return new Blob(writer.finish(), { type: 'audio/ogg; codecs=vorbis' });
+}
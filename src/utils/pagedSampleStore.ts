@@ -0,0 +1,291 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { SampleSource } from '@/types';
+import { blockPeaks, peakOfBlocks, readAudioBuffer, sourcePeaks } from './sampleSource';
+
+// Frames per page; a page holds this many frames of every channel
+export const PAGE_FRAMES = 65536;
+
+// Pages stay in memory up to this size; later ones go to the origin private file system
+const RESIDENT_BYTES = 256 * 1024 * 1024;
+// Spilled pages kept in memory after a read
+const CACHED_PAGES = 64;
+
+const SPILL_FILE_PREFIX = 'samples-';
+// Held by each open page for as long as it lives, so the others leave its spill files alone
+const SESSION_LOCK_PREFIX = 'setsound-samples-';
+// Spill files are named after the page that wrote them
+const SESSION_ID = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+let nextStoreId = 0;
+let staleFilesRemoved: Promise<void> | null = null;
+
+async function openSpillDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  try {
+    return navigator.storage?.getDirectory ? await navigator.storage.getDirectory() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete the spill files of pages that were closed or reloaded before
+ * disposing of their stores. Files of pages still open are kept: their
+ * session lock is held. Without Web Locks there is no telling, so nothing
+ * is deleted.
+ */
+async function removeStaleSpillFiles(directory: FileSystemDirectoryHandle): Promise<void> {
+  const locks = navigator.locks;
+  if (!locks) return;
+  try {
+    // Never released: the lock goes away with the page
+    locks.request(`${SESSION_LOCK_PREFIX}${SESSION_ID}`, () => new Promise<void>(() => {}));
+    const { held = [] } = await locks.query();
+    const openSessions = new Set(held
+      .map(lock => lock.name ?? '')
+      .filter(name => name.startsWith(SESSION_LOCK_PREFIX))
+      .map(name => name.slice(SESSION_LOCK_PREFIX.length)));
+    openSessions.add(SESSION_ID);
+
+    for await (const name of directory.keys()) {
+      if (!name.startsWith(SPILL_FILE_PREFIX)) continue;
+      // samples-<session>-<store>.f32
+      const session = name.slice(SPILL_FILE_PREFIX.length, name.lastIndexOf('-'));
+      if (!openSessions.has(session)) {
+        await directory.removeEntry(name);
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to delete stale sample spill files:', error);
+  }
+}
+
+/**
+ * Decoded audio kept as fixed-size pages of planar float samples, so a
+ * recording of several hours never needs one contiguous buffer. The first
+ * pages stay in memory; once they pass RESIDENT_BYTES the rest are written
+ * to a file in the origin private file system and read back on demand.
+ * Pages are appended in order while decoding, then finish() makes the
+ * store readable.
+ */
+export class PagedSampleStore implements SampleSource {
+  private readonly resident: Float32Array[][] = [];
+  private readonly cache = new Map<number, Float32Array[]>();
+  private readonly peaks: number[] = [];
+  private pending: Float32Array[];
+  private pendingFrames = 0;
+  private frameCount = 0;
+  private spillFile: FileSystemWritableFileStream | null = null;
+  private spilledFile: File | null = null;
+  private finished = false;
+
+  private constructor(
+    readonly sampleRate: number,
+    readonly numberOfChannels: number,
+    private readonly directory: FileSystemDirectoryHandle | null,
+    private readonly fileName: string
+  ) {
+    this.pending = this.newPage();
+  }
+
+  static async create(sampleRate: number, numberOfChannels: number): Promise<PagedSampleStore> {
+    const directory = await openSpillDirectory();
+    if (directory) {
+      // Once per page, before it spills anything of its own
+      staleFilesRemoved ??= removeStaleSpillFiles(directory);
+      await staleFilesRemoved;
+    }
+    return new PagedSampleStore(sampleRate, numberOfChannels, directory, `${SPILL_FILE_PREFIX}${SESSION_ID}-${nextStoreId++}.f32`);
+  }
+
+  get length(): number {
+    return this.frameCount;
+  }
+
+  get duration(): number {
+    return this.frameCount / this.sampleRate;
+  }
+
+  /**
+   * Size of the decoded samples, resident or not
+   */
+  get byteSize(): number {
+    return this.frameCount * this.numberOfChannels * Float32Array.BYTES_PER_ELEMENT;
+  }
+
+  /**
+   * Append decoded frames, one array per channel
+   */
+  async append(channels: Float32Array[]): Promise<void> {
+    if (this.finished) throw new Error('The sample store is already finished');
+    const frames = channels[0]?.length ?? 0;
+    let offset = 0;
+
+    while (offset < frames) {
+      const count = Math.min(frames - offset, PAGE_FRAMES - this.pendingFrames);
+      for (let ch = 0; ch < this.numberOfChannels; ch++) {
+        // Channels missing from a block repeat the first one
+        const source = channels[ch] ?? channels[0];
+        this.pending[ch].set(source.subarray(offset, offset + count), this.pendingFrames);
+      }
+      this.pendingFrames += count;
+      offset += count;
+      if (this.pendingFrames === PAGE_FRAMES) {
+        await this.flushPage();
+      }
+    }
+  }
+
+  /**
+   * Write out the last partial page and make the store readable
+   */
+  async finish(): Promise<void> {
+    if (this.finished) return;
+    if (this.pendingFrames > 0) {
+      await this.flushPage();
+    }
+    this.finished = true;
+    if (this.spillFile) {
+      await this.spillFile.close();
+      this.spillFile = null;
+      const handle = await this.directory!.getFileHandle(this.fileName);
+      this.spilledFile = await handle.getFile();
+    }
+  }
+
+  /**
+   * Frames [start, start + count) of every channel
+   */
+  async read(start: number, count: number): Promise<Float32Array[]> {
+    if (!this.finished) throw new Error('The sample store is still being written');
+    const first = Math.max(0, Math.min(start, this.frameCount));
+    const end = Math.max(first, Math.min(start + count, this.frameCount));
+    const output = Array.from({ length: this.numberOfChannels }, () => new Float32Array(end - first));
+
+    for (let position = first; position < end;) {
+      const pageIndex = Math.floor(position / PAGE_FRAMES);
+      const page = await this.readPage(pageIndex);
+      const pageOffset = position - pageIndex * PAGE_FRAMES;
+      const frames = Math.min(end - position, PAGE_FRAMES - pageOffset);
+      for (let ch = 0; ch < this.numberOfChannels; ch++) {
+        output[ch].set(page[ch].subarray(pageOffset, pageOffset + frames), position - first);
+      }
+      position += frames;
+    }
+    return output;
+  }
+
+  /**
+   * Waveform overview from the peaks gathered while appending, normalized
+   * like AudioUtils.generateWaveformData
+   */
+  getPeaks(points: number): Float32Array {
+    return sourcePeaks(this, points);
+  }
+
+  peak(start: number, end: number): number {
+    return peakOfBlocks(this.peaks, start, end);
+  }
+
+  /**
+   * Copy a range of frames, the whole store by default, into an AudioBuffer
+   */
+  toAudioBuffer(start = 0, count = this.frameCount - start): Promise<AudioBuffer> {
+    return readAudioBuffer(this, start, count);
+  }
+
+  /**
+   * Release the pages and delete the spill file
+   */
+  async dispose(): Promise<void> {
+    const hasSpilled = this.resident.length < this.pageCount;
+    this.resident.length = 0;
+    this.cache.clear();
+    this.spilledFile = null;
+    try {
+      // An unfinished store never closed its writable, so there is no file yet
+      if (this.spillFile) {
+        await this.spillFile.abort();
+        this.spillFile = null;
+      } else if (hasSpilled) {
+        await this.directory!.removeEntry(this.fileName);
+      }
+    } catch (error) {
+      console.warn('Failed to delete the sample spill file:', error);
+    }
+  }
+
+  private get pageCount(): number {
+    return Math.ceil(this.frameCount / PAGE_FRAMES);
+  }
+
+  private newPage(): Float32Array[] {
+    return Array.from({ length: this.numberOfChannels }, () => new Float32Array(PAGE_FRAMES));
+  }
+
+  private async flushPage(): Promise<void> {
+    const frames = this.pendingFrames;
+    const page = frames === PAGE_FRAMES ? this.pending : this.pending.map(data => data.slice(0, frames));
+    // Pages are whole peak blocks, so the peaks of each page simply follow on
+    this.peaks.push(...blockPeaks(page, frames));
+
+    const pageIndex = this.pageCount;
+    const residentBytes = this.resident.length * PAGE_FRAMES * this.numberOfChannels * Float32Array.BYTES_PER_ELEMENT;
+    if (pageIndex === this.resident.length && (residentBytes < RESIDENT_BYTES || !this.directory)) {
+      this.resident.push(page);
+    } else {
+      await this.spill(pageIndex, page);
+    }
+
+    this.frameCount += frames;
+    this.pending = this.newPage();
+    this.pendingFrames = 0;
+  }
+
+  private async spill(pageIndex: number, page: Float32Array[]): Promise<void> {
+    if (!this.spillFile) {
+      const handle = await this.directory!.getFileHandle(this.fileName, { create: true });
+      this.spillFile = await handle.createWritable();
+    }
+    // Pages are stored channel after channel at a fixed stride, so the last
+    // one can be shorter without moving the others
+    const pageBytes = PAGE_FRAMES * Float32Array.BYTES_PER_ELEMENT;
+    const spillIndex = pageIndex - this.resident.length;
+    for (let ch = 0; ch < this.numberOfChannels; ch++) {
+      await this.spillFile.write({
+        type: 'write',
+        position: (spillIndex * this.numberOfChannels + ch) * pageBytes,
+        data: page[ch].slice()
+      });
+    }
+  }
+
+  private async readPage(pageIndex: number): Promise<Float32Array[]> {
+    if (pageIndex < this.resident.length) return this.resident[pageIndex];
+
+    const cached = this.cache.get(pageIndex);
+    if (cached) {
+      // Re-insert to mark it as most recently used
+      this.cache.delete(pageIndex);
+      this.cache.set(pageIndex, cached);
+      return cached;
+    }
+
+    const frames = Math.min(PAGE_FRAMES, this.frameCount - pageIndex * PAGE_FRAMES);
+    const pageBytes = PAGE_FRAMES * Float32Array.BYTES_PER_ELEMENT;
+    const pageStart = (pageIndex - this.resident.length) * this.numberOfChannels * pageBytes;
+    const page: Float32Array[] = [];
+    for (let ch = 0; ch < this.numberOfChannels; ch++) {
+      const start = pageStart + ch * pageBytes;
+      const bytes = await this.spilledFile!.slice(start, start + frames * Float32Array.BYTES_PER_ELEMENT).arrayBuffer();
+      page.push(new Float32Array(bytes));
+    }
+
+    this.cache.set(pageIndex, page);
+    if (this.cache.size > CACHED_PAGES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return page;
+  }
+}
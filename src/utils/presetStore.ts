@@ -0,0 +1,128 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { ExportPreset, RawPcmSettings } from '@/types';
+
+const DB_NAME = 'setsound';
+const DB_VERSION = 2;
+const PRESET_STORE = 'exportPresets';
+// Raw PCM import settings, keyed by file extension (version 2)
+const RAW_PCM_STORE = 'rawPcmSettings';
+
+// Written once, when the database is created; users can edit or delete them
+const DEFAULT_PRESETS: ExportPreset[] = [
+  {
+    id: 'podcast-mp3',
+    name: 'Podcast -16 LUFS MP3 mono 96k',
+    options: {
+      format: 'mp3',
+      quality: 'low',
+      bitrate: 96,
+      bitrateMode: 'cbr',
+      channelMode: 'mono',
+      channelCount: 1,
+      sampleRate: 44100,
+      loudnessTarget: -16
+    },
+    fileNameSuffix: '_podcast',
+    metadataTemplate: { genre: 'Podcast' }
+  },
+  {
+    id: 'cd-master-wav',
+    name: 'CD master WAV 16/44.1',
+    options: {
+      format: 'wav',
+      quality: 'high',
+      bitDepth: 16,
+      dither: 'noise-shaped',
+      sampleRate: 44100,
+      channelCount: 2
+    },
+    fileNameSuffix: '_master',
+    metadataTemplate: {}
+  },
+  {
+    id: 'archive-flac',
+    name: 'Archive FLAC 24-bit',
+    options: {
+      format: 'flac',
+      quality: 'high',
+      bitDepth: 24,
+      compressionLevel: 8
+    },
+    fileNameSuffix: '_archive',
+    metadataTemplate: {}
+  },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PRESET_STORE)) {
+          const store = db.createObjectStore(PRESET_STORE, { keyPath: 'id' });
+          DEFAULT_PRESETS.forEach(preset => store.put(preset));
+        }
+        if (!db.objectStoreNames.contains(RAW_PCM_STORE)) {
+          db.createObjectStore(RAW_PCM_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open the preset database'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * All saved presets, sorted by name
+ */
+export async function listExportPresets(): Promise<ExportPreset[]> {
+  const presets = await withStore<ExportPreset[]>(PRESET_STORE, 'readonly', store => store.getAll());
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Create a preset or replace the one with the same id
+ */
+export async function saveExportPreset(preset: ExportPreset): Promise<void> {
+  await withStore(PRESET_STORE, 'readwrite', store => store.put(preset));
+}
+
+export async function deleteExportPreset(id: string): Promise<void> {
+  await withStore(PRESET_STORE, 'readwrite', store => store.delete(id));
+}
+
+/**
+ * Settings last used to import a headerless file with this extension
+ */
+export async function loadRawPcmSettings(extension: string): Promise<RawPcmSettings | undefined> {
+  return withStore<RawPcmSettings | undefined>(RAW_PCM_STORE, 'readonly', store => store.get(extension));
+}
+
+export async function saveRawPcmSettings(extension: string, settings: RawPcmSettings): Promise<void> {
+  await withStore(RAW_PCM_STORE, 'readwrite', store => store.put(settings, extension));
+}
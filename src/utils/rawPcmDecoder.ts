@@ -0,0 +1,178 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+// Reads headerless sample data (.pcm/.raw dumps) with user-given settings
+
+import type { RawPcmSettings, RawSampleFormat } from '@/types';
+
+export const RAW_SAMPLE_FORMATS: Array<{ id: RawSampleFormat; label: string; bytes: number }> = [
+  { id: 'u8', label: '8 bits non signé', bytes: 1 },
+  { id: 's16', label: '16 bits', bytes: 2 },
+  { id: 's24', label: '24 bits', bytes: 3 },
+  { id: 's32', label: '32 bits', bytes: 4 },
+  { id: 'f32', label: '32 bits flottant', bytes: 4 },
+  { id: 'f64', label: '64 bits flottant', bytes: 8 },
+  { id: 'mulaw', label: 'µ-law', bytes: 1 },
+  { id: 'alaw', label: 'A-law', bytes: 1 },
+];
+
+// Extensions that are always headerless, so the import dialog opens right away
+export const RAW_PCM_EXTENSIONS = ['pcm', 'raw', 'sln', 'ul', 'al'];
+
+const DEFAULT_SETTINGS: RawPcmSettings = {
+  format: 's16',
+  endianness: 'little',
+  channels: 2,
+  sampleRate: 44100,
+  byteOffset: 0,
+};
+
+// SoX and Asterisk conventions for telephony dumps
+const EXTENSION_DEFAULTS: Record<string, Partial<RawPcmSettings>> = {
+  sln: { channels: 1, sampleRate: 8000 },
+  ul: { format: 'mulaw', channels: 1, sampleRate: 8000 },
+  al: { format: 'alaw', channels: 1, sampleRate: 8000 },
+};
+
+// Range accepted by AudioBuffer
+export const MIN_SAMPLE_RATE = 3000;
+export const MAX_SAMPLE_RATE = 768000;
+export const MAX_CHANNELS = 32;
+
+// G.711 expansion tables, indexed by the coded byte
+const MULAW_TABLE = buildTable(decodeMuLaw);
+const ALAW_TABLE = buildTable(decodeALaw);
+
+function buildTable(decode: (byte: number) => number): Float32Array {
+  const table = new Float32Array(256);
+  for (let byte = 0; byte < 256; byte++) {
+    table[byte] = decode(byte) / 32768;
+  }
+  return table;
+}
+
+function decodeMuLaw(byte: number): number {
+  const coded = ~byte & 0xFF;
+  const exponent = (coded >> 4) & 0x07;
+  const magnitude = ((((coded & 0x0F) << 3) + 0x84) << exponent) - 0x84;
+  return coded & 0x80 ? -magnitude : magnitude;
+}
+
+function decodeALaw(byte: number): number {
+  const coded = byte ^ 0x55;
+  const exponent = (coded >> 4) & 0x07;
+  const mantissa = coded & 0x0F;
+  const magnitude = exponent === 0
+    ? (mantissa << 4) + 8
+    : ((mantissa << 4) + 0x108) << (exponent - 1);
+  return coded & 0x80 ? magnitude : -magnitude;
+}
+
+export function bytesPerSample(format: RawSampleFormat): number {
+  return RAW_SAMPLE_FORMATS.find(f => f.id === format)!.bytes;
+}
+
+/**
+ * Settings to start from for a file extension (without the dot)
+ */
+export function defaultRawPcmSettings(extension: string): RawPcmSettings {
+  return { ...DEFAULT_SETTINGS, ...EXTENSION_DEFAULTS[extension] };
+}
+
+export function isValidRawPcmSettings(settings: RawPcmSettings): boolean {
+  return Number.isInteger(settings.channels)
+    && settings.channels >= 1 && settings.channels <= MAX_CHANNELS
+    && settings.sampleRate >= MIN_SAMPLE_RATE && settings.sampleRate <= MAX_SAMPLE_RATE
+    && Number.isInteger(settings.byteOffset) && settings.byteOffset >= 0;
+}
+
+/**
+ * Whole frames after the byte offset; trailing bytes of a partial frame are ignored
+ */
+export function rawFrameCount(byteLength: number, settings: RawPcmSettings): number {
+  const frameSize = bytesPerSample(settings.format) * settings.channels;
+  return Math.max(0, Math.floor((byteLength - settings.byteOffset) / frameSize));
+}
+
+/**
+ * Short description, e.g. "s16le, 2 canaux, 44100 Hz"
+ */
+export function describeRawPcm(settings: RawPcmSettings): string {
+  const endianness = bytesPerSample(settings.format) > 1 ? (settings.endianness === 'little' ? 'le' : 'be') : '';
+  const channels = settings.channels > 1 ? `${settings.channels} canaux` : 'mono';
+  return `${settings.format}${endianness}, ${channels}, ${settings.sampleRate} Hz`;
+}
+
+/**
+ * Sample reader for a format, scaled to -1..1
+ */
+function sampleReader(view: DataView, settings: RawPcmSettings): (offset: number) => number {
+  const little = settings.endianness === 'little';
+  switch (settings.format) {
+    case 'u8': return offset => (view.getUint8(offset) - 128) / 128;
+    case 's16': return offset => view.getInt16(offset, little) / 32768;
+    case 's24': return offset => {
+      const b0 = view.getUint8(little ? offset : offset + 2);
+      const b1 = view.getUint8(offset + 1);
+      const b2 = view.getInt8(little ? offset + 2 : offset); // carries the sign
+      return ((b2 << 16) | (b1 << 8) | b0) / 8388608;
+    };
+    case 's32': return offset => view.getInt32(offset, little) / 2147483648;
+    case 'f32': return offset => view.getFloat32(offset, little);
+    case 'f64': return offset => view.getFloat64(offset, little);
+    case 'mulaw': return offset => MULAW_TABLE[view.getUint8(offset)];
+    case 'alaw': return offset => ALAW_TABLE[view.getUint8(offset)];
+  }
+}
+
+/**
+ * Deinterleave the samples into one array per channel
+ */
+export function decodeRawPcm(data: Uint8Array, settings: RawPcmSettings): Float32Array[] {
+  const frames = rawFrameCount(data.length, settings);
+  const sampleSize = bytesPerSample(settings.format);
+  const frameSize = sampleSize * settings.channels;
+  const read = sampleReader(new DataView(data.buffer, data.byteOffset, data.byteLength), settings);
+  const channels = Array.from({ length: settings.channels }, () => new Float32Array(frames));
+
+  for (let frame = 0; frame < frames; frame++) {
+    const frameStart = settings.byteOffset + frame * frameSize;
+    for (let ch = 0; ch < settings.channels; ch++) {
+      const sample = read(frameStart + ch * sampleSize);
+      // NaN and infinities in a misread float file would poison playback
+      channels[ch][frame] = Number.isFinite(sample) ? sample : 0;
+    }
+  }
+  return channels;
+}
+
+/**
+ * Peak level of each of `points` blocks, across channels, without decoding
+ * the whole file. Not normalized: wrong settings show up as full-scale noise.
+ */
+export function rawPcmPeaks(data: Uint8Array, settings: RawPcmSettings, points: number): Float32Array {
+  const peaks = new Float32Array(points);
+  const frames = rawFrameCount(data.length, settings);
+  if (frames === 0) return peaks;
+
+  const sampleSize = bytesPerSample(settings.format);
+  const frameSize = sampleSize * settings.channels;
+  const read = sampleReader(new DataView(data.buffer, data.byteOffset, data.byteLength), settings);
+  const blockSize = frames / points;
+  // Read at most ~200 frames per block, like the waveform of decoded files
+  const step = Math.max(1, Math.floor(blockSize / 200));
+
+  for (let i = 0; i < points; i++) {
+    const end = Math.min(frames, Math.floor((i + 1) * blockSize));
+    let peak = 0;
+    for (let frame = Math.floor(i * blockSize); frame < end; frame += step) {
+      const frameStart = settings.byteOffset + frame * frameSize;
+      for (let ch = 0; ch < settings.channels; ch++) {
+        const sample = Math.abs(read(frameStart + ch * sampleSize));
+        if (sample > peak) peak = sample;
+      }
+    }
+    peaks[i] = Number.isFinite(peak) ? Math.min(1, peak) : 1;
+  }
+  return peaks;
+}
@@ -0,0 +1,84 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+// Zero crossings of the sinc on each side of the centre tap
+const ZERO_CROSSINGS = 32;
+// Filter table resolution, in entries per input sample
+const PHASES = 512;
+// Kaiser window shape, about 90 dB of stopband attenuation
+const KAISER_BETA = 8.6;
+// Passband edge as a fraction of the lower Nyquist frequency
+const ROLLOFF = 0.95;
+
+/**
+ * Zeroth-order modified Bessel function of the first kind
+ */
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const halfX = x / 2;
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k);
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+/**
+ * Right half of the low-pass kernel, sampled PHASES times per input sample.
+ * The sinc is stretched by 1 / cutoff when downsampling so it also acts
+ * as the anti-aliasing filter.
+ */
+function buildKernel(cutoff: number, halfLength: number): Float32Array {
+  const size = halfLength * PHASES + 2;
+  const kernel = new Float32Array(size);
+  const norm = besselI0(KAISER_BETA);
+
+  for (let i = 0; i < size; i++) {
+    const x = i / PHASES;
+    const ratio = x / halfLength;
+    if (ratio >= 1) break;
+    const window = besselI0(KAISER_BETA * Math.sqrt(1 - ratio * ratio)) / norm;
+    const arg = Math.PI * cutoff * x;
+    const sinc = x === 0 ? 1 : Math.sin(arg) / arg;
+    kernel[i] = cutoff * sinc * window;
+  }
+
+  return kernel;
+}
+
+/**
+ * Convert a channel to another sample rate with a Kaiser-windowed sinc
+ * interpolator. Samples outside the input are treated as silence.
+ */
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) {
+    return input.slice();
+  }
+
+  const step = fromRate / toRate;
+  const cutoff = Math.min(1, toRate / fromRate) * ROLLOFF;
+  const halfLength = Math.ceil(ZERO_CROSSINGS / cutoff);
+  const kernel = buildKernel(cutoff, halfLength);
+  const output = new Float32Array(Math.round(input.length * toRate / fromRate));
+
+  for (let i = 0; i < output.length; i++) {
+    const position = i * step;
+    const center = Math.floor(position);
+    const first = Math.max(0, center - halfLength + 1);
+    const last = Math.min(input.length - 1, center + halfLength);
+
+    let sum = 0;
+    for (let k = first; k <= last; k++) {
+      // Linear interpolation between the two nearest kernel phases
+      const offset = Math.abs(position - k) * PHASES;
+      const index = Math.floor(offset);
+      const fraction = offset - index;
+      sum += input[k] * (kernel[index] + (kernel[index + 1] - kernel[index]) * fraction);
+    }
+    output[i] = sum;
+  }
+
+  return output;
+}
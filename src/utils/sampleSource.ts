@@ -0,0 +1,107 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { SampleSource } from '@/types';
+import { mixChannels } from './channelMixer';
+
+// Frames summarized by one stored peak
+export const PEAK_FRAMES = 1024;
+
+/**
+ * Loudest sample of each block of PEAK_FRAMES frames, across channels
+ */
+export function blockPeaks(channels: Float32Array[], frames: number): number[] {
+  const peaks: number[] = [];
+  for (let start = 0; start < frames; start += PEAK_FRAMES) {
+    const end = Math.min(frames, start + PEAK_FRAMES);
+    let peak = 0;
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(channel[i]);
+        if (value > peak) peak = value;
+      }
+    }
+    peaks.push(peak);
+  }
+  return peaks;
+}
+
+/**
+ * Loudest block peak covering frames [start, end)
+ */
+export function peakOfBlocks(peaks: number[], start: number, end: number): number {
+  const last = Math.min(peaks.length, Math.ceil(end / PEAK_FRAMES));
+  let peak = 0;
+  for (let block = Math.max(0, Math.floor(start / PEAK_FRAMES)); block < last; block++) {
+    if (peaks[block] > peak) peak = peaks[block];
+  }
+  return peak;
+}
+
+/**
+ * A decoded buffer read as a sample source; reads copy the window
+ */
+export function bufferSampleSource(buffer: AudioBuffer): SampleSource {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, ch) => buffer.getChannelData(ch));
+  const peaks = blockPeaks(channels, buffer.length);
+  return {
+    sampleRate: buffer.sampleRate,
+    numberOfChannels: buffer.numberOfChannels,
+    length: buffer.length,
+    read: async (start, count) => {
+      const first = Math.max(0, Math.min(start, buffer.length));
+      const end = Math.max(first, Math.min(start + count, buffer.length));
+      return channels.map(data => data.slice(first, end));
+    },
+    peak: (start, end) => peakOfBlocks(peaks, start, end)
+  };
+}
+
+/**
+ * A source remixed to another channel count as it is read, like
+ * AudioUtils.remixAudioBuffer; peaks are those of the unmixed channels
+ */
+export function remixSampleSource(source: SampleSource, channelCount: number): SampleSource {
+  if (source.numberOfChannels === channelCount) return source;
+  return {
+    sampleRate: source.sampleRate,
+    numberOfChannels: channelCount,
+    length: source.length,
+    read: async (start, count) => mixChannels(await source.read(start, count), channelCount),
+    peak: (start, end) => source.peak(start, end),
+    dispose: () => source.dispose?.() ?? Promise.resolve()
+  };
+}
+
+/**
+ * Waveform overview of a source, normalized like
+ * AudioUtils.generateWaveformData
+ */
+export function sourcePeaks(source: SampleSource, points: number): Float32Array {
+  const result = new Float32Array(points);
+  const perPoint = source.length / points;
+  let maxValue = 0;
+  for (let i = 0; i < points; i++) {
+    const start = Math.floor(i * perPoint);
+    result[i] = source.peak(start, Math.max(start + 1, Math.floor((i + 1) * perPoint)));
+    maxValue = Math.max(maxValue, result[i]);
+  }
+  if (maxValue > 0) {
+    for (let i = 0; i < points; i++) result[i] /= maxValue;
+  }
+  return result;
+}
+
+/**
+ * Copy a range of frames, the whole source by default, into an AudioBuffer
+ */
+export async function readAudioBuffer(source: SampleSource, start = 0, count = source.length - start): Promise<AudioBuffer> {
+  const channels = await source.read(start, count);
+  const buffer = new AudioBuffer({
+    numberOfChannels: source.numberOfChannels,
+    length: Math.max(1, channels[0]?.length ?? 0),
+    sampleRate: source.sampleRate
+  });
+  channels.forEach((data, ch) => buffer.getChannelData(ch).set(data));
+  return buffer;
+}
@@ -0,0 +1,94 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { SampleRange, SampleSource, SilenceDetectionOptions } from '@/types';
+
+// Loudness is measured over windows this long, in seconds
+const WINDOW_SECONDS = 0.01;
+// Windows read from the source at a time
+const WINDOWS_PER_READ = 1000;
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceDetectionOptions = {
+  thresholdDb: -40,
+  minSilence: 0.5,
+  minSegment: 1
+};
+
+/**
+ * RMS level of each window in dBFS, the loudest channel deciding, so a
+ * window is only silent when every channel is. The source is read a
+ * stretch at a time.
+ */
+async function windowLevels(source: SampleSource, windowLength: number): Promise<Float32Array> {
+  const levels = new Float32Array(Math.ceil(source.length / windowLength)).fill(-Infinity);
+  const readLength = windowLength * WINDOWS_PER_READ;
+  for (let position = 0; position < source.length; position += readLength) {
+    const channels = await source.read(position, readLength);
+    const firstWindow = position / windowLength;
+    for (const data of channels) {
+      for (let start = 0; start < data.length; start += windowLength) {
+        const end = Math.min(start + windowLength, data.length);
+        let sum = 0;
+        for (let i = start; i < end; i++) {
+          sum += data[i] * data[i];
+        }
+        const w = firstWindow + start / windowLength;
+        const level = 10 * Math.log10(sum / (end - start));
+        if (level > levels[w]) levels[w] = level;
+      }
+    }
+  }
+  return levels;
+}
+
+/**
+ * Find the silences of a source, in frames. Silences that would leave less
+ * than minSegment of sound before the next one are dropped, so the sound
+ * between the silences that remain can become segments of its own.
+ */
+export async function detectSilences(source: SampleSource, options: SilenceDetectionOptions): Promise<SampleRange[]> {
+  const windowLength = Math.max(1, Math.round(WINDOW_SECONDS * source.sampleRate));
+  const minSilence = options.minSilence * source.sampleRate;
+  const minSegment = options.minSegment * source.sampleRate;
+  const levels = await windowLevels(source, windowLength);
+
+  const silences: SampleRange[] = [];
+  let runStart = -1;
+  for (let w = 0; w <= levels.length; w++) {
+    const isSilent = w < levels.length && levels[w] < options.thresholdDb;
+    if (isSilent && runStart === -1) {
+      runStart = w;
+    } else if (!isSilent && runStart !== -1) {
+      const start = runStart * windowLength;
+      const end = Math.min(w * windowLength, source.length);
+      if (end - start >= minSilence) silences.push({ start, end });
+      runStart = -1;
+    }
+  }
+
+  // Silences at the very start and end have no sound on their outer side
+  const kept: SampleRange[] = [];
+  for (const silence of silences) {
+    const soundStart = kept.length > 0 ? kept[kept.length - 1].end : 0;
+    if (silence.start === 0 || silence.start - soundStart >= minSegment) {
+      kept.push(silence);
+    }
+  }
+  const last = kept[kept.length - 1];
+  if (last && last.end < source.length && source.length - last.end < minSegment) {
+    kept.pop();
+  }
+  return kept;
+}
+
+/**
+ * Where to split for each silence: inside it, so no sound is cut off, and
+ * at its inner edge when it opens or closes the timeline
+ */
+export function silenceSplitPoints(silences: SampleRange[], length: number): number[] {
+  return silences.map(({ start, end }) => {
+    if (start === 0) return end;
+    if (end === length) return start;
+    return Math.round((start + end) / 2);
+  });
+}
@@ -0,0 +1,103 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { RawPcmSettings, RawSampleFormat } from '@/types';
+import { ascii, readBlobRange, viewOf, BlobReader, type AudioDemuxer } from './demuxer';
+import { bytesPerSample, decodeRawPcm } from './rawPcmDecoder';
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+// Frames converted per yielded block
+const FRAMES_PER_BLOCK = 65536;
+
+function sampleFormat(tag: number, bitsPerSample: number): RawSampleFormat | null {
+  if (tag === WAVE_FORMAT_PCM) {
+    switch (bitsPerSample) {
+      case 8: return 'u8';
+      case 16: return 's16';
+      case 24: return 's24';
+      case 32: return 's32';
+    }
+  }
+  if (tag === WAVE_FORMAT_IEEE_FLOAT) {
+    if (bitsPerSample === 32) return 'f32';
+    if (bitsPerSample === 64) return 'f64';
+  }
+  return null;
+}
+
+/**
+ * PCM and float WAV: the samples are read directly, no decoder involved.
+ * Null for other WAV codecs.
+ */
+export async function openWavDemuxer(file: Blob): Promise<AudioDemuxer | null> {
+  const header = await readBlobRange(file, 0, 12);
+  if (ascii(header, 0, 4) !== 'RIFF' || ascii(header, 8, 4) !== 'WAVE') return null;
+
+  let settings: RawPcmSettings | null = null;
+  let offset = 12;
+  // Walk the chunk headers up to the data chunk
+  while (offset + 8 <= file.size) {
+    const chunkHeader = await readBlobRange(file, offset, offset + 8);
+    const id = ascii(chunkHeader, 0, 4);
+    const size = viewOf(chunkHeader).getUint32(4, true);
+
+    if (id === 'fmt ') {
+      const fmt = await readBlobRange(file, offset + 8, offset + 8 + Math.min(size, 40));
+      const view = viewOf(fmt);
+      let tag = view.getUint16(0, true);
+      const bitsPerSample = view.getUint16(14, true);
+      // The actual format is the first two bytes of the SubFormat GUID
+      if (tag === WAVE_FORMAT_EXTENSIBLE && fmt.length >= 26) {
+        tag = view.getUint16(24, true);
+      }
+      const format = sampleFormat(tag, bitsPerSample);
+      if (!format) return null;
+      settings = {
+        format,
+        endianness: 'little',
+        channels: view.getUint16(2, true),
+        sampleRate: view.getUint32(4, true),
+        byteOffset: 0
+      };
+    }
+
+    if (id === 'data') {
+      if (!settings) return null;
+      // Writers that never patched the header leave 0 or 0xFFFFFFFF
+      const dataEnd = size === 0 || size === 0xFFFFFFFF ? file.size : Math.min(file.size, offset + 8 + size);
+      return pcmDemuxer(file, settings, offset + 8, dataEnd);
+    }
+    offset += 8 + size + (size & 1);
+  }
+  return null;
+}
+
+function pcmDemuxer(file: Blob, settings: RawPcmSettings, dataStart: number, dataEnd: number): AudioDemuxer {
+  const bytesPerFrame = bytesPerSample(settings.format) * settings.channels;
+  const frameCount = Math.floor((dataEnd - dataStart) / bytesPerFrame);
+  const reader = new BlobReader(file);
+  reader.position = dataStart;
+
+  return {
+    kind: 'pcm',
+    info: {
+      container: 'WAV',
+      codec: 'pcm',
+      sampleRate: settings.sampleRate,
+      numberOfChannels: settings.channels,
+      duration: frameCount / settings.sampleRate
+    },
+    progress: () => (reader.position - dataStart) / Math.max(1, dataEnd - dataStart),
+    async *frames() {
+      const end = dataStart + frameCount * bytesPerFrame;
+      while (reader.position < end) {
+        const block = await reader.read(Math.min(FRAMES_PER_BLOCK * bytesPerFrame, end - reader.position));
+        if (block.length === 0) return;
+        yield decodeRawPcm(block, settings);
+      }
+    }
+  };
+}
@@ -0,0 +1,203 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { AudioMetadata, DitherType, EncodeProgressCallback } from '@/types';
+import { Quantizer } from './dither';
+import { buildBextChunk, buildId3Chunk, buildRiffInfoChunk, hasMetadata } from './metadataWriter';
+
+export type WavBitDepth = 16 | 24 | 32;
+
+export interface WavEncodeOptions {
+  bitDepth?: WavBitDepth; // 32 writes IEEE float
+  dither?: DitherType; // only used for 16-bit output
+  metadata?: AudioMetadata; // written as LIST/INFO, bext and an id3 chunk
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+// Speaker positions for the usual layouts (FL FR FC LFE BL BR ... SL SR)
+const CHANNEL_MASKS: Record<number, number> = {
+  1: 0x4,
+  2: 0x3,
+  3: 0x7,
+  4: 0x33,
+  5: 0x37,
+  6: 0x3F,
+  7: 0x70F,
+  8: 0x63F,
+};
+
+// Largest RIFF size a plain RIFF header can describe
+const RIFF_MAX_SIZE = 0xFFFFFFFF;
+const FRAMES_PER_PART = 65536;
+
+class HeaderWriter {
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(capacity: number) {
+    this.bytes = new Uint8Array(capacity);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  raw(data: Uint8Array): this {
+    this.bytes.set(data, this.offset);
+    this.offset += data.length;
+    return this;
+  }
+
+  string(value: string): this {
+    for (let i = 0; i < value.length; i++) {
+      this.bytes[this.offset++] = value.charCodeAt(i);
+    }
+    return this;
+  }
+
+  uint16(value: number): this {
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+    return this;
+  }
+
+  uint32(value: number): this {
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+    return this;
+  }
+
+  uint64(value: number): this {
+    this.view.setUint32(this.offset, value >>> 0, true);
+    this.view.setUint32(this.offset + 4, Math.floor(value / 0x100000000), true);
+    this.offset += 8;
+    return this;
+  }
+
+  bytesWritten() {
+    return this.bytes.slice(0, this.offset);
+  }
+}
+
+/**
+ * Encode planar float channel data to WAV.
+ * Writes 16/24-bit PCM or 32-bit float, switches to WAVE_FORMAT_EXTENSIBLE
+ * above two channels and to RF64 when the data no longer fits a RIFF header.
+ */
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: WavEncodeOptions = {},
+  onProgress?: EncodeProgressCallback
+): Blob {
+  const bitDepth = options.bitDepth ?? 16;
+  const isFloat = bitDepth === 32;
+  const channelCount = channels.length;
+  const frameCount = channels[0]?.length ?? 0;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channelCount * bytesPerSample;
+  const dataSize = frameCount * blockAlign;
+  const isExtensible = channelCount > 2;
+  const formatTag = isExtensible ? WAVE_FORMAT_EXTENSIBLE : isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+
+  // fmt chunk: 16 bytes for PCM, 18 with cbSize for float, 40 for extensible
+  const fmtSize = isExtensible ? 40 : isFloat ? 18 : 16;
+  const hasFact = isFloat || isExtensible;
+  const padding = dataSize % 2;
+
+  // bext goes before fmt as BWF recommends, LIST/INFO and id3 right before data
+  const metadata = options.metadata;
+  const bextChunk = hasMetadata(metadata)
+    ? buildBextChunk(metadata, { sampleRate, bitDepth, channels: channelCount })
+    : new Uint8Array(0);
+  const infoChunks = hasMetadata(metadata)
+    ? [buildRiffInfoChunk(metadata), ...(metadata.coverArt ? [buildId3Chunk(metadata)] : [])]
+    : [];
+  const metadataSize = bextChunk.length + infoChunks.reduce((total, chunk) => total + chunk.length, 0);
+
+  // The metadata chunks count towards the RIFF size too, so they can push
+  // data just under 4 GiB over the limit
+  const riffSize = 4 + (8 + fmtSize) + (hasFact ? 12 : 0) + metadataSize + 8 + dataSize + padding;
+  const isRf64 = riffSize > RIFF_MAX_SIZE;
+  const chunksSize = riffSize + (isRf64 ? 36 : 0);
+
+  const header = new HeaderWriter(128 + metadataSize);
+
+  if (isRf64) {
+    header.string('RF64').uint32(0xFFFFFFFF).string('WAVE');
+    header.string('ds64').uint32(28)
+      .uint64(chunksSize)
+      .uint64(dataSize)
+      .uint64(frameCount)
+      .uint32(0); // no table entries
+  } else {
+    header.string('RIFF').uint32(chunksSize).string('WAVE');
+  }
+
+  header.raw(bextChunk);
+
+  header.string('fmt ').uint32(fmtSize)
+    .uint16(formatTag)
+    .uint16(channelCount)
+    .uint32(sampleRate)
+    .uint32(sampleRate * blockAlign)
+    .uint16(blockAlign)
+    .uint16(bitDepth);
+
+  if (isExtensible) {
+    header.uint16(22)
+      .uint16(bitDepth) // valid bits per sample
+      .uint32(CHANNEL_MASKS[channelCount] ?? 0)
+      // KSDATAFORMAT_SUBTYPE_PCM / _IEEE_FLOAT GUID
+      .uint32(isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM)
+      .uint16(0x0000).uint16(0x0010)
+      .uint32(0xAA000080).uint32(0x719B3800);
+  } else if (isFloat) {
+    header.uint16(0);
+  }
+
+  if (hasFact) {
+    header.string('fact').uint32(4).uint32(isRf64 ? 0xFFFFFFFF : frameCount);
+  }
+
+  infoChunks.forEach(chunk => header.raw(chunk));
+  header.string('data').uint32(isRf64 ? 0xFFFFFFFF : dataSize);
+
+  const parts: BlobPart[] = [header.bytesWritten()];
+  const quantizer = isFloat ? null : new Quantizer(bitDepth, channelCount, bitDepth === 16 ? options.dither : 'none');
+
+  // Write the sample data in slices so very long buffers never need one huge ArrayBuffer
+  for (let start = 0; start < frameCount; start += FRAMES_PER_PART) {
+    const frames = Math.min(FRAMES_PER_PART, frameCount - start);
+    const part = new ArrayBuffer(frames * blockAlign);
+    const view = new DataView(part);
+    let offset = 0;
+
+    for (let i = start; i < start + frames; i++) {
+      for (let ch = 0; ch < channelCount; ch++) {
+        const sample = channels[ch][i];
+        if (!quantizer) {
+          view.setFloat32(offset, sample, true);
+        } else if (bitDepth === 16) {
+          view.setInt16(offset, quantizer.quantize(sample, ch), true);
+        } else {
+          const value = quantizer.quantize(sample, ch);
+          view.setUint8(offset, value & 0xFF);
+          view.setUint8(offset + 1, (value >> 8) & 0xFF);
+          view.setUint8(offset + 2, (value >> 16) & 0xFF);
+        }
+        offset += bytesPerSample;
+      }
+    }
+
+    parts.push(part);
+    onProgress?.((start + frames) / frameCount);
+  }
+
+  if (padding) {
+    parts.push(new Uint8Array(1));
+  }
+
+  return new Blob(parts, { type: 'audio/wav' });
+}
@@ -0,0 +1,106 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { EncodeProgressCallback } from '@/types';
+
+export interface EncodedPacket {
+  data: Uint8Array;
+  timestamp: number; // microseconds
+  duration: number; // microseconds
+}
+
+export interface EncodedAudio {
+  packets: EncodedPacket[];
+  description?: Uint8Array; // codec setup data from the encoder, if any
+}
+
+// Frames handed to the encoder per AudioData
+const FRAMES_PER_CHUNK = 4800;
+
+function toUint8Array(source: AllowSharedBufferSource): Uint8Array {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+    : new Uint8Array(source).slice();
+}
+
+/**
+ * Check whether the browser can encode the given configuration with WebCodecs
+ */
+export async function isWebCodecsEncoderSupported(config: AudioEncoderConfig): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const support = await AudioEncoder.isConfigSupported(config);
+    return support.supported === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encode planar float channel data with a WebCodecs AudioEncoder.
+ * Callers should check isWebCodecsEncoderSupported() first.
+ */
+export async function encodeWithWebCodecs(
+  channels: Float32Array[],
+  sampleRate: number,
+  config: AudioEncoderConfig,
+  onProgress?: EncodeProgressCallback
+): Promise<EncodedAudio> {
+  const result: EncodedAudio = { packets: [] };
+  const durationUs = (channels[0]?.length ?? 0) / sampleRate * 1e6;
+  let encoderError: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      result.packets.push({ data, timestamp: chunk.timestamp, duration: chunk.duration ?? 0 });
+      // encode() only queues work, so progress follows the encoder output
+      if (durationUs > 0) {
+        onProgress?.(Math.min(1, (chunk.timestamp + (chunk.duration ?? 0)) / durationUs));
+      }
+
+      const description = metadata?.decoderConfig?.description;
+      if (description && !result.description) {
+        result.description = toUint8Array(description);
+      }
+    },
+    error: (error) => {
+      encoderError = error;
+    }
+  });
+
+  try {
+    encoder.configure(config);
+
+    const frameCount = channels[0]?.length ?? 0;
+    for (let start = 0; start < frameCount && !encoderError; start += FRAMES_PER_CHUNK) {
+      const frames = Math.min(FRAMES_PER_CHUNK, frameCount - start);
+      const planar = new Float32Array(frames * channels.length);
+      channels.forEach((channel, ch) => planar.set(channel.subarray(start, start + frames), ch * frames));
+
+      const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate,
+        numberOfFrames: frames,
+        numberOfChannels: channels.length,
+        timestamp: Math.round(start / sampleRate * 1e6),
+        data: planar
+      });
+      encoder.encode(audioData);
+      audioData.close();
+    }
+
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') {
+      encoder.close();
+    }
+  }
+
+  if (encoderError) {
+    throw encoderError;
+  }
+
+  return result;
+}
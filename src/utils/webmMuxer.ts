@@ -0,0 +1,173 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { AudioMetadata, MetadataTextField } from '@/types';
+
+export interface WebmTrack {
+  codecId: 'A_OPUS' | 'A_VORBIS';
+  codecPrivate?: Uint8Array;
+  codecDelay?: number; // nanoseconds
+  seekPreRoll?: number; // nanoseconds
+  sampleRate: number;
+  channels: number;
+}
+
+export interface WebmBlock {
+  data: Uint8Array;
+  timestamp: number; // milliseconds
+  discardPadding?: number; // nanoseconds trimmed from the end of this block
+}
+
+// Keeps block timecodes well inside the signed 16-bit relative range
+const CLUSTER_DURATION_MS = 5000;
+
+type EbmlChild = Uint8Array | Uint8Array[];
+
+// Matroska tag names for the text fields, written at the album/track level
+const TAG_NAMES: Array<[MetadataTextField, string]> = [
+  ['title', 'TITLE'],
+  ['artist', 'ARTIST'],
+  ['album', 'ALBUM'],
+  ['trackNumber', 'PART_NUMBER'],
+  ['year', 'DATE_RELEASED'],
+  ['genre', 'GENRE'],
+  ['comment', 'COMMENT'],
+];
+
+function encodeId(id: number): number[] {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value & 0xFF);
+  }
+  return bytes;
+}
+
+function encodeSize(size: number): number[] {
+  let length = 1;
+  while (length < 8 && size >= 2 ** (7 * length) - 1) {
+    length++;
+  }
+
+  const bytes = new Array<number>(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value & 0xFF;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+function element(id: number, ...children: EbmlChild[]): Uint8Array[] {
+  const parts = children.flat();
+  const size = parts.reduce((total, part) => total + part.length, 0);
+  return [new Uint8Array([...encodeId(id), ...encodeSize(size)]), ...parts];
+}
+
+function uintElement(id: number, value: number): Uint8Array[] {
+  const bytes: number[] = [];
+  for (let rest = value; rest > 0 || bytes.length === 0; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest & 0xFF);
+  }
+  return element(id, new Uint8Array(bytes));
+}
+
+function intElement(id: number, value: number): Uint8Array[] {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigInt64(0, BigInt(Math.round(value)));
+  return element(id, bytes);
+}
+
+function floatElement(id: number, value: number): Uint8Array[] {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+}
+
+function stringElement(id: number, value: string): Uint8Array[] {
+  return element(id, new TextEncoder().encode(value));
+}
+
+function blockPayload(block: WebmBlock, clusterTimestamp: number, flags: number): Uint8Array {
+  const payload = new Uint8Array(4 + block.data.length);
+  const view = new DataView(payload.buffer);
+  payload[0] = 0x81; // track number 1
+  view.setInt16(1, block.timestamp - clusterTimestamp);
+  payload[3] = flags;
+  payload.set(block.data, 4);
+  return payload;
+}
+
+/**
+ * Mux a single audio track into a WebM file.
+ * Audio packets are all keyframes, so clusters are cut on time alone.
+ */
+export function muxWebm(track: WebmTrack, blocks: WebmBlock[], duration: number, metadata?: AudioMetadata): Blob {
+  const header = element(0x1A45DFA3,
+    uintElement(0x4286, 1), // EBMLVersion
+    uintElement(0x42F7, 1), // EBMLReadVersion
+    uintElement(0x42F2, 4), // EBMLMaxIDLength
+    uintElement(0x42F3, 8), // EBMLMaxSizeLength
+    stringElement(0x4282, 'webm'),
+    uintElement(0x4287, 4), // DocTypeVersion
+    uintElement(0x4285, 2) // DocTypeReadVersion
+  );
+
+  const info = element(0x1549A966,
+    uintElement(0x2AD7B1, 1000000), // TimecodeScale: milliseconds
+    stringElement(0x4D80, 'Setsound'),
+    stringElement(0x5741, 'Setsound'),
+    floatElement(0x4489, duration * 1000)
+  );
+
+  const trackEntry = element(0xAE,
+    uintElement(0xD7, 1), // TrackNumber
+    uintElement(0x73C5, 1), // TrackUID
+    uintElement(0x83, 2), // TrackType: audio
+    stringElement(0x86, track.codecId),
+    track.codecPrivate ? element(0x63A2, track.codecPrivate) : [],
+    track.codecDelay ? uintElement(0x56AA, track.codecDelay) : [],
+    track.seekPreRoll ? uintElement(0x56BB, track.seekPreRoll) : [],
+    element(0xE1,
+      floatElement(0xB5, track.sampleRate),
+      uintElement(0x9F, track.channels)
+    )
+  );
+
+  const clusters: Uint8Array[][] = [];
+  let clusterStart = 0;
+  while (clusterStart < blocks.length) {
+    const clusterTimestamp = blocks[clusterStart].timestamp;
+    const children: Uint8Array[][] = [uintElement(0xE7, clusterTimestamp)];
+
+    let index = clusterStart;
+    for (; index < blocks.length && blocks[index].timestamp - clusterTimestamp < CLUSTER_DURATION_MS; index++) {
+      const block = blocks[index];
+      if (block.discardPadding) {
+        // DiscardPadding needs a BlockGroup rather than a SimpleBlock
+        children.push(element(0xA0,
+          element(0xA1, blockPayload(block, clusterTimestamp, 0x00)),
+          intElement(0x75A2, block.discardPadding)
+        ));
+      } else {
+        children.push(element(0xA3, blockPayload(block, clusterTimestamp, 0x80)));
+      }
+    }
+
+    clusters.push(element(0x1F43B675, ...children));
+    clusterStart = index;
+  }
+
+  const simpleTags = TAG_NAMES
+    .filter(([field]) => metadata?.[field]?.trim())
+    .map(([field, name]) => element(0x67C8,
+      stringElement(0x45A3, name),
+      stringElement(0x4487, metadata?.[field]?.trim() ?? '')
+    ));
+  const tags = simpleTags.length > 0
+    ? element(0x1254C367, element(0x7373, element(0x63C0), ...simpleTags))
+    : [];
+
+  const segment = element(0x18538067, info, element(0x1654AE6B, trackEntry), tags, ...clusters);
+  return new Blob([...header, ...segment] as BlobPart[], { type: 'audio/webm' });
+}
@@ -0,0 +1,47 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import type { SampleSource } from '@/types';
+
+// A channel this quiet at a frame counts as crossing there (about -60 dBFS)
+const NEAR_ZERO = 0.001;
+
+/**
+ * Whether every channel changes sign going into frame, or is near zero there
+ */
+function crossesOnAllChannels(channels: Float32Array[], index: number): boolean {
+  return channels.every(data =>
+    Math.abs(data[index]) <= NEAR_ZERO || (index > 0 && data[index - 1] * data[index] <= 0));
+}
+
+/**
+ * The nearest frame within radius frames where all channels cross zero at
+ * once, searching outwards from frame. Cutting there avoids a click at the
+ * edit. Without one, the frame where the loudest channel is quietest.
+ */
+export async function nearestZeroCrossing(source: SampleSource, frame: number, radius: number): Promise<number> {
+  const from = Math.max(0, frame - radius);
+  const to = Math.min(source.length - 1, frame + radius);
+  // One frame more in front, to see the sign change into the first one
+  const readFrom = Math.max(0, from - 1);
+  const channels = await source.read(readFrom, to + 1 - readFrom);
+
+  for (let distance = 0; distance <= radius; distance++) {
+    for (const candidate of [frame - distance, frame + distance]) {
+      if (candidate >= from && candidate <= to && crossesOnAllChannels(channels, candidate - readFrom)) {
+        return candidate;
+      }
+    }
+  }
+
+  let best = Math.max(from, Math.min(frame, to));
+  let bestLevel = Infinity;
+  for (let f = from; f <= to; f++) {
+    const level = channels.reduce((loudest, data) => Math.max(loudest, Math.abs(data[f - readFrom])), 0);
+    if (level < bestLevel || (level === bestLevel && Math.abs(f - frame) < Math.abs(best - frame))) {
+      best = f;
+      bestLevel = level;
+    }
+  }
+  return best;
+}
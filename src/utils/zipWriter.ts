@@ -0,0 +1,129 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+  lastModified?: Date;
+}
+
+const LOCAL_FILE_HEADER = 0x04034B50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014B50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054B50;
+
+const VERSION_NEEDED = 20; // 2.0, plain stored entries
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+
+// Without ZIP64, sizes and offsets are 32-bit
+const MAX_ZIP_SIZE = 0xFFFFFFFF;
+
+// CRC-32 with the reflected polynomial 0xEDB88320, as used by ZIP and PNG
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xEDB88320 : crc >>> 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = (crc >>> 8) ^ CRC_TABLE[(crc ^ data[i]) & 0xFF];
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * MS-DOS date and time fields (2-second resolution, from 1980)
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Pack files into a ZIP archive without compression.
+ * Audio exports are already compressed (or are PCM that deflate barely
+ * shrinks), so storing keeps this fast.
+ */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const centralDirectory: BlobPart[] = [];
+  let directorySize = 0;
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = new Uint8Array(await entry.data.arrayBuffer());
+    const crc = crc32(data);
+    const { time, date } = dosDateTime(entry.lastModified ?? new Date());
+
+    if (offset + 30 + name.length + data.length > MAX_ZIP_SIZE) {
+      throw new Error('ZIP archive would exceed 4 GB');
+    }
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_FILE_HEADER, true);
+    localView.setUint16(4, VERSION_NEEDED, true);
+    localView.setUint16(6, FLAG_UTF8, true);
+    localView.setUint16(8, METHOD_STORE, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true); // compressed size
+    localView.setUint32(22, data.length, true); // uncompressed size
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true); // extra field length
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    centralView.setUint16(4, VERSION_NEEDED, true); // version made by
+    centralView.setUint16(6, VERSION_NEEDED, true);
+    centralView.setUint16(8, FLAG_UTF8, true);
+    centralView.setUint16(10, METHOD_STORE, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    // Extra field, comment, disk number, attributes: all zero
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, data);
+    centralDirectory.push(central);
+    directorySize += central.length;
+    offset += local.length + data.length;
+  }
+
+  if (offset + directorySize + 22 > MAX_ZIP_SIZE) {
+    throw new Error('ZIP archive would exceed 4 GB');
+  }
+  if (entries.length > 0xFFFF) {
+    throw new Error('Too many files for a ZIP archive');
+  }
+
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, entries.length, true); // entries on this disk
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+}
@@ -0,0 +1,27 @@
+// Copyright (c) 2025 Jema Technology.
+// Distributed under the license specified in the root directory of this project.
+
+import { encodeChannels } from '@/utils/channelEncoder';
+import type { EncoderRequest, EncoderResponse } from '@/utils/encoderPool';
+
+// Progress messages are throttled, encoders report once per block
+const PROGRESS_STEP = 0.01;
+
+const post = (response: EncoderResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<EncoderRequest>) => {
+  const { id, channels, sampleRate, options } = event.data;
+  let lastProgress = -1;
+
+  try {
+    const result = await encodeChannels(channels, sampleRate, options, progress => {
+      if (progress - lastProgress >= PROGRESS_STEP || progress === 1) {
+        lastProgress = progress;
+        post({ id, type: 'progress', progress });
+      }
+    });
+    post({ id, type: 'result', result });
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
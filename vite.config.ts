@@ -37,7 +37,10 @@ export default defineConfig({
         ]
       },
       workbox: {
-        globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
+        // wasm covers the bundled FFmpeg core, so conversions work offline
+        globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2,wasm}'],
+        // The FFmpeg core alone is ~31 MB, over Workbox's 2 MB default
+        maximumFileSizeToCacheInBytes: 40 * 1024 * 1024,
         runtimeCaching: [
           {
             urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,